@@ -4,7 +4,7 @@
 import fs from 'fs';
 import path from 'path';
 import rimraf from 'rimraf';
-import {codegen, processFields, validateEntityName} from './codegen-controller';
+import {codegen, processCompositeIndexes, processFields, validateEntityName} from './codegen-controller';
 
 jest.mock('fs', () => {
   const fs = jest.requireActual('fs');
@@ -63,4 +63,27 @@ describe('Codegen can generate schema (mocked)', () => {
       'Schema: undefined type "UnsupportedScalar" on field "notSupported" in "type TypeNotSupported @jsonField"'
     );
   });
+
+  it('resolves the fields of composite indexes', () => {
+    const fields = processFields(
+      'entity',
+      'Transfer',
+      [
+        {name: 'id', type: 'ID', nullable: false, isArray: false, isEnum: false},
+        {name: 'fromId', type: 'String', nullable: false, isArray: false, isEnum: false},
+        {name: 'blockNumber', type: 'Int', nullable: false, isArray: false, isEnum: false},
+      ],
+      [{fields: ['blockNumber']}, {fields: ['fromId', 'blockNumber']}]
+    );
+
+    const compositeIndexes = processCompositeIndexes(fields, [
+      {fields: ['blockNumber']},
+      {fields: ['fromId', 'blockNumber']},
+    ]);
+    expect(compositeIndexes).toHaveLength(1);
+    expect(compositeIndexes[0].map((field) => [field.name, field.type])).toEqual([
+      ['fromId', 'string'],
+      ['blockNumber', 'number'],
+    ]);
+  });
 });
@@ -84,6 +84,7 @@ const TYPES_INDEX_TEMPLATE_PATH = path.resolve(__dirname, '../template/types-ind
 const INTERFACE_TEMPLATE_PATH = path.resolve(__dirname, '../template/interface.ts.ejs');
 const ENUM_TEMPLATE_PATH = path.resolve(__dirname, '../template/enum.ts.ejs');
 const DYNAMIC_DATASOURCE_TEMPLATE_PATH = path.resolve(__dirname, '../template/datasource-templates.ts.ejs');
+const TYPED_STORE_TEMPLATE_PATH = path.resolve(__dirname, '../template/typed-store.ts.ejs');
 const TYPE_ROOT_DIR = 'src/types';
 const MODEL_ROOT_DIR = 'src/types/models';
 const RESERVED_KEYS = ['filter', 'filters'];
@@ -93,6 +94,7 @@ const exportTypes = {
   interfaces: false,
   enums: false,
   datasources: false,
+  store: false,
 };
 
 // 3. Re-format the field of the entity
@@ -118,11 +120,28 @@ export async function generateJsonInterfaces(projectPath: string, schema: string
       fields,
     };
   });
+  // Interfaces implemented by entities
+  const entityInterfaces = getAllEntitiesRelations(schema).interfaces.map((r) => {
+    const fields = processFields(
+      'entity',
+      r.name,
+      r.fields.filter((field) => field.computed === undefined)
+    );
+    return {
+      interfaceName: r.name,
+      fields,
+    };
+  });
+  const importEnums = uniq(
+    entityInterfaces.flatMap((r) => r.fields.filter((field) => field.isEnum).map((f) => f.type))
+  );
 
-  if (jsonInterfaces.length !== 0) {
+  if (jsonInterfaces.length !== 0 || entityInterfaces.length !== 0) {
     const interfaceTemplate = {
       props: {
         jsonInterfaces,
+        entityInterfaces,
+        importEnums,
       },
       helper: {
         upperFirst,
@@ -132,7 +151,7 @@ export async function generateJsonInterfaces(projectPath: string, schema: string
       await renderTemplate(INTERFACE_TEMPLATE_PATH, path.join(typesDir, `interfaces.ts`), interfaceTemplate);
       exportTypes.interfaces = true;
     } catch (e) {
-      throw new Error(`When render json interfaces having problems.`);
+      throw new Error(`When render interfaces having problems.`);
     }
   }
 }
@@ -226,6 +245,17 @@ export function processFields(
   return fieldList;
 }
 
+// Resolve the fields of composite indexes so that getters can be generated for them
+export function processCompositeIndexes(
+  fields: ProcessedField[],
+  indexFields: GraphQLEntityIndex[] = []
+): ProcessedField[][] {
+  return indexFields
+    .filter((indexField) => indexField.fields.length > 1)
+    .map((indexField) => indexField.fields.map((name) => fields.find((field) => field.name === name)))
+    .filter((indexFields) => indexFields.every((field) => field && !field.isJsonInterface));
+}
+
 //1. Prepare models directory and load schema
 export async function codegen(projectPath: string, fileNames: string[] = [DEFAULT_MANIFEST]): Promise<void> {
   const modelDir = path.join(projectPath, MODEL_ROOT_DIR);
@@ -338,10 +368,28 @@ export async function generateModels(projectPath: string, schema: string): Promi
 
     const entityName = validateEntityName(entity.name);
 
-    const fields = processFields('entity', className, entity.fields, entity.indexes);
+    // Computed fields are generated by the db so they can't be set
+    const fields = processFields(
+      'entity',
+      className,
+      entity.fields.filter((field) => field.computed === undefined),
+      entity.indexes
+    );
     const importJsonInterfaces = uniq(fields.filter((field) => field.isJsonInterface).map((f) => f.type));
     const importEnums = fields.filter((field) => field.isEnum).map((f) => f.type);
     const indexedFields = fields.filter((field) => field.indexed && !field.isJsonInterface);
+    const compositeIndexes = processCompositeIndexes(fields, entity.indexes);
+    const implementedInterfaces = extractEntities.interfaces
+      .filter((r) => r.implementations.includes(entity.name))
+      .map((r) => upperFirst(r.name));
+    const manyToManyRelations = extractEntities.relations
+      .filter((r) => r.type === 'manyToMany' && r.from === entity.name)
+      .map((r) => ({
+        to: upperFirst(r.to),
+        through: upperFirst(r.through),
+        foreignKey: r.foreignKey,
+        otherKey: r.otherKey,
+      }));
     const modelTemplate = {
       props: {
         baseFolderPath,
@@ -349,8 +397,11 @@ export async function generateModels(projectPath: string, schema: string): Promi
         entityName,
         fields,
         importJsonInterfaces,
+        implementedInterfaces,
+        manyToManyRelations,
         importEnums,
         indexedFields,
+        compositeIndexes,
       },
       helper: {
         upperFirst,
@@ -384,6 +435,21 @@ export async function generateModels(projectPath: string, schema: string): Promi
       throw new Error(`When render index in models having problems.`);
     }
     console.log(`* Models index generated !`);
+
+    try {
+      await renderTemplate(TYPED_STORE_TEMPLATE_PATH, path.join(projectPath, TYPE_ROOT_DIR, `store.ts`), {
+        props: {
+          entities: extractEntities.models.map((entity) => ({
+            className: upperFirst(entity.name),
+            entityName: entity.name,
+          })),
+        },
+      });
+      exportTypes.store = true;
+    } catch (e) {
+      throw new Error(`When render typed store having problems.`);
+    }
+    console.log(`* Typed store generated !`);
   }
 }
 
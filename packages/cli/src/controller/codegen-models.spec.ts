@@ -0,0 +1,141 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import vm from 'vm';
+import ts from 'typescript';
+import {generateSchemaModels} from './codegen-controller';
+
+jest.setTimeout(60000);
+
+const TYPES_CORE_PATH = path.resolve(__dirname, '../../../types-core');
+
+const schema = `
+type Account @entity @compositeIndexes(fields: [["owner", "balance"]]) {
+  id: ID!
+  owner: String! @index
+  balance: BigInt!
+  count: Int
+}
+
+type Post @entity {
+  id: ID!
+  tags: [Tag!]! @manyToMany
+}
+
+type Tag @entity {
+  id: ID!
+}
+`;
+
+// Uses the generated models and typed store the same way a mapping would
+const mapping = `
+import {Account} from './types/models';
+import {typedStore} from './types/store';
+
+export async function handle(): Promise<void> {
+  const accounts: Account[] = await Account.getByOwnerAndBalance('alice', BigInt(1), {limit: 10});
+  const byOwner: Account[] | undefined = await Account.getByOwner('alice');
+
+  const current = await typedStore.get('Account', '1');
+  const previous = await typedStore.getAt('Account', '1', 100);
+  const previousByOwner = await typedStore.getByFieldAt('Account', 'owner', ['alice', 'bob'], 100, {limit: 10});
+  const total = await typedStore.aggregate('Account', 'balance', 'sum');
+  await typedStore.set('Account', '2', {id: '2', owner: previous?.owner ?? '', balance: BigInt(0), count: 1});
+
+  console.log(accounts, byOwner, current, previousByOwner, total);
+}
+`;
+
+// Incorrect uses of the typed store that should fail to type check
+const badMapping = `
+import {typedStore} from './types/store';
+
+export async function handle(): Promise<void> {
+  await typedStore.getAt('Unknown', '1', 100);
+  await typedStore.getByFieldAt('Account', 'unknown', 'alice', 100);
+  await typedStore.getByFieldAt('Account', 'owner', 1, 100);
+}
+`;
+
+function typeCheck(projectPath: string, files: string[]): readonly ts.Diagnostic[] {
+  const program = ts.createProgram([...files, path.join(TYPES_CORE_PATH, 'src/global.ts')], {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    baseUrl: projectPath,
+    paths: {'@subql/types-core': [path.join(TYPES_CORE_PATH, 'src')]},
+  });
+  return ts.getPreEmitDiagnostics(program);
+}
+
+// Runs a generated file with the store as a global the same way the sandbox does
+function requireGenerated(file: string, store: unknown): any {
+  const {outputText} = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: {module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true},
+  });
+  const module = {exports: {}};
+  const localRequire = (id: string) =>
+    id.startsWith('.') ? requireGenerated(path.resolve(path.dirname(file), `${id}.ts`), store) : require(id);
+  vm.runInThisContext(`(function (require, module, exports, store) {${outputText}\n})`)(
+    localRequire,
+    module,
+    module.exports,
+    store
+  );
+  return module.exports;
+}
+
+function formatDiagnostics(diagnostics: readonly ts.Diagnostic[]): string[] {
+  return diagnostics.map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('Codegen models and typed store', () => {
+  let projectPath: string;
+
+  beforeAll(async () => {
+    projectPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'codegen-'));
+    const schemaPath = path.join(projectPath, 'schema.graphql');
+    await fs.promises.writeFile(schemaPath, schema);
+    await generateSchemaModels(projectPath, schemaPath);
+    await fs.promises.writeFile(path.join(projectPath, 'src/mapping.ts'), mapping);
+    await fs.promises.writeFile(path.join(projectPath, 'src/badMapping.ts'), badMapping);
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(projectPath, {recursive: true, force: true});
+  });
+
+  it('generates code that type checks with composite index getters and the typed store', () => {
+    const diagnostics = typeCheck(projectPath, [path.join(projectPath, 'src/mapping.ts')]);
+    expect(formatDiagnostics(diagnostics)).toEqual([]);
+  });
+
+  it('rejects unknown entities, fields and values in the typed store', () => {
+    const diagnostics = typeCheck(projectPath, [path.join(projectPath, 'src/badMapping.ts')]);
+    expect(diagnostics.map((d) => d.start && d.file?.getLineAndCharacterOfPosition(d.start).line)).toEqual([4, 5, 6]);
+  });
+
+  it('generates join entity ids that are unique when ids contain the separator', async () => {
+    const store = {set: jest.fn(), remove: jest.fn()};
+    const {Post} = requireGenerated(path.join(projectPath, 'src/types/models/Post.ts'), store);
+
+    await Post.create({id: 'a-b'}).addTag('c');
+    await Post.create({id: 'a'}).addTag('b-c');
+    await Post.create({id: 'a'}).removeTag('b-c');
+
+    const [[, first], [, second]] = store.set.mock.calls;
+    expect(first).not.toEqual(second);
+    expect(store.set.mock.calls.map(([entity, id, data]) => [entity, id, data.postId, data.tagId])).toEqual([
+      ['PostTag', first, 'a-b', 'c'],
+      ['PostTag', second, 'a', 'b-c'],
+    ]);
+    expect(store.remove).toHaveBeenCalledWith('PostTag', second);
+  });
+});
@@ -161,7 +161,12 @@ export async function readDefaults(projectPath: string): Promise<string[]> {
   } else {
     const yamlManifest = await fs.promises.readFile(defaultYamlPath, 'utf8');
     const extractedYamlValues = parseDocument(yamlManifest).toJS() as ProjectManifestV1_0_0;
-    endpoint = extractedYamlValues.network.endpoint;
+    const manifestEndpoint = extractedYamlValues.network.endpoint;
+    // Endpoints can be a map of endpoints to their options
+    endpoint =
+      typeof manifestEndpoint === 'object' && !Array.isArray(manifestEndpoint)
+        ? Object.keys(manifestEndpoint)
+        : manifestEndpoint;
   }
 
   return [endpoint, currentPackage.author, currentPackage.description];
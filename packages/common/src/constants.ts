@@ -45,6 +45,7 @@ export const runnerMapping = {
 export enum SUPPORT_DB {
   cockRoach = 'CockroachDB',
   postgres = 'PostgreSQL',
+  sqlite = 'SQLite',
 }
 
 // DATABASE ERROR REGEX
@@ -294,6 +294,50 @@ export class FileReferenceImp<T> implements ValidatorConstraintInterface {
   }
 }
 
+const ENDPOINT_ROLES = ['archive', 'light'];
+
+@ValidatorConstraint({name: 'isNetworkEndpoint', async: false})
+export class NetworkEndpointValidator implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    if (typeof value === 'string') {
+      return true;
+    }
+    if (Array.isArray(value)) {
+      return value.every((endpoint) => typeof endpoint === 'string');
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.values(value).every((config) => this.isValidEndpointConfig(config));
+    }
+    return false;
+  }
+  defaultMessage(args: ValidationArguments): string {
+    return `${JSON.stringify(
+      args.value
+    )} is not a valid endpoint. Endpoints must be a string, a list of strings or a map of endpoints to their options`;
+  }
+
+  private isValidEndpointConfig(config: unknown): boolean {
+    // Endpoints can be listed without any options
+    if (config === null || config === undefined) {
+      return true;
+    }
+    if (typeof config !== 'object') {
+      return false;
+    }
+    const {headers, maxConcurrency, rateLimit, role, weight} = config as Record<string, unknown>;
+    return (
+      (headers === undefined ||
+        (typeof headers === 'object' &&
+          headers !== null &&
+          Object.values(headers).every((header) => typeof header === 'string'))) &&
+      (rateLimit === undefined || (typeof rateLimit === 'number' && rateLimit > 0)) &&
+      (maxConcurrency === undefined || (Number.isInteger(maxConcurrency) && (maxConcurrency as number) > 0)) &&
+      (weight === undefined || (typeof weight === 'number' && weight >= 0)) &&
+      (role === undefined || ENDPOINT_ROLES.includes(role as string))
+    );
+  }
+}
+
 export const tsProjectYamlPath = (tsManifestEntry: string) => tsManifestEntry.replace('.ts', '.yaml');
 
 @ValidatorConstraint({async: false})
@@ -4,6 +4,7 @@
 import {
   BlockFilter,
   CommonSubqueryProject,
+  IEndpointConfig,
   IProjectNetworkConfig,
   NodeOptions,
   NodeSpec,
@@ -26,7 +27,7 @@ import {
   IsNotEmpty,
   Allow,
 } from 'class-validator';
-import {SemverVersionValidator} from '../../utils';
+import {NetworkEndpointValidator, SemverVersionValidator} from '../../utils';
 import {FileType} from '../base';
 
 export class RunnerQueryBaseModel implements QuerySpec {
@@ -135,9 +136,9 @@ export class CommonRunnerSpecsImpl implements RunnerSpecs {
 }
 
 export class CommonProjectNetworkV1_0_0<C = any> implements IProjectNetworkConfig {
-  @IsString({each: true})
+  @Validate(NetworkEndpointValidator)
   @IsOptional()
-  endpoint: string | string[];
+  endpoint: string | string[] | Record<string, IEndpointConfig>;
   @IsString()
   @IsOptional()
   dictionary?: string;
@@ -3,12 +3,12 @@
 
 import assert from 'assert';
 import {EventEmitter2} from '@nestjs/event-emitter';
-import {ProjectNetworkConfig} from '@subql/types-core';
+import {IEndpointConfig, ProjectNetworkConfig} from '@subql/types-core';
 import {ApiConnectionError, ApiErrorType} from './api.connection.error';
 import {IndexerEvent, NetworkMetadataPayload} from './events';
 import {ConnectionPoolService} from './indexer';
 import {getLogger} from './logger';
-import {raceFulfilled, retryWithBackoff} from './utils';
+import {normalizeNetworkEndpoints, raceFulfilled, retryWithBackoff} from './utils';
 
 const logger = getLogger('api');
 
@@ -74,7 +74,7 @@ export abstract class ApiService<A = any, SA = any, B extends Array<any> = any[]
 
   async createConnections(
     network: ProjectNetworkConfig & {chainId: string},
-    createConnection: (endpoint: string) => Promise<IApiConnectionSpecific<A, SA, B>>,
+    createConnection: (endpoint: string, config: IEndpointConfig) => Promise<IApiConnectionSpecific<A, SA, B>>,
     getChainId: (connection: IApiConnectionSpecific) => Promise<string>,
     postConnectedHook?: (connection: IApiConnectionSpecific, endpoint: string, index: number) => void
   ): Promise<void> {
@@ -82,9 +82,12 @@ export abstract class ApiService<A = any, SA = any, B extends Array<any> = any[]
 
     const failedConnections: Map<number, string> = new Map();
 
-    const connectionPromises = (network.endpoint as string[]).map(async (endpoint, i) => {
+    const endpoints = normalizeNetworkEndpoints(network.endpoint);
+    const createEndpointConnection = (endpoint: string) => createConnection(endpoint, endpoints[endpoint]);
+
+    const connectionPromises = Object.keys(endpoints).map(async (endpoint, i) => {
       try {
-        const connection = await createConnection(endpoint);
+        const connection = await createEndpointConnection(endpoint);
         this.eventEmitter.emit(IndexerEvent.ApiConnected, {
           value: 1,
           apiIndex: i,
@@ -105,7 +108,7 @@ export abstract class ApiService<A = any, SA = any, B extends Array<any> = any[]
           throw this.metadataMismatchError('ChainId', network.chainId, chainId);
         }
 
-        this.connectionPoolService.addToConnections(connection, endpoint);
+        this.connectionPoolService.addToConnections(connection, endpoint, endpoints[endpoint]);
       } catch (e) {
         logger.error(`Failed to init ${endpoint}: ${e}`);
         endpointToApiIndex[endpoint] = null as unknown as IApiConnectionSpecific<A, SA, B>;
@@ -127,7 +130,7 @@ export abstract class ApiService<A = any, SA = any, B extends Array<any> = any[]
     Promise.allSettled(connectionPromises).then((res) => {
       // Retry failed connections in the background
       for (const [index, endpoint] of failedConnections) {
-        this.retryConnection(createConnection, getChainId, network, index, endpoint, postConnectedHook);
+        this.retryConnection(createEndpointConnection, getChainId, network, index, endpoint, postConnectedHook);
       }
     });
   }
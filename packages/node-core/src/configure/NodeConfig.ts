@@ -5,24 +5,36 @@ import assert from 'assert';
 import fs from 'fs';
 import path from 'path';
 import {getFileContent, loadFromJsonOrYaml} from '@subql/common';
+import {IEndpointConfig} from '@subql/types-core';
 import {last} from 'lodash';
 import {LevelWithSilent} from 'pino';
 import {getLogger} from '../logger';
+import {normalizeNetworkEndpoints} from '../utils/configure';
 import {assign} from '../utils/object';
 
 const logger = getLogger('configure');
 
+export type DbType = 'postgres' | 'sqlite';
+
 export interface IConfig {
   readonly subquery: string;
   readonly subqueryName?: string;
   readonly dbSchema?: string;
+  readonly dbType?: DbType;
+  readonly dbFile?: string;
+  readonly allowDestructiveMigrations?: boolean;
+  readonly historyRetention?: number;
   readonly batchSize: number;
   readonly timeout: number;
   readonly blockTime: number;
   readonly debug?: string;
   readonly preferRange: boolean;
-  readonly networkEndpoint?: string[];
+  // A map of endpoints to their options can be used in the config file
+  readonly networkEndpoint?: string[] | Record<string, IEndpointConfig>;
   readonly primaryNetworkEndpoint?: string;
+  readonly endpointMaxConcurrency?: number;
+  readonly endpointMaxRps?: number;
+  readonly hedgeRequests?: boolean;
   readonly networkDictionary?: string;
   readonly dictionaryResolver?: string | false;
   readonly dictionaryRegistry: string;
@@ -51,7 +63,11 @@ export interface IConfig {
   readonly storeGetCacheSize: number;
   readonly storeCacheAsync: boolean;
   readonly scaleBatchSize?: boolean;
+  readonly targetThroughput?: number;
   readonly storeFlushInterval: number;
+  readonly dryRun?: boolean;
+  readonly dryRunOutput?: string;
+  readonly changeSink?: string;
   readonly isTest?: boolean;
   readonly root?: string;
 }
@@ -131,16 +147,29 @@ export class NodeConfig<C extends IConfig = IConfig> implements IConfig {
     return this._config.batchSize;
   }
 
-  get networkEndpoints(): string[] | undefined {
-    return typeof this._config.networkEndpoint === 'string'
-      ? [this._config.networkEndpoint]
-      : this._config.networkEndpoint;
+  get networkEndpoints(): Record<string, IEndpointConfig> | undefined {
+    if (!this._config.networkEndpoint) {
+      return undefined;
+    }
+    return normalizeNetworkEndpoints(this._config.networkEndpoint);
   }
 
   get primaryNetworkEndpoint(): string | undefined {
     return this._config.primaryNetworkEndpoint;
   }
 
+  get endpointMaxConcurrency(): number | undefined {
+    return this._config.endpointMaxConcurrency;
+  }
+
+  get endpointMaxRps(): number | undefined {
+    return this._config.endpointMaxRps;
+  }
+
+  get hedgeRequests(): boolean {
+    return !!this._config.hedgeRequests;
+  }
+
   get networkDictionary(): string | undefined {
     return this._config.networkDictionary;
   }
@@ -165,6 +194,18 @@ export class NodeConfig<C extends IConfig = IConfig> implements IConfig {
     return this._config.storeFlushInterval;
   }
 
+  get dryRun(): boolean {
+    return !!this._config.dryRun;
+  }
+
+  get dryRunOutput(): string | undefined {
+    return this._config.dryRunOutput;
+  }
+
+  get changeSink(): string | undefined {
+    return this._config.changeSink;
+  }
+
   get dictionaryResolver(): string | false {
     if (this._config.dictionaryResolver === 'false') {
       return false;
@@ -237,6 +278,24 @@ export class NodeConfig<C extends IConfig = IConfig> implements IConfig {
     return this._isTest ? `test-${schema}` : schema;
   }
 
+  get dbType(): DbType {
+    return this._config.dbType ?? 'postgres';
+  }
+
+  get allowDestructiveMigrations(): boolean {
+    return !!this._config.allowDestructiveMigrations;
+  }
+
+  // The number of blocks that historical versions of entities are kept for, entities can override this
+  get historyRetention(): number | undefined {
+    return this._config.historyRetention;
+  }
+
+  // The SQLite database file, only used with the sqlite db type
+  get dbFile(): string {
+    return path.resolve(this._config.dbFile ?? `${this.dbSchema}.sqlite`);
+  }
+
   get workers(): number | undefined {
     return this._config.workers;
   }
@@ -273,6 +332,10 @@ export class NodeConfig<C extends IConfig = IConfig> implements IConfig {
     return !!this._config.scaleBatchSize;
   }
 
+  get targetThroughput(): number | undefined {
+    return this._config.targetThroughput;
+  }
+
   get postgresCACert(): string | undefined {
     if (!this._config.pgCa) {
       return undefined;
@@ -30,9 +30,13 @@ const DEFAULT_DB_OPTION: DbOption = {
 const CONNECTION_SSL_ERROR_REGEX = 'not support SSL';
 
 async function establishConnectionSequelize(option: SequelizeOption, numRetries: number): Promise<Sequelize> {
-  const uri = `postgresql://${option.username}:${option.password}@${option.host}:${option.port}/${option.database}`;
-
-  const sequelize = new Sequelize(uri, option);
+  const sequelize =
+    option.dialect === 'sqlite'
+      ? new Sequelize(option)
+      : new Sequelize(
+          `postgresql://${option.username}:${option.password}@${option.host}:${option.port}/${option.database}`,
+          option
+        );
   try {
     await sequelize.authenticate();
   } catch (error: any) {
@@ -58,9 +62,33 @@ const sequelizeFactory = (option: SequelizeOption) => async () => {
   return sequelize;
 };
 
+// sqlite3 is an optional dependency, it is loaded here so that a missing install has a clear error
+function loadSqlite(): object {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('sqlite3');
+  } catch (e: any) {
+    if (e.code === 'MODULE_NOT_FOUND') {
+      throw new Error('The sqlite3 package is required to use --db-type=sqlite, install it with `npm install sqlite3`');
+    }
+    throw e;
+  }
+}
+
 const buildSequelizeOptions = (nodeConfig: NodeConfig, option: DbOption): SequelizeOption => {
   const logger = getLogger('SQL');
 
+  if (nodeConfig.dbType === 'sqlite') {
+    return {
+      dialect: 'sqlite',
+      dialectModule: loadSqlite(),
+      storage: nodeConfig.dbFile,
+      logging: (sql: string, timing?: number) => {
+        logger.debug(sql);
+      },
+    };
+  }
+
   return {
     ...option,
     dialect: 'postgres',
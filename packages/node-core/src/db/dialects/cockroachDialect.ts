@@ -0,0 +1,33 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {SUPPORT_DB} from '@subql/common';
+import {GraphQLEnumsType} from '@subql/utils';
+import {Sequelize} from '@subql/x-sequelize';
+import {getLogger} from '../../logger';
+import {PostgresDialect} from './postgresDialect';
+
+const logger = getLogger('CockroachDialect');
+
+export class CockroachDialect extends PostgresDialect {
+  readonly dbType: SUPPORT_DB = SUPPORT_DB.cockRoach;
+  readonly supportsHistorical = false;
+  readonly supportsTriggers = false;
+  readonly supportsDeferrableConstraints = false;
+  // Sequelize generates `USING hash` before the column list which is rejected by cockroach
+  readonly supportsHashIndexes = false;
+  readonly supportsFullTextSearch = false;
+  // Dropping the expression of generated columns uses different syntax
+  readonly supportsComputedColumns = false;
+  // Comments on views are not supported
+  readonly supportsInterfaceViews = false;
+
+  // Comment on enum has a syntax error with cockroach db, disable it for now. Waiting to be fixed.
+  // See https://github.com/cockroachdb/cockroach/issues/44135
+  commentEnumQuery(sequelize: Sequelize, type: string, e: GraphQLEnumsType): string | undefined {
+    logger.warn(
+      `Comment on enum ${e.description} is not supported with ${this.dbType}, enum name may display incorrectly in query service`
+    );
+    return undefined;
+  }
+}
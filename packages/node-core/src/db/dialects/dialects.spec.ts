@@ -0,0 +1,59 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {Sequelize} from '@subql/x-sequelize';
+import {cockroachDialect, getStorageDialect, postgresDialect, sqliteDialect} from '.';
+
+function mockSequelize(dialect: string, rows: unknown[]): Sequelize {
+  return {
+    getDialect: () => dialect,
+    query: jest.fn(() => Promise.resolve(rows)),
+  } as unknown as Sequelize;
+}
+
+describe('Storage dialects', () => {
+  it('selects the dialect of the connected database', async () => {
+    await expect(getStorageDialect(mockSequelize('sqlite', []))).resolves.toBe(sqliteDialect);
+    await expect(
+      getStorageDialect(mockSequelize('postgres', [[{version: 'PostgreSQL 14.5 on x86_64-pc-linux-gnu'}]]))
+    ).resolves.toBe(postgresDialect);
+    await expect(
+      getStorageDialect(mockSequelize('postgres', [[{version: 'CockroachDB CCL v22.2.0 (x86_64-pc-linux-gnu)'}]]))
+    ).resolves.toBe(cockroachDialect);
+  });
+
+  it('does not support historical state with sqlite or cockroach', () => {
+    expect(postgresDialect.supportsHistorical).toBeTruthy();
+    expect(cockroachDialect.supportsHistorical).toBeFalsy();
+    expect(sqliteDialect.supportsHistorical).toBeFalsy();
+    expect(sqliteDialect.supportsProofOfIndex).toBeFalsy();
+  });
+
+  it('uses table name prefixes as schemas with sqlite', async () => {
+    const sequelize = mockSequelize('sqlite', [
+      {name: 'my-project._metadata'},
+      {name: 'my-project.accounts'},
+      {name: 'other-project.accounts'},
+      {name: 'SequelizeMeta'},
+    ]);
+
+    await expect(sqliteDialect.getSchemas(sequelize)).resolves.toEqual(['my-project', 'other-project']);
+    await expect(sqliteDialect.getTableNames(sequelize, 'my-project')).resolves.toEqual(['_metadata', 'accounts']);
+  });
+
+  it('gets indexed fields with sqlite', async () => {
+    const sequelize = mockSequelize('sqlite', [
+      {field_name: 'account_id', is_unique: 0},
+      {field_name: 'hash', is_unique: 1},
+    ]);
+
+    await expect(sqliteDialect.getIndexedFields(sequelize, 'my-project', 'Transfer', 'transfers')).resolves.toEqual([
+      {entityName: 'Transfer', fieldName: 'account_id', isUnique: false, type: 'btree'},
+      {entityName: 'Transfer', fieldName: 'hash', isUnique: true, type: 'btree'},
+    ]);
+    expect(sequelize.query).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({replacements: ['my-project.transfers']})
+    );
+  });
+});
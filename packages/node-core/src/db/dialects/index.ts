@@ -0,0 +1,35 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {getDbType, SUPPORT_DB} from '@subql/common';
+import {Sequelize} from '@subql/x-sequelize';
+import {CockroachDialect} from './cockroachDialect';
+import {PostgresDialect} from './postgresDialect';
+import {SqliteDialect} from './sqliteDialect';
+import {StorageDialect} from './storageDialect';
+
+export * from './storageDialect';
+export * from './postgresDialect';
+export * from './cockroachDialect';
+export * from './sqliteDialect';
+
+export const postgresDialect = new PostgresDialect();
+export const cockroachDialect = new CockroachDialect();
+export const sqliteDialect = new SqliteDialect();
+
+export async function getStorageDialect(sequelize: Sequelize): Promise<StorageDialect> {
+  // SQLite doesn't support `select version()`
+  if (sequelize.getDialect() === 'sqlite') {
+    return sqliteDialect;
+  }
+
+  const dbType = await getDbType(sequelize);
+  switch (dbType) {
+    case SUPPORT_DB.cockRoach:
+      return cockroachDialect;
+    case SUPPORT_DB.postgres:
+      return postgresDialect;
+    default:
+      throw new Error(`Database type ${dbType} is not supported`);
+  }
+}
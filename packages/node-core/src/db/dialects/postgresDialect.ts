@@ -0,0 +1,163 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {SUPPORT_DB} from '@subql/common';
+import {GraphQLEnumsType} from '@subql/utils';
+import {QueryTypes, Sequelize, Transaction} from '@subql/x-sequelize';
+import {camelCaseObjectKey} from '../../utils/object';
+import {getEnumDeprecated} from '../../utils/project';
+import {createUniqueIndexQuery, enumNameToHash, getExistedIndexesQuery} from '../../utils/sync-helper';
+import {EnumColumn, EnumType, EnumValuePosition, IndexField, StorageDialect} from './storageDialect';
+
+export class PostgresDialect extends StorageDialect {
+  readonly dbType: SUPPORT_DB = SUPPORT_DB.postgres;
+  // The default collation depends on the locale of the db, "C" compares by code point
+  readonly textCollation = 'C';
+
+  async getSchemas(sequelize: Sequelize): Promise<string[]> {
+    const result = await sequelize.query<{schema_name: string}>(`SELECT schema_name FROM information_schema.schemata`, {
+      type: QueryTypes.SELECT,
+    });
+    return result.map((x) => x.schema_name);
+  }
+
+  async createSchema(sequelize: Sequelize, schema: string): Promise<void> {
+    await sequelize.createSchema(`"${schema}"`, {});
+  }
+
+  async dropSchema(sequelize: Sequelize, schema: string): Promise<void> {
+    await sequelize.dropSchema(`"${schema}"`, {});
+  }
+
+  async getTableNames(sequelize: Sequelize, schema: string): Promise<string[]> {
+    const result = await sequelize.query<{table_name: string}>(
+      `SELECT table_name FROM information_schema.tables where table_schema= ?`,
+      {type: QueryTypes.SELECT, replacements: [schema]}
+    );
+    return result.map((x) => x.table_name);
+  }
+
+  async getExistingIndexes(sequelize: Sequelize, schema: string): Promise<string[]> {
+    const [indexesResult] = await sequelize.query(getExistedIndexesQuery(schema));
+    return indexesResult.map((i) => (i as any).indexname);
+  }
+
+  async getInterfaceViews(sequelize: Sequelize, schema: string): Promise<string[]> {
+    const result = await sequelize.query<{view_name: string}>(
+      `SELECT c.relname as view_name FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = ? AND c.relkind = 'v' AND obj_description(c.oid, 'pg_class') LIKE '@interface %'`,
+      {type: QueryTypes.SELECT, replacements: [schema]}
+    );
+    return result.map((x) => x.view_name);
+  }
+
+  async getIndexedFields(sequelize: Sequelize, schema: string, entity: string, table: string): Promise<IndexField[]> {
+    const rows = await sequelize.query(
+      `select
+    '${entity}' as entity_name,
+    a.attname as field_name,
+    idx.indisunique as is_unique,
+    am.amname as type
+from
+    pg_index idx
+    JOIN pg_class cls ON cls.oid=idx.indexrelid
+    JOIN pg_class tab ON tab.oid=idx.indrelid
+    JOIN pg_am am ON am.oid=cls.relam,
+    pg_namespace n,
+    pg_attribute a
+where
+  n.nspname = '${schema}'
+  and tab.relname = '${table}'
+  and a.attrelid = tab.oid
+  and a.attnum = ANY(idx.indkey)
+  and not idx.indisprimary
+group by
+    n.nspname,
+    a.attname,
+    tab.relname,
+    idx.indisunique,
+    am.amname`,
+      {
+        type: QueryTypes.SELECT,
+      }
+    );
+    return rows.map((result) => camelCaseObjectKey(result)) as IndexField[];
+  }
+
+  async getEnum(sequelize: Sequelize, schema: string, e: GraphQLEnumsType): Promise<EnumType> {
+    // We shouldn't set the typename to e.name because it could potentially create SQL injection,
+    // using a replacement at the type name location doesn't work.
+    const enumTypeName = enumNameToHash(e.name);
+    let type = `"${schema}"."${enumTypeName}"`;
+    let [results] = await sequelize.query(
+      `SELECT pg_enum.enumlabel as enum_value
+         FROM pg_type t JOIN pg_enum ON pg_enum.enumtypid = t.oid JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+         WHERE t.typname = ? AND n.nspname = ? order by enumsortorder;`,
+      {replacements: [enumTypeName, schema]}
+    );
+
+    const enumTypeNameDeprecated = `${schema}_enum_${enumNameToHash(e.name)}`;
+    const resultsDeprecated = await getEnumDeprecated(sequelize, enumTypeNameDeprecated);
+    if (resultsDeprecated.length !== 0) {
+      results = resultsDeprecated;
+      type = `"${enumTypeNameDeprecated}"`;
+    }
+
+    return {type, values: results.map((v: any) => v.enum_value)};
+  }
+
+  createEnumQuery(sequelize: Sequelize, type: string, values: string[]): string {
+    return `CREATE TYPE ${type} as ENUM (${values.map((v) => sequelize.escape(v)).join(',')});`;
+  }
+
+  addEnumValueQuery(sequelize: Sequelize, type: string, value: string, position: EnumValuePosition): string {
+    const [keyword, neighbour] =
+      position.before !== undefined ? ['BEFORE', position.before] : ['AFTER', position.after];
+    return `ALTER TYPE ${type} ADD VALUE ${sequelize.escape(value)} ${keyword} ${sequelize.escape(neighbour)};`;
+  }
+
+  renameEnumValueQuery(sequelize: Sequelize, type: string, from: string, to: string): string {
+    return `ALTER TYPE ${type} RENAME VALUE ${sequelize.escape(from)} TO ${sequelize.escape(to)};`;
+  }
+
+  recreateEnumQueries(sequelize: Sequelize, type: string, values: string[], columns: EnumColumn[]): string[] {
+    // The type may be schema qualified, renaming only accepts the type name
+    const name = type.substring(type.lastIndexOf('"', type.length - 2) + 1, type.length - 1);
+    const previousType = `${type.substring(0, type.length - 1)}_previous"`;
+    return [
+      `ALTER TYPE ${type} RENAME TO "${name}_previous";`,
+      this.createEnumQuery(sequelize, type, values),
+      ...columns.map(({column, isArray, table}) =>
+        isArray
+          ? `ALTER TABLE ${table} ALTER COLUMN "${column}" TYPE ${type}[] USING "${column}"::text[]::${type}[];`
+          : `ALTER TABLE ${table} ALTER COLUMN "${column}" TYPE ${type} USING "${column}"::text::${type};`
+      ),
+      `DROP TYPE ${previousType};`,
+    ];
+  }
+
+  // Ref: https://www.graphile.org/postgraphile/enums/
+  // Example query for enum name: COMMENT ON TYPE "polkadot-starter_enum_a40fe73329" IS E'@enum\n@enumName TestEnum'
+  // It is difficult for sequelize use replacement, instead we use escape to avoid injection
+  commentEnumQuery(sequelize: Sequelize, type: string, e: GraphQLEnumsType): string | undefined {
+    const comment = sequelize.escape(`@enum\\n@enumName ${e.name}${e.description ? `\\n ${e.description}` : ''}`);
+    return `COMMENT ON TYPE ${type} IS E${comment}`;
+  }
+
+  uniqueIndexQuery(schema: string, table: string, field: string): string {
+    return createUniqueIndexQuery(schema, table, field);
+  }
+
+  async incrementJsonCount(
+    sequelize: Sequelize,
+    table: string,
+    key: string,
+    amount: number,
+    tx?: Transaction
+  ): Promise<void> {
+    await sequelize.query(
+      `UPDATE ${table} SET value = (COALESCE(value->0):: int + ${amount})::text::jsonb WHERE key ='${key}'`,
+      tx && {transaction: tx}
+    );
+  }
+}
@@ -0,0 +1,131 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {SUPPORT_DB} from '@subql/common';
+import {QueryTypes, Sequelize, Transaction, Utils, WhereOptions} from '@subql/x-sequelize';
+import {getUniqConstraint, underscored} from '../../utils/sync-helper';
+import {IndexField, StorageDialect} from './storageDialect';
+
+/**
+ * SQLite doesn't have schemas, sequelize instead prefixes table names with the schema, e.g. "my-project.accounts".
+ * Enums don't have their own type and are stored as text.
+ * LIKE is case insensitive and has no escape character by default so GLOB is used to match patterns instead.
+ * */
+export class SqliteDialect extends StorageDialect {
+  readonly dbType: SUPPORT_DB = SUPPORT_DB.sqlite;
+  readonly supportsHistorical = false;
+  readonly supportsTriggers = false;
+  readonly supportsComments = false;
+  readonly supportsDeferrableConstraints = false;
+  readonly supportsProofOfIndex = false;
+  // Altering columns requires rebuilding the table
+  readonly supportsAlterColumn = false;
+  readonly supportsFullTextSearch = false;
+  readonly supportsComputedColumns = false;
+  readonly supportsInterfaceViews = false;
+
+  // ILIKE is not supported, case insensitive matching is done by lowering both sides which only folds ASCII characters
+  likeWhere(field: string, column: string, pattern: string, caseInsensitive: boolean): WhereOptions {
+    const glob = likeToGlob(pattern);
+    if (caseInsensitive) {
+      return new Utils.Where(new Utils.Fn('lower', [new Utils.Col(column)]), 'GLOB', new Utils.Fn('lower', [glob]));
+    }
+    return new Utils.Where(new Utils.Col(column), 'GLOB', glob);
+  }
+
+  async getSchemas(sequelize: Sequelize): Promise<string[]> {
+    const tables = await this.getAllTableNames(sequelize);
+    return [
+      ...new Set(tables.filter((name) => name.includes('.')).map((name) => name.substring(0, name.lastIndexOf('.')))),
+    ];
+  }
+
+  // Schemas are only a table name prefix so there is nothing to create
+  async createSchema(sequelize: Sequelize, schema: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async dropSchema(sequelize: Sequelize, schema: string): Promise<void> {
+    const tables = await this.getTableNames(sequelize, schema);
+    for (const table of tables) {
+      await sequelize.query(`DROP TABLE IF EXISTS "${schema}.${table}"`);
+    }
+  }
+
+  async getTableNames(sequelize: Sequelize, schema: string): Promise<string[]> {
+    const tables = await this.getAllTableNames(sequelize);
+    return tables.filter((name) => name.startsWith(`${schema}.`)).map((name) => name.substring(schema.length + 1));
+  }
+
+  async getExistingIndexes(sequelize: Sequelize, schema: string): Promise<string[]> {
+    const result = await sequelize.query<{name: string; tbl_name: string}>(
+      `SELECT name, tbl_name FROM sqlite_master WHERE type = 'index'`,
+      {type: QueryTypes.SELECT}
+    );
+    return result.filter((i) => i.tbl_name.startsWith(`${schema}.`)).map((i) => i.name);
+  }
+
+  async getIndexedFields(sequelize: Sequelize, schema: string, entity: string, table: string): Promise<IndexField[]> {
+    const rows = await sequelize.query<{field_name: string; is_unique: number}>(
+      `SELECT DISTINCT info.name as field_name, list."unique" as is_unique
+       FROM pragma_index_list(?) list JOIN pragma_index_info(list.name) info
+       WHERE list.origin != 'pk'`,
+      {type: QueryTypes.SELECT, replacements: [`${schema}.${table}`]}
+    );
+    // SQLite only has btree indexes
+    return rows.map((row) => ({
+      entityName: entity,
+      fieldName: row.field_name,
+      isUnique: !!row.is_unique,
+      type: 'btree',
+    }));
+  }
+
+  uniqueIndexQuery(schema: string, table: string, field: string): string {
+    return `create unique index if not exists "${getUniqConstraint(
+      table,
+      field
+    )}" on "${schema}.${table}" (${underscored(field)})`;
+  }
+
+  async incrementJsonCount(
+    sequelize: Sequelize,
+    table: string,
+    key: string,
+    amount: number,
+    tx?: Transaction
+  ): Promise<void> {
+    await sequelize.query(`UPDATE ${table} SET value = COALESCE(CAST(value AS INTEGER), 0) + ${amount} WHERE key = ?`, {
+      replacements: [key],
+      transaction: tx,
+    });
+  }
+
+  private async getAllTableNames(sequelize: Sequelize): Promise<string[]> {
+    const result = await sequelize.query<{name: string}>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name != 'sqlite_sequence'`,
+      {type: QueryTypes.SELECT}
+    );
+    return result.map((x) => x.name);
+  }
+}
+
+const globLiteral = (char: string) => ('*?['.includes(char) ? `[${char}]` : char);
+
+// GLOB uses `*` and `?` as wildcards and brackets to match them literally
+function likeToGlob(pattern: string): string {
+  let glob = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      glob += globLiteral(pattern[++i]);
+    } else if (char === '%') {
+      glob += '*';
+    } else if (char === '_') {
+      glob += '?';
+    } else {
+      glob += globLiteral(char);
+    }
+  }
+  return glob;
+}
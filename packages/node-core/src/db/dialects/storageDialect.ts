@@ -0,0 +1,167 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {SUPPORT_DB} from '@subql/common';
+import {GraphQLEnumsType} from '@subql/utils';
+import {
+  CreationAttributes,
+  Model,
+  ModelStatic,
+  Op,
+  Sequelize,
+  TableName,
+  Transaction,
+  Utils,
+  WhereOptions,
+} from '@subql/x-sequelize';
+
+export interface EnumType {
+  type: string;
+  values: string[];
+}
+
+// Where to add a value relative to an existing value
+export type EnumValuePosition = {before: string; after?: undefined} | {after: string; before?: undefined};
+
+export interface EnumColumn {
+  // The quoted table name
+  table: string;
+  column: string;
+  isArray: boolean;
+}
+
+export interface IndexField {
+  entityName: string;
+  fieldName: string;
+  isUnique: boolean;
+  type: string;
+}
+
+/**
+ * Database specific behaviour used when syncing the schema and flushing the store cache.
+ * Dialects are stateless so that a single instance can be shared.
+ * */
+export abstract class StorageDialect {
+  abstract readonly dbType: SUPPORT_DB;
+
+  // Entities are stored with a block range so that state at any height can be queried and rewound
+  readonly supportsHistorical: boolean = true;
+  // Triggers are used for subscriptions and hot schema reload in the query service
+  readonly supportsTriggers: boolean = true;
+  readonly supportsComments: boolean = true;
+  // Without deferrable constraints, entities with associations need to be flushed in operation order
+  readonly supportsDeferrableConstraints: boolean = true;
+  readonly supportsHashIndexes: boolean = true;
+  readonly supportsProofOfIndex: boolean = true;
+  // Existing columns can change their type or nullability
+  readonly supportsAlterColumn: boolean = true;
+  // Full text search uses a generated tsvector column with a GIN index
+  readonly supportsFullTextSearch: boolean = true;
+  // Computed fields are stored as generated columns
+  readonly supportsComputedColumns: boolean = true;
+  // Interfaces are queried through views that union the tables of the implementing entities
+  readonly supportsInterfaceViews: boolean = true;
+
+  // The collation used to compare text by code point, undefined when it is the default collation
+  readonly textCollation?: string;
+
+  // Used to order and compare text columns so that the db matches `compareValues`
+  textColumn(column: string): Utils.Literal {
+    return new Utils.Literal(this.textCollation ? `"${column}" COLLATE "${this.textCollation}"` : `"${column}"`);
+  }
+
+  get idColumn(): Utils.Literal {
+    return this.textColumn('id');
+  }
+
+  // Matches a LIKE pattern where `\` escapes wildcards, this should give the same result as `matchFieldsExpression`
+  likeWhere(field: string, column: string, pattern: string, caseInsensitive: boolean): WhereOptions {
+    return {[field]: {[caseInsensitive ? Op.iLike : Op.like]: pattern}};
+  }
+
+  abstract getSchemas(sequelize: Sequelize): Promise<string[]>;
+
+  abstract createSchema(sequelize: Sequelize, schema: string): Promise<void>;
+
+  // Drops the schema and all of its tables if it exists
+  abstract dropSchema(sequelize: Sequelize, schema: string): Promise<void>;
+
+  abstract getTableNames(sequelize: Sequelize, schema: string): Promise<string[]>;
+
+  abstract getExistingIndexes(sequelize: Sequelize, schema: string): Promise<string[]>;
+
+  // The views created for interfaces, they depend on the entity tables
+  async getInterfaceViews(sequelize: Sequelize, schema: string): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
+  abstract getIndexedFields(sequelize: Sequelize, schema: string, entity: string, table: string): Promise<IndexField[]>;
+
+  /**
+   * Gets the type used to store an enum and its current values, the values are empty if the type doesn't exist yet.
+   * @returns undefined if the enum is stored as text
+   * */
+  async getEnum(sequelize: Sequelize, schema: string, e: GraphQLEnumsType): Promise<EnumType | undefined> {
+    return Promise.resolve(undefined);
+  }
+
+  createEnumQuery(sequelize: Sequelize, type: string, values: string[]): string {
+    throw new Error(`Enum types are not supported with ${this.dbType}`);
+  }
+
+  addEnumValueQuery(sequelize: Sequelize, type: string, value: string, position: EnumValuePosition): string {
+    throw new Error(`Enum types are not supported with ${this.dbType}`);
+  }
+
+  renameEnumValueQuery(sequelize: Sequelize, type: string, from: string, to: string): string {
+    throw new Error(`Enum types are not supported with ${this.dbType}`);
+  }
+
+  // Replaces an enum type with one with different values, columns using the enum are converted to the new type
+  recreateEnumQueries(sequelize: Sequelize, type: string, values: string[], columns: EnumColumn[]): string[] {
+    throw new Error(`Enum types are not supported with ${this.dbType}`);
+  }
+
+  commentEnumQuery(sequelize: Sequelize, type: string, e: GraphQLEnumsType): string | undefined {
+    return undefined;
+  }
+
+  abstract uniqueIndexQuery(schema: string, table: string, field: string): string;
+
+  abstract incrementJsonCount(
+    sequelize: Sequelize,
+    table: string,
+    key: string,
+    amount: number,
+    tx?: Transaction
+  ): Promise<void>;
+
+  changeColumnNullQuery(table: string, column: string, allowNull: boolean): string {
+    return `ALTER TABLE ${table} ALTER COLUMN "${column}" ${allowNull ? 'DROP' : 'SET'} NOT NULL;`;
+  }
+
+  dropColumnQuery(table: string, column: string): string {
+    return `ALTER TABLE ${table} DROP COLUMN "${column}";`;
+  }
+
+  changeColumnTypeQuery(table: string, column: string, type: string): string {
+    return `ALTER TABLE ${table} ALTER COLUMN "${column}" TYPE ${type} USING "${column}"::${type};`;
+  }
+
+  // The query interface types include quoteTable but it is only implemented by the query generator
+  quoteTable(sequelize: Sequelize, table: TableName): string {
+    return (sequelize.getQueryInterface().queryGenerator as {quoteTable(table: TableName): string}).quoteTable(table);
+  }
+
+  async bulkUpsert<T extends {}>(
+    model: ModelStatic<Model<T, T>>,
+    records: CreationAttributes<Model<T, T>>[],
+    tx: Transaction
+  ): Promise<void> {
+    if (!records.length) return;
+    await model.bulkCreate(records, {
+      transaction: tx,
+      updateOnDuplicate: Object.keys(records[0]) as unknown as (keyof T)[],
+    });
+  }
+}
@@ -2,3 +2,5 @@
 // SPDX-License-Identifier: GPL-3.0
 
 export * from './db.module';
+export * from './dialects';
+export * from './migrations';
@@ -0,0 +1,460 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {DeprecatedEnumValue, EnumHistory, GraphQLEnumsType} from '@subql/utils';
+import {
+  ColumnDescription,
+  ColumnsDescription,
+  IndexesOptions,
+  ModelAttributeColumnOptions,
+  ModelStatic,
+  Sequelize,
+  TableName,
+} from '@subql/x-sequelize';
+import {isEqual} from 'lodash';
+import {FULL_TEXT_COLUMN, isComputedComment} from '../../utils/sync-helper';
+import {EnumColumn, EnumType, EnumValuePosition, StorageDialect} from '../dialects';
+
+// Safe migrations only add to the schema, destructive migrations can lose data or fail with existing data
+export type MigrationRisk = 'safe' | 'destructive';
+
+export interface MigrationStep {
+  description: string;
+  risk: MigrationRisk;
+  queries: string[];
+  // Steps are applied in a transaction unless they need to run before or after it, these run each query on its own
+  phase?: MigrationPhase;
+}
+
+export type MigrationPhase = 'before' | 'after';
+
+const PHASE_ORDER: Record<MigrationPhase | 'transaction', number> = {before: 0, transaction: 1, after: 2};
+
+// The enum type in the db along with the enum from the project schema
+export interface EnumState extends EnumType {
+  enum: GraphQLEnumsType;
+}
+
+// The parts of the sequelize query generator that are used, its not included in the sequelize types
+interface QueryGenerator {
+  attributesToSQL(
+    attributes: Record<string, ModelAttributeColumnOptions>,
+    options: {table: TableName; context: 'createTable'}
+  ): Record<string, string>;
+  createTableQuery(tableName: TableName, attributes: Record<string, string>, options: object): string;
+  addColumnQuery(tableName: TableName, key: string, attribute: ModelAttributeColumnOptions): string;
+  addIndexQuery(tableName: TableName, options: IndexesOptions, rawTablename: string): string;
+}
+
+type Attribute = ModelAttributeColumnOptions & {field?: string};
+
+// Column types that are the same but are named differently when defining a model and describing a table
+const columnTypeAliases: Record<string, string> = {
+  text: 'text',
+  integer: 'integer',
+  numeric: 'numeric',
+  boolean: 'boolean',
+  bytea: 'bytea',
+  blob: 'bytea',
+  jsonb: 'jsonb',
+  uuid: 'uuid',
+  int8range: 'int8range',
+  float: 'double precision',
+  'double precision': 'double precision',
+  timestamp: 'timestamp without time zone',
+  'timestamp without time zone': 'timestamp without time zone',
+  'timestamp with time zone': 'timestamp with time zone',
+  // Enums are user defined types, enum arrays are described as an array
+  'user-defined': 'user-defined',
+  array: 'array',
+};
+
+function attributeTypeSql(attribute: Attribute): string {
+  return typeof attribute.type === 'string' ? attribute.type : (attribute.type as {toSql(): string}).toSql();
+}
+
+function isEnumAttribute(attribute: Attribute): boolean {
+  return typeof attribute.type === 'string' && attribute.type.startsWith('"');
+}
+
+// Returns undefined for unknown types so that they are never considered to be changed
+function normalizeColumnType(type: string): string | undefined {
+  return columnTypeAliases[type.toLowerCase()];
+}
+
+function targetColumnType(attribute: Attribute): string | undefined {
+  if (isEnumAttribute(attribute)) {
+    return attributeTypeSql(attribute).endsWith('[]') ? 'array' : 'user-defined';
+  }
+  return normalizeColumnType(attributeTypeSql(attribute));
+}
+
+/**
+ * Finds the values that need to be added to an enum, values can only be added if the existing values keep the same order
+ * @returns the values to add in order, or undefined if values have been removed or reordered
+ * */
+export function diffEnumValues(
+  current: string[],
+  target: string[]
+): {value: string; position: EnumValuePosition}[] | undefined {
+  let matched = 0;
+  for (const value of target) {
+    if (value === current[matched]) {
+      matched++;
+    }
+  }
+  if (matched !== current.length) {
+    return undefined;
+  }
+
+  return target
+    .map((value, i) => ({value, i}))
+    .filter(({value}) => !current.includes(value))
+    .map(({i, value}) => ({
+      value,
+      // Values are added in order so the previous value always exists
+      position: i === 0 ? {before: current[0]} : {after: target[i - 1]},
+    }));
+}
+
+/**
+ * Adds the values that are renamed or removed by migrating the enums to the history.
+ * Renamed values are resolved to a current value so aliases keep working when a value is renamed more than once.
+ * Values that are added back to an enum are no longer deprecated.
+ * */
+export function updateEnumHistory(history: EnumHistory, enums: EnumState[]): EnumHistory {
+  const updated = {...history};
+  for (const {enum: e, values} of enums) {
+    const renames = Object.entries(e.renamedFrom ?? {});
+    const deprecated = new Map<string, DeprecatedEnumValue>(
+      [
+        ...(history[e.name] ?? []),
+        ...renames.map(([value, previous]) => ({value: previous, renamedTo: value})),
+        ...values
+          .filter((value) => !e.values.includes(value) && !renames.some(([, previous]) => previous === value))
+          .map((value) => ({value})),
+      ].map((deprecatedValue) => [deprecatedValue.value, deprecatedValue])
+    );
+
+    const resolveRename = (value: string): string | undefined => {
+      const seen = new Set<string>();
+      let target: string | undefined = value;
+      while (target !== undefined && !e.values.includes(target) && !seen.has(target)) {
+        seen.add(target);
+        target = deprecated.get(target)?.renamedTo;
+      }
+      return target !== undefined && e.values.includes(target) ? target : undefined;
+    };
+
+    const enumHistory = [...deprecated.values()]
+      .filter(({value}) => !e.values.includes(value))
+      .map(({renamedTo, value}) => {
+        const resolved = renamedTo === undefined ? undefined : resolveRename(renamedTo);
+        return resolved === undefined ? {value} : {value, renamedTo: resolved};
+      });
+    if (enumHistory.length) {
+      updated[e.name] = enumHistory;
+    } else {
+      delete updated[e.name];
+    }
+  }
+  return updated;
+}
+
+export class SchemaMigration {
+  constructor(readonly steps: MigrationStep[]) {}
+
+  get destructiveSteps(): MigrationStep[] {
+    return this.steps.filter((step) => step.risk === 'destructive');
+  }
+
+  // The steps in the order they are applied
+  private get orderedSteps(): MigrationStep[] {
+    return [...this.steps].sort(
+      (a, b) => PHASE_ORDER[a.phase ?? 'transaction'] - PHASE_ORDER[b.phase ?? 'transaction']
+    );
+  }
+
+  // A readable plan of the steps in the order they are applied along with the queries for each step
+  describe(): string {
+    if (!this.steps.length) {
+      return 'The database schema is up to date, there are no migrations to apply';
+    }
+
+    const summary = `Schema migration plan: ${this.steps.length} step(s), ${this.destructiveSteps.length} destructive`;
+    const steps = this.orderedSteps.map(
+      (step, i) =>
+        `${i + 1}. [${step.risk.toUpperCase()}]${step.phase ? ` (${step.phase} transaction)` : ''} ${
+          step.description
+        }\n${step.queries.map((query) => `   ${query}`).join('\n')}`
+    );
+    return [summary, ...steps].join('\n\n');
+  }
+
+  /**
+   * Enum values can't be added in a transaction before Postgres 12 and can't be used in the transaction that adds them after that.
+   * So enum values are renamed and added before the transaction, if the transaction fails they are already in the db and aren't added again.
+   * */
+  async apply(sequelize: Sequelize): Promise<void> {
+    if (!this.steps.length) return;
+
+    const queries = (phase?: MigrationPhase) =>
+      this.steps.filter((step) => step.phase === phase).flatMap((step) => step.queries);
+
+    for (const query of queries('before')) {
+      await sequelize.query(query);
+    }
+
+    const transactionQueries = queries();
+    if (transactionQueries.length) {
+      await sequelize.transaction(async (transaction) => {
+        for (const query of transactionQueries) {
+          await sequelize.query(query, {transaction});
+        }
+      });
+    }
+
+    for (const query of queries('after')) {
+      await sequelize.query(query);
+    }
+  }
+}
+
+function enumColumns(
+  sequelize: Sequelize,
+  dialect: StorageDialect,
+  type: string,
+  models: ModelStatic<any>[],
+  liveColumns: Record<string, ColumnsDescription>
+): EnumColumn[] {
+  const columns: EnumColumn[] = [];
+  for (const model of models) {
+    for (const [name, attribute] of Object.entries<Attribute>(model.getAttributes())) {
+      const column = attribute.field ?? name;
+      const typeSql = isEnumAttribute(attribute) ? attributeTypeSql(attribute) : undefined;
+      if ((typeSql === type || typeSql === `${type}[]`) && liveColumns[model.tableName]?.[column]) {
+        columns.push({table: dialect.quoteTable(sequelize, model.getTableName()), column, isArray: typeSql !== type});
+      }
+    }
+  }
+  return columns;
+}
+
+function diffEnums(
+  sequelize: Sequelize,
+  dialect: StorageDialect,
+  enums: EnumState[],
+  models: ModelStatic<any>[],
+  liveColumns: Record<string, ColumnsDescription>
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  for (const {enum: e, type, values} of enums) {
+    if (!values.length) {
+      steps.push({
+        description: `Create enum ${e.name}`,
+        risk: 'safe',
+        queries: [dialect.createEnumQuery(sequelize, type, e.values)],
+      });
+      continue;
+    }
+
+    // Renames keep the existing data so they are applied before working out which values are added or removed
+    const renames = Object.entries(e.renamedFrom ?? {}).filter(
+      ([value, previous]) => values.includes(previous) && !values.includes(value)
+    );
+    if (renames.length) {
+      steps.push({
+        description: `Rename values ${renames
+          .map(([value, previous]) => `${previous} to ${value}`)
+          .join(', ')} in enum ${e.name}`,
+        risk: 'safe',
+        queries: renames.map(([value, previous]) => dialect.renameEnumValueQuery(sequelize, type, previous, value)),
+        // Values are added relative to the renamed values so this is applied with them
+        phase: 'before',
+      });
+    }
+    const current = values.map((value) => renames.find(([, previous]) => previous === value)?.[0] ?? value);
+    if (isEqual(current, e.values)) continue;
+
+    const additions = diffEnumValues(current, e.values);
+    if (additions) {
+      steps.push({
+        description: `Add values ${additions.map(({value}) => value).join(', ')} to enum ${e.name}`,
+        risk: 'safe',
+        queries: additions.map(({position, value}) => dialect.addEnumValueQuery(sequelize, type, value, position)),
+        phase: 'before',
+      });
+    } else {
+      steps.push({
+        description: `Change enum ${e.name} values from [${current.join(', ')}] to [${e.values.join(', ')}]`,
+        risk: 'destructive',
+        queries: dialect.recreateEnumQueries(
+          sequelize,
+          type,
+          e.values,
+          enumColumns(sequelize, dialect, type, models, liveColumns)
+        ),
+      });
+    }
+  }
+  return steps;
+}
+
+function diffColumn(
+  dialect: StorageDialect,
+  model: ModelStatic<any>,
+  table: string,
+  column: string,
+  attribute: Attribute,
+  liveColumn: ColumnDescription
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+
+  const liveType = normalizeColumnType(liveColumn.type);
+  const targetType = targetColumnType(attribute);
+  if (liveType && targetType && liveType !== targetType) {
+    const typeSql = attributeTypeSql(attribute);
+    steps.push({
+      description: `Change type of column ${column} on ${model.name} from ${liveColumn.type} to ${typeSql}`,
+      risk: 'destructive',
+      queries: [dialect.changeColumnTypeQuery(table, column, typeSql)],
+    });
+  }
+
+  if (liveColumn.primaryKey || attribute.primaryKey) return steps;
+
+  if (liveColumn.allowNull && attribute.allowNull === false) {
+    steps.push({
+      description: `Make column ${column} on ${model.name} non-nullable, this fails if there are null values`,
+      risk: 'destructive',
+      queries: [dialect.changeColumnNullQuery(table, column, false)],
+    });
+  } else if (!liveColumn.allowNull && attribute.allowNull !== false) {
+    steps.push({
+      description: `Make column ${column} on ${model.name} nullable`,
+      risk: 'safe',
+      queries: [dialect.changeColumnNullQuery(table, column, true)],
+    });
+  }
+  return steps;
+}
+
+function diffColumns(
+  dialect: StorageDialect,
+  queryGenerator: QueryGenerator,
+  model: ModelStatic<any>,
+  table: string,
+  live: ColumnsDescription
+): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  const columns = Object.entries<Attribute>(model.getAttributes()).map(([name, attribute]) => ({
+    column: attribute.field ?? name,
+    attribute,
+  }));
+
+  for (const {attribute, column} of columns) {
+    const liveColumn = live[column];
+    if (liveColumn) {
+      // Changes to existing columns are not migrated if the db doesn't support them
+      if (dialect.supportsAlterColumn) {
+        steps.push(...diffColumn(dialect, model, table, column, attribute, liveColumn));
+      }
+      continue;
+    }
+
+    const nullable = attribute.allowNull !== false;
+    steps.push({
+      description: nullable
+        ? `Add column ${column} to ${model.name}`
+        : `Add non-nullable column ${column} to ${model.name}, this fails if there are existing records`,
+      risk: nullable ? 'safe' : 'destructive',
+      queries: [queryGenerator.addColumnQuery(model.getTableName(), column, attribute)],
+    });
+  }
+
+  for (const [column, liveColumn] of Object.entries(live)) {
+    // The full text search column and generated columns are managed separately to the model attributes
+    if (column === FULL_TEXT_COLUMN || isComputedComment(liveColumn.comment)) continue;
+    if (!columns.find((c) => c.column === column)) {
+      steps.push({
+        description: `Remove column ${column} from ${model.name}`,
+        risk: 'destructive',
+        queries: [dialect.dropColumnQuery(table, column)],
+      });
+    }
+  }
+  return steps;
+}
+
+/**
+ * Compares the tables, columns, indexes and enums in the db with the models and enums of the project schema.
+ * Tables that no longer have a model are left as they are.
+ * */
+export async function diffSchema(
+  sequelize: Sequelize,
+  dialect: StorageDialect,
+  schema: string,
+  models: ModelStatic<any>[],
+  enums: EnumState[]
+): Promise<SchemaMigration> {
+  const queryInterface = sequelize.getQueryInterface();
+  const queryGenerator = queryInterface.queryGenerator as QueryGenerator;
+
+  const tables = await dialect.getTableNames(sequelize, schema);
+  const existingIndexes = await dialect.getExistingIndexes(sequelize, schema);
+
+  const liveColumns: Record<string, ColumnsDescription> = {};
+  for (const model of models) {
+    if (tables.includes(model.tableName)) {
+      liveColumns[model.tableName] = await queryInterface.describeTable({tableName: model.tableName, schema});
+    }
+  }
+
+  // Create tables that are referenced by foreign keys first
+  const sortedModels = ((sequelize.modelManager.getModelsTopoSortedByForeignKey() ?? []) as ModelStatic<any>[])
+    .reverse()
+    .filter((model) => models.includes(model));
+
+  const tableSteps: MigrationStep[] = [];
+  const columnSteps: MigrationStep[] = [];
+  const indexSteps: MigrationStep[] = [];
+  for (const model of sortedModels.length === models.length ? sortedModels : models) {
+    const tableName = model.getTableName();
+    const live = liveColumns[model.tableName];
+
+    if (live) {
+      columnSteps.push(...diffColumns(dialect, queryGenerator, model, dialect.quoteTable(sequelize, tableName), live));
+    } else {
+      tableSteps.push({
+        description: `Create table ${model.tableName} for ${model.name}`,
+        risk: 'safe',
+        queries: [
+          queryGenerator.createTableQuery(
+            tableName,
+            queryGenerator.attributesToSQL(model.getAttributes(), {table: tableName, context: 'createTable'}),
+            model.options
+          ),
+        ],
+      });
+    }
+
+    // Indexes have been named by sequelize when the model was defined
+    for (const index of (model as any)._indexes as IndexesOptions[]) {
+      if (index.name && !existingIndexes.includes(index.name)) {
+        indexSteps.push({
+          description: `Create index ${index.name} on ${model.name}`,
+          risk: 'safe',
+          // The query generator modifies the index options
+          queries: [queryGenerator.addIndexQuery(tableName, {...index}, model.tableName)],
+        });
+      }
+    }
+  }
+
+  return new SchemaMigration([
+    ...diffEnums(sequelize, dialect, enums, models, liveColumns),
+    ...tableSteps,
+    ...columnSteps,
+    ...indexSteps,
+  ]);
+}
@@ -14,6 +14,9 @@ export enum IndexerEvent {
   SkipDictionary = 'skip_dictionary',
   StoreCacheThreshold = 'store_cache_threshold',
   StoreCacheRecordsSize = 'store_cache_records_size',
+  EndpointMetrics = 'endpoint_metrics',
+  EndpointHedgedRequest = 'endpoint_hedged_request',
+  BatchSizeAdjusted = 'batch_size_adjusted',
   Ready = 'ready',
 }
 
@@ -43,6 +46,25 @@ export interface EventPayload<T> {
   value: T;
 }
 
+export interface EndpointMetricsPayload {
+  endpoint: string;
+  // Exponentially weighted moving average of the response time in ms
+  latency?: number;
+  activeRequests: number;
+}
+
+export interface EndpointHedgedRequestPayload {
+  endpoint: string;
+}
+
+export interface BatchSizeAdjustedPayload {
+  batchSize: number;
+  queueDepth?: number;
+  // Blocks processed per second since the previous adjustment
+  throughput: number;
+  reason: string;
+}
+
 export interface NetworkMetadataPayload {
   chain: string;
   specName: string;
@@ -231,6 +231,19 @@ describe('StoreOperations', () => {
     expect(operationStack.getOperationLeafCount()).toBe(0);
   });
 
+  it('describes the number of operations for each entity', () => {
+    const operationStack = new StoreOperations(models);
+    expect(operationStack.describe()).toBe('No operations');
+
+    for (const o of testOperations) {
+      operationStack.put(o.operation, o.entityType, o.data);
+    }
+    expect(operationStack.describe()).toBe('StarterEntity (4 Set, 1 Remove)');
+
+    operationStack.reset();
+    expect(operationStack.describe()).toBe('No operations');
+  });
+
   it('throw error when remove data is not string type', () => {
     const operationStack = new StoreOperations(models);
 
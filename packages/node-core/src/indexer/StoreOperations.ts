@@ -8,6 +8,8 @@ import {OperationEntity, OperationType} from './types';
 
 export class StoreOperations {
   private merkleTools: MerkleTools;
+  // The number of each type of operation by entity, used to describe the operations
+  private operationCounts: Record<string, Partial<Record<OperationType, number>>> = {};
 
   constructor(private models: GraphQLModelsType[]) {
     this.merkleTools = new MerkleTools({
@@ -53,11 +55,25 @@ export class StoreOperations {
       data: data,
     };
     this.merkleTools.addLeaf(u8aToBuffer(this.operationEntityToUint8Array(operationEntity)), true);
+
+    const counts = (this.operationCounts[entity] ??= {});
+    counts[operation] = (counts[operation] ?? 0) + 1;
   }
 
   reset(): void {
     // Bad types
     (this.merkleTools as any).resetTree();
+    this.operationCounts = {};
+  }
+
+  describe(): string {
+    const entities = Object.entries(this.operationCounts).map(
+      ([entity, counts]) =>
+        `${entity} (${Object.entries(counts)
+          .map(([operation, count]) => `${count} ${operation}`)
+          .join(', ')})`
+    );
+    return entities.length ? entities.join(', ') : 'No operations';
   }
 
   makeOperationMerkleTree(): void {
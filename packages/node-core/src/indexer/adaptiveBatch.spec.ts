@@ -0,0 +1,104 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {AdaptiveBatchController} from './adaptiveBatch';
+
+const WINDOW = 10 * 1000;
+
+function recordBlocks(
+  controller: AdaptiveBatchController,
+  count: number,
+  fetchTime: number,
+  processTime: number,
+  flushWait = 0
+): void {
+  for (let i = 0; i < count; i++) {
+    controller.recordFetch(fetchTime);
+    controller.recordProcessing(processTime);
+    controller.recordFlushWait(flushWait);
+  }
+}
+
+describe('AdaptiveBatchController', () => {
+  let now: number;
+
+  beforeEach(() => {
+    // Leave time for the controller to be created so the first window has elapsed
+    now = Date.now() + 1000;
+  });
+
+  it('does not adjust until there are enough samples', () => {
+    const controller = new AdaptiveBatchController(100);
+    recordBlocks(controller, 10, 1000, 10);
+
+    expect(controller.adjust(0.5, now + 1000)).toBeUndefined();
+    expect(controller.batchSize).toBe(100);
+  });
+
+  it('reduces the batch size when processing is slower than fetching', () => {
+    const controller = new AdaptiveBatchController(100);
+    recordBlocks(controller, 100, 100, 100);
+
+    expect(controller.adjust(0.5, now + WINDOW)).toEqual(
+      expect.objectContaining({batchSize: 67, reason: expect.stringContaining('processing is slower')})
+    );
+
+    // Converges to a batch size that covers the blocks processed while fetching
+    for (let i = 2; i < 11; i++) {
+      recordBlocks(controller, 100, 100, 100);
+      controller.adjust(0.5, now + WINDOW * i);
+    }
+    expect(controller.batchSize).toBe(2);
+  });
+
+  it('increases the batch size up to the max when fetching is slower than processing', () => {
+    const controller = new AdaptiveBatchController(20);
+    recordBlocks(controller, 100, 100, 100);
+    controller.adjust(0.5, now + WINDOW);
+    expect(controller.batchSize).toBe(13);
+
+    recordBlocks(controller, 100, 1000, 10);
+    expect(controller.adjust(0.5, now + WINDOW * 2)).toEqual(
+      expect.objectContaining({batchSize: 20, reason: expect.stringContaining('fetching is slower')})
+    );
+  });
+
+  it('limits the batch size to reach the target throughput', () => {
+    const controller = new AdaptiveBatchController(100, 10);
+    recordBlocks(controller, 100, 1000, 10);
+
+    // 10 blocks/s needs 1000ms / 100ms * 1.5 blocks fetched in parallel
+    for (let i = 1; i < 10; i++) {
+      recordBlocks(controller, 100, 1000, 10);
+      controller.adjust(0.5, now + WINDOW * i);
+    }
+    expect(controller.batchSize).toBe(15);
+  });
+
+  it('reduces the batch size and queue depth when heap usage is high', () => {
+    const controller = new AdaptiveBatchController(100);
+    controller.setQueueCapacity(300);
+
+    expect(controller.adjust(0.9, now + WINDOW)).toEqual({
+      batchSize: 67,
+      queueDepth: 201,
+      throughput: 0,
+      reason: 'heap usage is 90%',
+    });
+  });
+
+  it('reduces the queue depth while waiting for the store cache to flush', () => {
+    const controller = new AdaptiveBatchController(10);
+    controller.setQueueCapacity(30);
+    recordBlocks(controller, 50, 100, 10, 60);
+
+    expect(controller.adjust(0.5, now + WINDOW)).toEqual(
+      expect.objectContaining({queueDepth: 20, reason: expect.stringContaining('store cache')})
+    );
+
+    // Recovers once the flushes catch up
+    recordBlocks(controller, 50, 100, 10);
+    controller.adjust(0.5, now + WINDOW * 2);
+    expect(controller.queueDepth).toBe(30);
+  });
+});
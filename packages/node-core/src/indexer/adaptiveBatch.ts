@@ -0,0 +1,156 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {EventEmitter2} from '@nestjs/event-emitter';
+import {BatchSizeAdjustedPayload, IndexerEvent} from '../events';
+
+// The minimum time between adjustments so there are enough samples to measure throughput
+const MIN_ADJUST_WINDOW = 10 * 1000;
+const HIGH_HEAP_RATIO = 0.85;
+// Fetch enough blocks in parallel to keep processing busy with some room for variance in fetch times
+const FETCH_HEADROOM = 1.5;
+// Limits how much the batch size changes in a single adjustment so that it converges rather than oscillates
+const MAX_STEP_RATIO = 1.5;
+const MIN_STEP_RATIO = 0.67;
+// The share of time processing can spend waiting on the store cache to flush before it is treated as backpressure
+const MAX_FLUSH_WAIT_RATIO = 0.2;
+
+/**
+ * Tunes the batch size and queue depth to keep block processing busy without fetching more blocks than needed.
+ *
+ * Blocks are fetched in parallel up to the batch size, so to keep up with processing the batch size should cover
+ * the number of blocks processed while a block is fetched. Time spent waiting for the store cache to flush counts towards processing.
+ * With a target throughput the batch size is only large enough to reach the target.
+ * Heap usage above 85% reduces the batch size and queue depth regardless of throughput.
+ * */
+export class AdaptiveBatchController {
+  private _batchSize: number;
+  private _queueDepth?: number;
+  private maxQueueDepth?: number;
+
+  private windowStart = Date.now();
+  private fetchTime = 0;
+  private fetchCount = 0;
+  private processTime = 0;
+  private processCount = 0;
+  private flushWaitTime = 0;
+
+  constructor(private maxBatchSize: number, private targetThroughput?: number, private eventEmitter?: EventEmitter2) {
+    this._batchSize = maxBatchSize;
+  }
+
+  get batchSize(): number {
+    return this._batchSize;
+  }
+
+  // The maximum number of blocks waiting to be processed, undefined until the queue capacity is known
+  get queueDepth(): number | undefined {
+    return this._queueDepth;
+  }
+
+  setQueueCapacity(capacity: number): void {
+    this.maxQueueDepth = capacity;
+    this._queueDepth = Math.min(this._queueDepth ?? capacity, capacity);
+  }
+
+  recordFetch(time: number): void {
+    this.fetchTime += time;
+    this.fetchCount++;
+  }
+
+  recordProcessing(time: number): void {
+    this.processTime += time;
+    this.processCount++;
+  }
+
+  recordFlushWait(time: number): void {
+    this.flushWaitTime += time;
+  }
+
+  /**
+   * Adjusts the batch size and queue depth from the samples recorded since the last adjustment
+   * @param heapRatio the used heap size as a ratio of the heap size limit
+   * @returns the adjustment if the batch size or queue depth changed
+   * */
+  adjust(heapRatio: number, now = Date.now()): BatchSizeAdjustedPayload | undefined {
+    const elapsed = now - this.windowStart;
+    if (elapsed < MIN_ADJUST_WINDOW) {
+      return;
+    }
+
+    const throughput = this.processCount / (elapsed / 1000);
+    const fetchLatency = this.fetchCount ? this.fetchTime / this.fetchCount : undefined;
+    // Time spent waiting on the store cache is part of processing each block
+    const processTime = this.processCount ? (this.processTime + this.flushWaitTime) / this.processCount : undefined;
+    const flushWaitRatio = this.flushWaitTime / elapsed;
+    this.resetWindow(now);
+
+    let batchSize = this._batchSize;
+    let queueDepth = this._queueDepth;
+    let reason: string;
+
+    if (heapRatio > HIGH_HEAP_RATIO) {
+      batchSize = this._batchSize * MIN_STEP_RATIO;
+      queueDepth = queueDepth === undefined ? undefined : queueDepth * MIN_STEP_RATIO;
+      reason = `heap usage is ${Math.round(heapRatio * 100)}%`;
+    } else if (fetchLatency === undefined || processTime === undefined) {
+      // Nothing was indexed, e.g. the indexer is waiting for new blocks
+      return;
+    } else {
+      // Processing can't go faster than a block per processTime, there is no need to fetch for a higher target
+      const blockInterval = this.targetThroughput ? Math.max(processTime, 1000 / this.targetThroughput) : processTime;
+      const desiredBatchSize = Math.ceil((fetchLatency / Math.max(blockInterval, 1)) * FETCH_HEADROOM);
+
+      batchSize = Math.min(
+        Math.max(desiredBatchSize, this._batchSize * MIN_STEP_RATIO),
+        this._batchSize * MAX_STEP_RATIO
+      );
+
+      if (flushWaitRatio > MAX_FLUSH_WAIT_RATIO) {
+        // Buffering more blocks doesn't help while the store cache is flushing
+        queueDepth = queueDepth === undefined ? undefined : queueDepth * MIN_STEP_RATIO;
+        reason = `waiting for the store cache to flush ${Math.round(flushWaitRatio * 100)}% of the time`;
+      } else {
+        // Recover from any backpressure gradually
+        queueDepth = queueDepth === undefined ? undefined : queueDepth * MAX_STEP_RATIO;
+        reason =
+          this.targetThroughput && throughput >= this.targetThroughput
+            ? `throughput is at the target of ${this.targetThroughput} blocks/s`
+            : desiredBatchSize > this._batchSize
+            ? `fetching is slower than processing, fetch latency ${Math.round(fetchLatency)}ms`
+            : `processing is slower than fetching, processing time ${Math.round(processTime)}ms`;
+      }
+    }
+
+    const newBatchSize = Math.max(1, Math.min(Math.round(batchSize), this.maxBatchSize));
+    const newQueueDepth =
+      queueDepth === undefined
+        ? undefined
+        : Math.max(newBatchSize, Math.min(Math.round(queueDepth), this.maxQueueDepth ?? Infinity));
+
+    if (newBatchSize === this._batchSize && newQueueDepth === this._queueDepth) {
+      return;
+    }
+
+    this._batchSize = newBatchSize;
+    this._queueDepth = newQueueDepth;
+
+    const payload: BatchSizeAdjustedPayload = {
+      batchSize: newBatchSize,
+      queueDepth: newQueueDepth,
+      throughput,
+      reason,
+    };
+    this.eventEmitter?.emit(IndexerEvent.BatchSizeAdjusted, payload);
+    return payload;
+  }
+
+  private resetWindow(now: number): void {
+    this.windowStart = now;
+    this.fetchTime = 0;
+    this.fetchCount = 0;
+    this.processTime = 0;
+    this.processCount = 0;
+    this.flushWaitTime = 0;
+  }
+}
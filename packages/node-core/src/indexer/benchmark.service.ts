@@ -7,7 +7,14 @@ import {SchedulerRegistry} from '@nestjs/schedule';
 import dayjs from 'dayjs';
 import duration from 'dayjs/plugin/duration';
 import {NodeConfig} from '../configure';
-import {IndexerEvent, PoiEvent, ProcessBlockPayload, ProcessedBlockCountPayload, TargetBlockPayload} from '../events';
+import {
+  BatchSizeAdjustedPayload,
+  IndexerEvent,
+  PoiEvent,
+  ProcessBlockPayload,
+  ProcessedBlockCountPayload,
+  TargetBlockPayload,
+} from '../events';
 import {getLogger} from '../logger';
 import {delay} from '../utils/promise';
 
@@ -29,7 +36,7 @@ abstract class BaseBenchmarkService {
   protected constructor(
     private nodeConfig: NodeConfig,
     readonly schedulerRegistry: SchedulerRegistry,
-    private eventName: string,
+    protected eventName: string,
     private unitName: string
   ) {}
 
@@ -140,4 +147,13 @@ export class IndexingBenchmarkService extends BaseBenchmarkService {
   handleTargetBlock(blockPayload: TargetBlockPayload): void {
     this.targetHeight = blockPayload.height;
   }
+
+  @OnEvent(IndexerEvent.BatchSizeAdjusted)
+  handleBatchSizeAdjusted({batchSize, queueDepth, reason, throughput}: BatchSizeAdjustedPayload): void {
+    logger.info(
+      `${this.eventName}: Batch size adjusted to ${batchSize}${
+        queueDepth === undefined ? '' : `, queue depth ${queueDepth}`
+      } at ${throughput.toFixed(2)} blocks/s, ${reason}`
+    );
+  }
 }
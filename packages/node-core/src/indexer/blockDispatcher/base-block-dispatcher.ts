@@ -13,7 +13,7 @@ import {DynamicDsService} from '../dynamic-ds.service';
 import {PoiBlock, PoiSyncService} from '../poi';
 import {SmartBatchService} from '../smartBatch.service';
 import {StoreService} from '../store.service';
-import {StoreCacheService} from '../storeCache';
+import {isDryRunCompleteError, StoreCacheService} from '../storeCache';
 import {CachePoiModel} from '../storeCache/cachePoi';
 import {IProjectService, ISubqueryProject} from '../types';
 
@@ -49,6 +49,7 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
   protected _processedBlockCount = 0;
   protected _latestProcessedHeight = 0;
   protected currentProcessingHeight = 0;
+  private processingStartTime = 0;
   private _onDynamicDsCreated?: (height: number) => Promise<void>;
 
   constructor(
@@ -63,7 +64,11 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
     private storeCacheService: StoreCacheService,
     private poiSyncService: PoiSyncService,
     protected dynamicDsService: DynamicDsService<any>
-  ) {}
+  ) {
+    if (queue.capacity !== undefined) {
+      smartBatchService.adaptiveBatch?.setQueueCapacity(queue.capacity);
+    }
+  }
 
   abstract enqueueBlocks(heights: number[], latestBufferHeight?: number): void | Promise<void>;
 
@@ -79,7 +84,11 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
 
   get freeSize(): number {
     assert(this.queue.freeSpace !== undefined, 'Queues for base block dispatcher must have a capacity set');
-    return this.queue.freeSpace;
+    const queueDepth = this.smartBatchService.adaptiveBatch?.queueDepth;
+    if (queueDepth === undefined) {
+      return this.queue.freeSpace;
+    }
+    return Math.max(Math.min(this.queue.freeSpace, queueDepth - this.queue.size), 0);
   }
 
   get smartBatchSize(): number {
@@ -156,6 +165,7 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
     await this.projectUpgradeService.setCurrentHeight(height);
 
     this.currentProcessingHeight = height;
+    this.processingStartTime = Date.now();
     this.eventEmitter.emit(IndexerEvent.BlockProcessing, {
       height,
       timestamp: Date.now(),
@@ -166,6 +176,7 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
   @mainThreadOnly()
   protected async postProcessBlock(height: number, processBlockResponse: ProcessBlockResponse): Promise<void> {
     const {blockHash, dynamicDsCreated, reindexBlockHeight} = processBlockResponse;
+    this.smartBatchService.adaptiveBatch?.recordProcessing(Date.now() - this.processingStartTime);
 
     if (reindexBlockHeight !== null && reindexBlockHeight !== undefined) {
       if (this.nodeConfig.proofOfIndex) {
@@ -197,22 +208,41 @@ export abstract class BaseBlockDispatcher<Q extends IQueue, DS> implements IBloc
       this.setLatestProcessedHeight(height);
     }
 
-    if (this.nodeConfig.storeCacheAsync) {
-      // Flush all completed block data and don't wait
-      await this.storeCacheService.flushAndWaitForCapacity(false, false)?.catch((e) => {
-        logger.error(e, 'Flushing cache failed');
-        process.exit(1);
-      });
-    } else {
-      // Flush all data from cache and wait
-      await this.storeCacheService.flushCache(false, true);
+    const flushStart = Date.now();
+    try {
+      if (this.nodeConfig.storeCacheAsync) {
+        // Flush all completed block data and don't wait
+        await this.storeCacheService.flushAndWaitForCapacity(false, false)?.catch((e) => {
+          if (isDryRunCompleteError(e)) throw e;
+          logger.error(e, 'Flushing cache failed');
+          process.exit(1);
+        });
+      } else {
+        // Flush all data from cache and wait
+        await this.storeCacheService.flushCache(false, true);
+      }
+    } catch (e) {
+      if (!isDryRunCompleteError(e)) throw e;
+      logger.warn(e.message);
+      return this.exitGracefully();
     }
+    this.smartBatchService.adaptiveBatch?.recordFlushWait(Date.now() - flushStart);
 
     if (!this.projectService.hasDataSourcesAfterHeight(height)) {
       logger.info(`All data sources have been processed up to block number ${height}. Exiting gracefully...`);
+      await this.exitGracefully();
+    }
+  }
+
+  private async exitGracefully(): Promise<void> {
+    if (this.nodeConfig.dryRun) {
+      // Nothing is flushed in a dry run, the shutdown hooks log the summary and remove any temporary schema
+      await this.storeCacheService.beforeApplicationShutdown();
+      await this.storeService.onApplicationShutdown();
+    } else {
       await this.storeCacheService.flushCache(false, true);
-      process.exit(0);
     }
+    process.exit(0);
   }
 
   /**
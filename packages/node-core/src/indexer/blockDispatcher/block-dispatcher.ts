@@ -152,7 +152,9 @@ export abstract class BlockDispatcher<B, DS>
             if (memoryLock.isLocked()) {
               await memoryLock.waitForUnlock();
             }
+            const fetchStart = Date.now();
             const [block] = await this.fetchBlocksBatches([blockNum]);
+            this.smartBatchService.adaptiveBatch?.recordFetch(Date.now() - fetchStart);
 
             this.smartBatchService.addToSizeBuffer([block]);
             return block;
@@ -3,6 +3,7 @@
 
 import {EventEmitter2} from '@nestjs/event-emitter';
 import {IProjectUpgradeService, NodeConfig} from '../../configure';
+import {AdaptiveBatchController} from '../adaptiveBatch';
 import {DynamicDsService} from '../dynamic-ds.service';
 import {PoiSyncService} from '../poi';
 import {SmartBatchService} from '../smartBatch.service';
@@ -75,4 +76,41 @@ describe('WorkerBlockDispatcher', () => {
     const index = await (dispatcher as any).getNextWorkerIndex();
     expect(index).toBe(0);
   });
+
+  describe('freeSize', () => {
+    function createDispatcher(smartBatchService: SmartBatchService): WorkerBlockDispatcher<any, any> {
+      return new TestWorkerBlockDispatcher(
+        {workers: 2, batchSize: 5} as unknown as NodeConfig,
+        null as unknown as EventEmitter2,
+        null as unknown as IProjectService<any>,
+        null as unknown as IProjectUpgradeService,
+        smartBatchService,
+        null as unknown as StoreService,
+        null as unknown as StoreCacheService,
+        null as unknown as PoiSyncService,
+        null as unknown as ISubqueryProject,
+        null as unknown as DynamicDsService<any>,
+        null as unknown as () => Promise<any>
+      );
+    }
+
+    test('is the free space in the queue without an adaptive batch controller', () => {
+      const dispatcher = createDispatcher(new SmartBatchService(5));
+
+      expect(dispatcher.freeSize).toBe(20);
+    });
+
+    test('is limited by the adaptive queue depth', () => {
+      const adaptiveBatch = new AdaptiveBatchController(5);
+      const dispatcher = createDispatcher(new SmartBatchService(5, undefined, adaptiveBatch));
+      expect(adaptiveBatch.queueDepth).toBe(20);
+      expect(dispatcher.freeSize).toBe(20);
+
+      // High heap usage reduces the queue depth
+      adaptiveBatch.adjust(0.9, Date.now() + 60 * 1000);
+
+      expect(adaptiveBatch.queueDepth).toBe(13);
+      expect(dispatcher.freeSize).toBe(13);
+    });
+  });
 });
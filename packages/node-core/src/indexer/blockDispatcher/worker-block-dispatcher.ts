@@ -145,7 +145,10 @@ export abstract class WorkerBlockDispatcher<DS, W extends Worker>
 
     await worker.waitForWorkerBatchSize(this.minimumHeapLimit);
 
-    const pendingBlock = this.fetchBlock(worker, height);
+    const fetchStart = Date.now();
+    const pendingBlock = this.fetchBlock(worker, height).then(() =>
+      this.smartBatchService.adaptiveBatch?.recordFetch(Date.now() - fetchStart)
+    );
 
     const processBlock = async () => {
       try {
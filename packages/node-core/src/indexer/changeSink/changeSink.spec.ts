@@ -0,0 +1,107 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import http from 'http';
+import {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import {OperationType} from '../types';
+import {createChangeWriter, FileChangeWriter, WebhookChangeWriter} from '.';
+
+describe('Change sink', () => {
+  it('creates writers from uris', () => {
+    expect(createChangeWriter('file:///tmp/changes.ndjson')).toBeInstanceOf(FileChangeWriter);
+    expect(createChangeWriter('https://example.com/hook')).toBeInstanceOf(WebhookChangeWriter);
+    expect(() => createChangeWriter('ws://example.com')).toThrow(
+      'Change sink protocol ws: is not supported. Options are file:, http:, https:'
+    );
+  });
+
+  it('appends events to a file as newline delimited JSON', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'change-sink-'));
+    const filePath = path.join(dir, 'changes.ndjson');
+    const writer = new FileChangeWriter(filePath);
+
+    await writer.write([
+      {operation: OperationType.Set, entity: 'Transfer', id: '1', blockHeight: 1, payload: {id: '1', amount: 1}},
+      {operation: OperationType.Remove, entity: 'Transfer', id: '1', blockHeight: 2},
+    ]);
+    await writer.write([{operation: 'Rewind', blockHeight: 1}]);
+
+    const lines = (await fs.promises.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {operation: 'Set', entity: 'Transfer', id: '1', blockHeight: 1, payload: {id: '1', amount: 1}},
+      {operation: 'Remove', entity: 'Transfer', id: '1', blockHeight: 2},
+      {operation: 'Rewind', blockHeight: 1},
+    ]);
+
+    await fs.promises.rm(dir, {recursive: true});
+  });
+
+  describe('webhook', () => {
+    let server: http.Server;
+    let url: string;
+    let requests: {method?: string; contentType?: string; body: unknown}[];
+    let status: number;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          requests.push({method: req.method, contentType: req.headers['content-type'], body: JSON.parse(body)});
+          res.statusCode = status;
+          res.end(status === 200 ? '' : 'Unavailable');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    beforeEach(() => {
+      requests = [];
+      status = 200;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('posts events as a JSON array', async () => {
+      const writer = new WebhookChangeWriter(url);
+
+      await writer.write([]);
+      await writer.write([
+        {
+          operation: OperationType.Set,
+          entity: 'Transfer',
+          id: '1',
+          blockHeight: 1,
+          payload: {id: '1', amount: BigInt(1)},
+        },
+        {operation: 'Rewind', blockHeight: 1},
+      ]);
+
+      expect(requests).toEqual([
+        {
+          method: 'POST',
+          contentType: 'application/json',
+          body: [
+            {operation: 'Set', entity: 'Transfer', id: '1', blockHeight: 1, payload: {id: '1', amount: '1n'}},
+            {operation: 'Rewind', blockHeight: 1},
+          ],
+        },
+      ]);
+    });
+
+    it('fails when the webhook does not accept the events', async () => {
+      status = 503;
+      const writer = new WebhookChangeWriter(url);
+
+      await expect(writer.write([{operation: 'Rewind', blockHeight: 1}])).rejects.toThrow(
+        'Bad response, code="503" body="Unavailable"'
+      );
+    });
+  });
+});
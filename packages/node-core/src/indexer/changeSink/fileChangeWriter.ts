@@ -0,0 +1,17 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import '../../utils/bigint';
+import {ChangeEvent, IChangeWriter} from './types';
+
+// Appends change events to a file as newline delimited JSON
+export class FileChangeWriter implements IChangeWriter {
+  constructor(private readonly filePath: string) {}
+
+  async write(events: ChangeEvent[]): Promise<void> {
+    if (!events.length) return;
+
+    await fs.promises.appendFile(this.filePath, events.map((event) => `${JSON.stringify(event)}\n`).join(''));
+  }
+}
@@ -0,0 +1,28 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {fileURLToPath} from 'url';
+import {FileChangeWriter} from './fileChangeWriter';
+import {IChangeWriter} from './types';
+import {WebhookChangeWriter} from './webhookChangeWriter';
+
+export * from './types';
+export * from './fileChangeWriter';
+export * from './webhookChangeWriter';
+
+/**
+ * Creates a change writer from a uri.
+ * `file://` uris will write newline delimited JSON to the file, `http(s)://` uris will post events to the webhook
+ * */
+export function createChangeWriter(uri: string): IChangeWriter {
+  const url = new URL(uri);
+  switch (url.protocol) {
+    case 'file:':
+      return new FileChangeWriter(fileURLToPath(url));
+    case 'http:':
+    case 'https:':
+      return new WebhookChangeWriter(uri);
+    default:
+      throw new Error(`Change sink protocol ${url.protocol} is not supported. Options are file:, http:, https:`);
+  }
+}
@@ -0,0 +1,26 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {OperationType} from '../types';
+
+export type EntityChangeEvent = {
+  operation: OperationType;
+  entity: string;
+  id: string;
+  blockHeight: number;
+  // The entity data, this is undefined for removals
+  payload?: Record<string, unknown>;
+};
+
+// Emitted when the db is rewound, any changes after the block height are no longer valid and will be emitted again
+export type RewindChangeEvent = {
+  operation: 'Rewind';
+  blockHeight: number;
+};
+
+export type ChangeEvent = EntityChangeEvent | RewindChangeEvent;
+
+export interface IChangeWriter {
+  // Writing should only resolve once the events have been delivered
+  write(events: ChangeEvent[]): Promise<void>;
+}
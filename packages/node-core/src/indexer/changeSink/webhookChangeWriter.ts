@@ -0,0 +1,25 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fetch from 'cross-fetch';
+import '../../utils/bigint';
+import {ChangeEvent, IChangeWriter} from './types';
+
+// Posts change events as a JSON array to a webhook, any non 2xx response is considered a failed delivery
+export class WebhookChangeWriter implements IChangeWriter {
+  constructor(private readonly url: string) {}
+
+  async write(events: ChangeEvent[]): Promise<void> {
+    if (!events.length) return;
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(events),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bad response, code="${response.status}" body="${await response.text()}"`);
+    }
+  }
+}
@@ -114,4 +114,54 @@ describe('ConnectionPoolService', () => {
       expect(handleApiDisconnectsSpy).toHaveBeenCalledTimes(1);
     }, 15000);
   });
+
+  describe('hedged requests', () => {
+    const ENDPOINTS = ['https://a.example.com/api', 'https://b.example.com/api'];
+
+    it('uses the first response when a request is slow', async () => {
+      const poolStateManager = new ConnectionPoolStateManager<typeof mockApiConnection>();
+      const hedgedService = new ConnectionPoolService<typeof mockApiConnection>(
+        new NodeConfig({batchSize: 1, subquery: 'example', hedgeRequests: true}),
+        poolStateManager
+      );
+      // Whichever endpoint is used first is slow
+      let requests = 0;
+      const fetchBlocks = jest.fn(() => (requests++ ? Promise.resolve(['fast']) : delay(5).then(() => ['slow'])));
+      for (const endpoint of ENDPOINTS) {
+        await hedgedService.addToConnections({...mockApiConnection, fetchBlocks}, endpoint);
+        await poolStateManager.setFieldValue(endpoint, 'latency', 10);
+      }
+
+      const start = Date.now();
+      await expect(hedgedService.api.fetchBlocks([1])).resolves.toEqual(['fast']);
+      expect(Date.now() - start).toBeLessThan(5000);
+      expect(fetchBlocks).toHaveBeenCalledTimes(2);
+      const hedgedRequests = await Promise.all(
+        ENDPOINTS.map((endpoint) => poolStateManager.getFieldValue(endpoint, 'hedgedRequests'))
+      );
+      expect(hedgedRequests.sort()).toEqual([0, 1]);
+    }, 10000);
+  });
+
+  describe('removed endpoints', () => {
+    it('uses another endpoint when the chosen endpoint is removed from the pool', async () => {
+      const poolStateManager = new ConnectionPoolStateManager<typeof mockApiConnection>();
+      const service = new ConnectionPoolService<typeof mockApiConnection>(nodeConfig, poolStateManager);
+      await service.addToConnections(
+        {...mockApiConnection, fetchBlocks: jest.fn(() => Promise.resolve(['a']))},
+        'https://a.example.com/api'
+      );
+      await service.addToConnections(
+        {...mockApiConnection, fetchBlocks: jest.fn(() => Promise.resolve(['b']))},
+        'https://b.example.com/api'
+      );
+
+      const api = service.api;
+      // The first response shows which endpoint was chosen
+      const [chosen] = await api.fetchBlocks([1]);
+      await poolStateManager.removeFromConnections(`https://${chosen}.example.com/api`);
+
+      await expect(api.fetchBlocks([1])).resolves.toEqual(chosen === 'a' ? ['b'] : ['a']);
+    });
+  });
 });
@@ -5,6 +5,7 @@ import assert from 'assert';
 import {isMainThread} from 'node:worker_threads';
 import {OnApplicationShutdown, Injectable} from '@nestjs/common';
 import {Interval} from '@nestjs/schedule';
+import {IEndpointConfig} from '@subql/types-core';
 import chalk from 'chalk';
 import {ApiConnectionError, ApiErrorType} from '../api.connection.error';
 import {IApiConnectionSpecific} from '../api.service';
@@ -16,6 +17,11 @@ import {ConnectionPoolStateManager} from './connectionPoolState.manager';
 const logger = getLogger('connection-pool');
 
 const LOG_INTERVAL_MS = 60 * 1000; // Log every 60 seconds
+// A request is hedged once it takes this many times longer than the average latency of its endpoint
+const HEDGE_LATENCY_MULTIPLIER = 3;
+const MIN_HEDGE_DELAY_MS = 1000;
+const NO_ENDPOINTS_ERROR =
+  'All endpoints in the pool are either suspended due to rate limits or attempting to reconnect. Please wait or add healthier endpoints.';
 
 export const errorTypeToScoreAdjustment = {
   [ApiErrorType.Timeout]: -10,
@@ -48,9 +54,9 @@ export class ConnectionPoolService<T extends IApiConnectionSpecific<any, any, an
     await Promise.all(Object.values(this.allApi).map((api) => api?.apiDisconnect()));
   }
 
-  async addToConnections(api: T, endpoint: string): Promise<void> {
+  async addToConnections(api: T, endpoint: string, config?: IEndpointConfig): Promise<void> {
     this.allApi[endpoint] = api;
-    await this.poolStateManager.addToConnections(endpoint, endpoint === this.nodeConfig.primaryNetworkEndpoint);
+    await this.poolStateManager.addToConnections(endpoint, endpoint === this.nodeConfig.primaryNetworkEndpoint, config);
     if (api !== null) {
       await this.updateNextConnectedApiIndex();
     }
@@ -86,9 +92,7 @@ export class ConnectionPoolService<T extends IApiConnectionSpecific<any, any, an
     const endpoint = this.cachedEndpoint;
 
     if (endpoint === undefined) {
-      throw new Error(
-        'All endpoints in the pool are either suspended due to rate limits or attempting to reconnect. Please wait or add healthier endpoints.'
-      );
+      throw new Error(NO_ENDPOINTS_ERROR);
     }
     const api = this.allApi[endpoint];
 
@@ -98,24 +102,11 @@ export class ConnectionPoolService<T extends IApiConnectionSpecific<any, any, an
       get: (target, prop, receiver) => {
         if (prop === 'fetchBlocks') {
           return async (heights: number[], ...args: any): Promise<any> => {
-            try {
-              // Check if the endpoint is rate-limited
-              if (await this.poolStateManager.getFieldValue(endpoint, 'rateLimited')) {
-                logger.info('throtling on ratelimited endpoint');
-                const backoffDelay = await this.poolStateManager.getFieldValue(endpoint, 'backoffDelay');
-                await delay(backoffDelay / 1000);
-              }
-
-              const start = Date.now();
-              const result = await target.fetchBlocks(heights, ...args);
-              const end = Date.now();
-              await this.handleApiSuccess(endpoint, end - start);
-              await this.poolStateManager.setFieldValue(endpoint, 'lastRequestTime', end); // Update the last request time
-              return result;
-            } catch (error) {
-              await this.handleApiError(endpoint, target.handleError(error as Error));
-              throw error;
+            const requestEndpoint = await this.acquireRequest(endpoint);
+            if (this.nodeConfig.hedgeRequests) {
+              return this.fetchBlocksHedged(requestEndpoint, heights, args);
             }
+            return this.fetchBlocksFromEndpoint(requestEndpoint, heights, args);
           };
         }
 
@@ -126,6 +117,133 @@ export class ConnectionPoolService<T extends IApiConnectionSpecific<any, any, an
     return wrappedApi as T;
   }
 
+  /**
+   * Waits until a request can be made within the limits of an endpoint.
+   * If another endpoint has capacity while waiting or the endpoint is removed from the pool then another endpoint is used instead.
+   * @returns the endpoint that the request was started on
+   * */
+  private async acquireRequest(endpoint: string): Promise<string> {
+    for (;;) {
+      const wait = this.allApi[endpoint] ? await this.poolStateManager.acquireRequest(endpoint) : undefined;
+      if (wait === 0) {
+        return endpoint;
+      }
+
+      const nextEndpoint = await this.poolStateManager.getNextConnectedEndpoint(this.connectedEndpoints);
+
+      // The endpoint has been removed from the pool since it was chosen
+      if (wait === undefined) {
+        if (nextEndpoint === undefined) {
+          throw new Error(NO_ENDPOINTS_ERROR);
+        }
+        endpoint = nextEndpoint;
+        continue;
+      }
+
+      if (nextEndpoint !== undefined && nextEndpoint !== endpoint) {
+        if ((await this.poolStateManager.acquireRequest(nextEndpoint)) === 0) {
+          return nextEndpoint;
+        }
+      }
+
+      await delay(wait / 1000);
+    }
+  }
+
+  // Endpoints that have an api, the api can be null until a failed connection is retried
+  private get connectedEndpoints(): string[] {
+    return Object.keys(this.allApi).filter((endpoint) => this.allApi[endpoint]);
+  }
+
+  // The request must have been started with acquireRequest
+  private async fetchBlocksFromEndpoint(endpoint: string, heights: number[], args: any[]): Promise<any> {
+    const api = this.allApi[endpoint];
+    try {
+      // Check if the endpoint is rate-limited
+      if (await this.poolStateManager.getFieldValue(endpoint, 'rateLimited')) {
+        logger.info('throtling on ratelimited endpoint');
+        const backoffDelay = await this.poolStateManager.getFieldValue(endpoint, 'backoffDelay');
+        await delay(backoffDelay / 1000);
+      }
+
+      const start = Date.now();
+      const result = await api.fetchBlocks(heights, ...args);
+      const end = Date.now();
+      await this.handleApiSuccess(endpoint, end - start);
+      await this.poolStateManager.setFieldValue(endpoint, 'lastRequestTime', end); // Update the last request time
+      return result;
+    } catch (error) {
+      await this.handleApiError(endpoint, api.handleError(error as Error));
+      throw error;
+    } finally {
+      await this.poolStateManager.releaseRequest(endpoint);
+    }
+  }
+
+  /**
+   * Fetches blocks and if the request is slow compared to the latency of the endpoint,
+   * sends the same request to another endpoint. The first successful response is used.
+   * */
+  private async fetchBlocksHedged(endpoint: string, heights: number[], args: any[]): Promise<any> {
+    const latency = await this.poolStateManager.getFieldValue(endpoint, 'latency');
+    // Without a measured latency there is nothing to tell if the request is slow
+    if (latency === undefined) {
+      return this.fetchBlocksFromEndpoint(endpoint, heights, args);
+    }
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pending = 0;
+
+      const track = (request: Promise<any>) => {
+        pending++;
+        request.then(
+          (result) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(hedgeTimeout);
+            resolve(result);
+          },
+          (error) => {
+            pending--;
+            // Only fail once every request has failed
+            if (settled || pending) return;
+            settled = true;
+            clearTimeout(hedgeTimeout);
+            reject(error);
+          }
+        );
+      };
+
+      const hedgeTimeout = setTimeout(() => {
+        this.acquireHedgeRequest(endpoint).then(
+          (hedgeEndpoint) => {
+            if (hedgeEndpoint === undefined) return;
+            logger.debug(`Request to ${endpoint} is slow, also fetching blocks from ${hedgeEndpoint}`);
+            track(this.fetchBlocksFromEndpoint(hedgeEndpoint, heights, args));
+          },
+          (e) => logger.warn(`Failed to hedge request to ${endpoint}: ${e}`)
+        );
+      }, Math.max(latency * HEDGE_LATENCY_MULTIPLIER, MIN_HEDGE_DELAY_MS));
+
+      track(this.fetchBlocksFromEndpoint(endpoint, heights, args));
+    });
+  }
+
+  // Starts a request on an endpoint other than the given one if any have capacity
+  private async acquireHedgeRequest(endpoint: string): Promise<string | undefined> {
+    const hedgeEndpoint = await this.poolStateManager.getNextConnectedEndpoint(
+      this.connectedEndpoints.filter((e) => e !== endpoint)
+    );
+    if (hedgeEndpoint === undefined || hedgeEndpoint === endpoint) {
+      return;
+    }
+    if ((await this.poolStateManager.acquireRequest(hedgeEndpoint, true)) !== 0) {
+      return;
+    }
+    return hedgeEndpoint;
+  }
+
   get numConnections(): number {
     return this.poolStateManager.numConnections;
   }
@@ -152,6 +270,7 @@ export class ConnectionPoolService<T extends IApiConnectionSpecific<any, any, an
       // eslint-disable-next-line @typescript-eslint/no-misused-promises
       async () => {
         logger.error(`Reached max reconnection attempts. Removing connection ${endpoint} from pool.`);
+        delete this.allApi[endpoint];
         await this.poolStateManager.removeFromConnections(endpoint);
       },
       0,
@@ -1,6 +1,9 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import {EventEmitter2} from '@nestjs/event-emitter';
+import {NodeConfig} from '../configure';
+import {IndexerEvent} from '../events';
 import {ConnectionPoolStateManager} from './connectionPoolState.manager';
 
 describe('ConnectionPoolStateManager', function () {
@@ -78,4 +81,106 @@ describe('ConnectionPoolStateManager', function () {
     const score2 = (connectionPoolStateManager as any).calculatePerformanceScore(2, 0);
     expect(score1).toBeGreaterThan(score2);
   });
+
+  it('tracks the average latency of endpoints', async function () {
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false);
+    await connectionPoolStateManager.handleApiSuccess(EXAMPLE_ENDPOINT1, 100);
+    await connectionPoolStateManager.handleApiSuccess(EXAMPLE_ENDPOINT1, 200);
+
+    expect(await connectionPoolStateManager.getFieldValue(EXAMPLE_ENDPOINT1, 'latency')).toBeCloseTo(130);
+  });
+
+  it('limits requests to endpoints', async function () {
+    connectionPoolStateManager = new ConnectionPoolStateManager(
+      new NodeConfig({subquery: 'example', endpointMaxConcurrency: 1})
+    );
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false);
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT2, false);
+
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBeGreaterThan(0);
+    // Endpoints at their limits aren't chosen while others have capacity
+    expect(await connectionPoolStateManager.getNextConnectedEndpoint()).toEqual(EXAMPLE_ENDPOINT2);
+
+    await connectionPoolStateManager.releaseRequest(EXAMPLE_ENDPOINT1);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+  });
+
+  it('limits requests per second to endpoints', async function () {
+    connectionPoolStateManager = new ConnectionPoolStateManager(
+      new NodeConfig({subquery: 'example', endpointMaxRps: 2})
+    );
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false);
+
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+    const wait = await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1);
+    expect(wait).toBeGreaterThan(0);
+    expect(wait).toBeLessThanOrEqual(1000);
+  });
+
+  it('only chooses light endpoints when there are no archive endpoints', async function () {
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false, {role: 'light', weight: 10});
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT2, false);
+
+    expect(await connectionPoolStateManager.getNextConnectedEndpoint()).toEqual(EXAMPLE_ENDPOINT2);
+
+    await connectionPoolStateManager.setFieldValue(EXAMPLE_ENDPOINT2, 'connected', false);
+    expect(await connectionPoolStateManager.getNextConnectedEndpoint()).toEqual(EXAMPLE_ENDPOINT1);
+  });
+
+  it('uses the rate limit of endpoints', async function () {
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false, {rateLimit: 1});
+
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBeGreaterThan(0);
+  });
+
+  it('uses the max concurrency of endpoints', async function () {
+    connectionPoolStateManager = new ConnectionPoolStateManager(
+      new NodeConfig({subquery: 'example', endpointMaxConcurrency: 5})
+    );
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false, {maxConcurrency: 1});
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT2, false);
+
+    expect(await connectionPoolStateManager.getFieldValue(EXAMPLE_ENDPOINT1, 'maxConcurrency')).toBe(1);
+    expect(await connectionPoolStateManager.getFieldValue(EXAMPLE_ENDPOINT2, 'maxConcurrency')).toBe(5);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBe(0);
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBeGreaterThan(0);
+  });
+
+  it('does not start requests on endpoints removed from the pool', async function () {
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT1, false);
+    await connectionPoolStateManager.addToConnections(EXAMPLE_ENDPOINT2, false);
+    await connectionPoolStateManager.removeFromConnections(EXAMPLE_ENDPOINT1);
+
+    expect(await connectionPoolStateManager.acquireRequest(EXAMPLE_ENDPOINT1)).toBeUndefined();
+  });
+
+  it('labels metrics uniquely without the path of endpoints', async function () {
+    const eventEmitter = new EventEmitter2();
+    const metrics = jest.fn();
+    const hedged = jest.fn();
+    eventEmitter.on(IndexerEvent.EndpointMetrics, metrics);
+    eventEmitter.on(IndexerEvent.EndpointHedgedRequest, hedged);
+    connectionPoolStateManager = new ConnectionPoolStateManager(undefined, eventEmitter);
+
+    await connectionPoolStateManager.addToConnections('https://example.com/api-key-1', false);
+    await connectionPoolStateManager.addToConnections('https://example.com/api-key-2', false);
+    await connectionPoolStateManager.addToConnections('https://other.com/api-key-1', false);
+    // Workers add the same endpoints again
+    await connectionPoolStateManager.addToConnections('https://example.com/api-key-1', false);
+
+    await connectionPoolStateManager.acquireRequest('https://example.com/api-key-1');
+    await connectionPoolStateManager.acquireRequest('https://example.com/api-key-2', true);
+    await connectionPoolStateManager.acquireRequest('https://other.com/api-key-1');
+
+    expect(metrics.mock.calls.map(([payload]) => payload.endpoint)).toEqual([
+      'example.com',
+      'example.com#2',
+      'other.com',
+    ]);
+    expect(hedged).toHaveBeenCalledWith({endpoint: 'example.com#2'});
+    expect(hedged).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,11 +1,15 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import {OnApplicationShutdown} from '@nestjs/common';
+import {Injectable, OnApplicationShutdown, Optional} from '@nestjs/common';
+import {EventEmitter2} from '@nestjs/event-emitter';
 import {Interval} from '@nestjs/schedule';
+import {IEndpointConfig} from '@subql/types-core';
 import chalk from 'chalk';
 import {ApiErrorType} from '../api.connection.error';
 import {IApiConnectionSpecific} from '../api.service';
+import {NodeConfig} from '../configure';
+import {EndpointHedgedRequestPayload, EndpointMetricsPayload, IndexerEvent} from '../events';
 import {getLogger} from '../logger';
 import {errorTypeToScoreAdjustment} from './connectionPool.service';
 
@@ -13,9 +17,16 @@ const RETRY_DELAY = 60 * 1000;
 const MAX_FAILURES = 5;
 const RESPONSE_TIME_WEIGHT = 0.7;
 const FAILURE_WEIGHT = 0.3;
+// How much each response time contributes to the average latency of an endpoint
+const LATENCY_EWMA_WEIGHT = 0.3;
+const RPS_WINDOW = 1000;
+// How long to wait before retrying when an endpoint is at its max concurrency
+const CONCURRENCY_RETRY_DELAY = 100;
 
 export interface ConnectionPoolItem<T> {
   endpoint: string;
+  // Used to label metrics, unique within the pool and doesn't include any api keys in the endpoint
+  label: string;
   primary: boolean;
   performanceScore: number;
   backoffDelay: number;
@@ -25,12 +36,23 @@ export interface ConnectionPoolItem<T> {
   lastRequestTime: number;
   connected: boolean;
   timeoutId?: NodeJS.Timeout;
+  // Exponentially weighted moving average of response times in ms, undefined until the first response
+  latency?: number;
+  activeRequests: number;
+  hedgedRequests: number;
+  // Start times of requests within the last second
+  recentRequests: number[];
+  maxConcurrency?: number;
+  maxRps?: number;
+  // Relative likelihood of choosing the endpoint
+  weight: number;
+  role: 'archive' | 'light';
 }
 
 const logger = getLogger('ConnectionPoolState');
 
 export interface IConnectionPoolStateManager<T extends IApiConnectionSpecific<any, any, any>> {
-  addToConnections(endpoint: string, primary: boolean, initFailed: boolean): Promise<void>;
+  addToConnections(endpoint: string, primary: boolean, config?: IEndpointConfig): Promise<void>;
   // Connected endpoints allows reducing the endpoints to ones connected in the worker
   getNextConnectedEndpoint(connectedEndpoints?: string[]): Promise<string | undefined>;
   // Async to be compatible with workers
@@ -46,17 +68,25 @@ export interface IConnectionPoolStateManager<T extends IApiConnectionSpecific<an
   handleApiError(endpoint: string, errorType: ApiErrorType): Promise<void>;
   handleApiSuccess(endpoint: string, responseTime: number): Promise<void>;
   getDisconnectedEndpoints(): Promise<string[]>;
+  // Returns 0 if a request was started, otherwise the time in ms until the endpoint is within its request limits.
+  // Undefined is returned if the endpoint has been removed from the pool
+  acquireRequest(endpoint: string, hedged?: boolean): Promise<number | undefined>;
+  releaseRequest(endpoint: string): Promise<void>;
 }
 
+@Injectable()
 export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, any, any>>
   implements OnApplicationShutdown
 {
   private pool: Record<string, ConnectionPoolItem<T>> = {};
 
+  constructor(@Optional() private nodeConfig?: NodeConfig, @Optional() private eventEmitter?: EventEmitter2) {}
+
   //eslint-disable-next-line @typescript-eslint/require-await
-  async addToConnections(endpoint: string, primary: boolean): Promise<void> {
+  async addToConnections(endpoint: string, primary: boolean, config: IEndpointConfig = {}): Promise<void> {
     const poolItem: ConnectionPoolItem<T> = {
       primary: primary,
+      label: this.pool[endpoint]?.label ?? this.getLabel(endpoint),
       performanceScore: 100,
       failureCount: 0,
       endpoint: endpoint,
@@ -65,6 +95,13 @@ export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, an
       failed: false,
       connected: true,
       lastRequestTime: 0,
+      activeRequests: 0,
+      hedgedRequests: 0,
+      recentRequests: [],
+      maxConcurrency: config.maxConcurrency ?? this.nodeConfig?.endpointMaxConcurrency,
+      maxRps: config.rateLimit ?? this.nodeConfig?.endpointMaxRps,
+      weight: config.weight ?? 1,
+      role: config.role ?? 'archive',
     };
     this.pool[endpoint] = poolItem;
 
@@ -73,6 +110,20 @@ export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, an
     }
   }
 
+  // Only the host is used as endpoints can include api keys, endpoints with the same host are numbered in the order they are added
+  private getLabel(endpoint: string): string {
+    let host: string;
+    try {
+      host = new URL(endpoint).host || endpoint;
+    } catch (e) {
+      host = endpoint;
+    }
+    const sameHost = Object.values(this.pool).filter(
+      (item) => item.label === host || item.label.startsWith(`${host}#`)
+    ).length;
+    return sameHost ? `${host}#${sameHost + 1}` : host;
+  }
+
   @Interval(15000)
   logConnectionStatus() {
     logger.debug(JSON.stringify(this.pool, null, 2));
@@ -80,8 +131,8 @@ export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, an
 
   //eslint-disable-next-line @typescript-eslint/require-await
   async getNextConnectedEndpoint(connectedEndpoints?: string[]): Promise<string | undefined> {
-    const primaryendpoint = this.getPrimaryEndpoint();
-    if (primaryendpoint !== undefined) {
+    const primaryendpoint = this.getPrimaryEndpoint(connectedEndpoints);
+    if (primaryendpoint !== undefined && !this.getRequestDelay(primaryendpoint)) {
       return primaryendpoint;
     }
 
@@ -109,39 +160,118 @@ export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, an
       return rateLimitedEndpoints[Math.floor(Math.random() * rateLimitedEndpoints.length)];
     }
 
-    // Sort indices based on their performance scores in descending order
-    endpoints.sort((a, b) => this.pool[b].performanceScore - this.pool[a].performanceScore);
-
-    // Calculate the sum of performance scores
-    const sumScores = endpoints.reduce((acc, idx) => acc + this.pool[idx].performanceScore, 0);
+    // Light endpoints don't have the entire chain state so are only used if there are no archive endpoints
+    const archiveEndpoints = endpoints.filter((endpoint) => this.pool[endpoint].role !== 'light');
+    const roleEndpoints = archiveEndpoints.length ? archiveEndpoints : endpoints;
 
-    // Calculate the cumulative probability distribution
-    const cumulativeProbs: number[] = [];
-    endpoints.forEach((idx, i) => {
-      const prevProb = i > 0 ? cumulativeProbs[i - 1] : 0;
-      cumulativeProbs[i] = prevProb + this.pool[idx].performanceScore / sumScores;
-    });
-
-    // Choose a random number between 0 and 1
-    const rand = Math.random();
+    // Endpoints at their request limits are only used if all endpoints are
+    const endpointsWithCapacity = roleEndpoints.filter((endpoint) => !this.getRequestDelay(endpoint));
+    if (endpointsWithCapacity.length === 0 && primaryendpoint !== undefined) {
+      return primaryendpoint;
+    }
+    const candidates = endpointsWithCapacity.length ? endpointsWithCapacity : roleEndpoints;
+
+    // Endpoints without a measured latency are treated as average so that they still receive requests
+    const latencies = candidates
+      .map((endpoint) => this.pool[endpoint].latency)
+      .filter((latency): latency is number => latency !== undefined);
+    const defaultLatency = latencies.length
+      ? latencies.reduce((acc, latency) => acc + latency, 0) / latencies.length
+      : 1;
+
+    // Weight endpoints by their configured weight, performance score and how fast they respond
+    const weights = candidates.map(
+      (endpoint) =>
+        ((this.pool[endpoint].weight ?? 1) * Math.max(this.pool[endpoint].performanceScore, 0)) /
+        Math.max(this.pool[endpoint].latency ?? defaultLatency, 1)
+    );
+    const sumWeights = weights.reduce((acc, weight) => acc + weight, 0);
 
-    // Find the first endpoint in the cumulative probability distribution that is greater than the random number
-    const selectedIndex = cumulativeProbs.findIndex((prob) => prob >= rand);
+    if (sumWeights === 0) {
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
 
-    // Return the corresponding endpoint from the sorted indices
-    return endpoints[selectedIndex];
+    // Choose a random point in the cumulative weights and return the endpoint it falls on
+    let rand = Math.random() * sumWeights;
+    for (let i = 0; i < candidates.length; i++) {
+      rand -= weights[i];
+      if (rand <= 0) {
+        return candidates[i];
+      }
+    }
+    return candidates[candidates.length - 1];
   }
 
-  private getPrimaryEndpoint(): string | undefined {
+  private getPrimaryEndpoint(connectedEndpoints?: string[]): string | undefined {
     return Object.keys(this.pool).find(
       (endpoint) =>
         this.pool[endpoint].primary &&
+        (!connectedEndpoints || connectedEndpoints.includes(endpoint)) &&
         !this.pool[endpoint].backoffDelay &&
         this.pool[endpoint].connected &&
         !this.pool[endpoint].failed
     );
   }
 
+  // The time in ms until a request can be made within the limits of an endpoint
+  private getRequestDelay(endpoint: string, now = Date.now()): number {
+    const {activeRequests, maxConcurrency, maxRps} = this.pool[endpoint];
+
+    if (maxConcurrency && activeRequests >= maxConcurrency) {
+      return CONCURRENCY_RETRY_DELAY;
+    }
+
+    if (maxRps) {
+      const recentRequests = this.pool[endpoint].recentRequests.filter((time) => now - time < RPS_WINDOW);
+      this.pool[endpoint].recentRequests = recentRequests;
+      if (recentRequests.length >= maxRps) {
+        return recentRequests[0] + RPS_WINDOW - now;
+      }
+    }
+
+    return 0;
+  }
+
+  //eslint-disable-next-line @typescript-eslint/require-await
+  async acquireRequest(endpoint: string, hedged = false): Promise<number | undefined> {
+    // The endpoint could have been removed from the pool
+    if (!this.pool[endpoint]) {
+      return;
+    }
+
+    const now = Date.now();
+    const delay = this.getRequestDelay(endpoint, now);
+    if (delay) {
+      return delay;
+    }
+
+    this.pool[endpoint].activeRequests++;
+    this.pool[endpoint].recentRequests.push(now);
+    if (hedged) {
+      this.pool[endpoint].hedgedRequests++;
+      const payload: EndpointHedgedRequestPayload = {endpoint: this.pool[endpoint].label};
+      this.eventEmitter?.emit(IndexerEvent.EndpointHedgedRequest, payload);
+    }
+    this.emitMetrics(endpoint);
+    return 0;
+  }
+
+  //eslint-disable-next-line @typescript-eslint/require-await
+  async releaseRequest(endpoint: string): Promise<void> {
+    if (!this.pool[endpoint]) {
+      return;
+    }
+
+    this.pool[endpoint].activeRequests = Math.max(this.pool[endpoint].activeRequests - 1, 0);
+    this.emitMetrics(endpoint);
+  }
+
+  private emitMetrics(endpoint: string): void {
+    const {activeRequests, label, latency} = this.pool[endpoint];
+    const payload: EndpointMetricsPayload = {endpoint: label, latency, activeRequests};
+    this.eventEmitter?.emit(IndexerEvent.EndpointMetrics, payload);
+  }
+
   get numConnections(): number {
     return Object.keys(this.pool).length;
   }
@@ -259,9 +389,17 @@ export class ConnectionPoolStateManager<T extends IApiConnectionSpecific<any, an
   async handleApiSuccess(endpoint: string, responseTime: number): Promise<void> {
     const performanceScore = this.pool[endpoint].performanceScore;
     const failureCount = this.pool[endpoint].failureCount;
+    const previousLatency = this.pool[endpoint].latency;
+
+    const latency =
+      previousLatency === undefined
+        ? responseTime
+        : LATENCY_EWMA_WEIGHT * responseTime + (1 - LATENCY_EWMA_WEIGHT) * previousLatency;
+    this.pool[endpoint].latency = latency;
 
-    const updatedScore = performanceScore + this.calculatePerformanceScore(responseTime, failureCount);
+    const updatedScore = performanceScore + this.calculatePerformanceScore(latency, failureCount);
     this.pool[endpoint].performanceScore = updatedScore;
+    this.emitMetrics(endpoint);
   }
 
   async handleBatchApiSuccess(successResults: Array<{endpoint: string; responseTime: number}>): Promise<void> {
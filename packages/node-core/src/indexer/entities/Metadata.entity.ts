@@ -28,6 +28,10 @@ export interface MetadataKeys {
   deployments: string;
   lastCreatedPoiHeight: number;
   latestSyncedPoiHeight: number;
+  historyPrunedHeight: number;
+  changeSink: string;
+  changeSinkHeight: number;
+  enumHistory: string;
   latestPoiWithMmr: string; // Deprecated, keep for poi migration
   lastPoiHeight: string; // Deprecated, keep for poi migration
 }
@@ -4,20 +4,19 @@
 import assert from 'assert';
 import {OnApplicationShutdown} from '@nestjs/common';
 import {EventEmitter2} from '@nestjs/event-emitter';
-import {Interval, SchedulerRegistry} from '@nestjs/schedule';
+import {SchedulerRegistry} from '@nestjs/schedule';
 import {DictionaryQueryEntry, BaseDataSource, IProjectNetworkConfig} from '@subql/types-core';
 import {range, uniq, without} from 'lodash';
 import {NodeConfig} from '../configure';
 import {IndexerEvent} from '../events';
 import {getLogger} from '../logger';
-import {checkMemoryUsage, cleanedBatchBlocks, delay, transformBypassBlocks, waitForBatchSize} from '../utils';
+import {cleanedBatchBlocks, delay, transformBypassBlocks, waitForBatchSize} from '../utils';
 import {IBlockDispatcher} from './blockDispatcher';
 import {DictionaryService} from './dictionary.service';
 import {DynamicDsService} from './dynamic-ds.service';
 import {IProjectService} from './types';
 
 const logger = getLogger('FetchService');
-const CHECK_MEMORY_INTERVAL = 60000;
 
 export abstract class BaseFetchService<
   DS extends BaseDataSource,
@@ -28,7 +27,6 @@ export abstract class BaseFetchService<
   private _latestBestHeight?: number;
   private _latestFinalizedHeight?: number;
   private isShutdown = false;
-  private batchSizeScale = 1;
   private bypassBlocks: number[] = [];
 
   protected abstract buildDictionaryQueryEntries(dataSources: DS[]): DictionaryQueryEntry[];
@@ -153,17 +151,6 @@ export abstract class BaseFetchService<
     return this.latestFinalizedHeight;
   }
 
-  @Interval(CHECK_MEMORY_INTERVAL)
-  checkBatchScale(): void {
-    if (this.nodeConfig.scaleBatchSize) {
-      const scale = checkMemoryUsage(this.batchSizeScale, this.nodeConfig);
-
-      if (this.batchSizeScale !== scale) {
-        this.batchSizeScale = scale;
-      }
-    }
-  }
-
   async getFinalizedBlockHead(): Promise<void> {
     try {
       const currentFinalizedHeight = await this.getFinalizedHeight();
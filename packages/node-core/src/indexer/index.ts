@@ -14,8 +14,10 @@ export * from './storeCache';
 export * from './worker';
 export * from './dictionary.service';
 export * from './sandbox';
+export * from './adaptiveBatch';
 export * from './smartBatch.service';
 export * from './blockDispatcher';
+export * from './changeSink';
 export * from './dynamic-ds.service';
 export * from './testing.service';
 export * from './test.runner';
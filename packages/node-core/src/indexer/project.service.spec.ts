@@ -226,4 +226,10 @@ describe('BaseProjectService', () => {
       );
     });
   });
+
+  it('does not reindex in a dry run', async () => {
+    (service as any).nodeConfig = {unsafe: false, dryRun: true, dbSchema: 'test'};
+
+    await expect(service.reindex(10)).rejects.toThrow('not supported in a dry run');
+  });
 });
@@ -8,6 +8,7 @@ import {BaseDataSource, IProjectNetworkConfig} from '@subql/types-core';
 import {Sequelize} from '@subql/x-sequelize';
 import {IApi} from '../api.service';
 import {IProjectUpgradeService, NodeConfig} from '../configure';
+import {getStorageDialect} from '../db/dialects';
 import {IndexerEvent} from '../events';
 import {getLogger} from '../logger';
 import {
@@ -125,8 +126,12 @@ export abstract class BaseProjectService<
       // Unfinalized is dependent on POI in some cases, it needs to be init after POI is init
       const reindexedUnfinalized = await this.initUnfinalizedInternal();
 
+      const reindexedChangeSink = await this.initChangeSink();
+
       // Find the new start height based on some rewinding
-      this._startHeight = Math.min(...[this._startHeight, reindexedUpgrade, reindexedUnfinalized].filter(hasValue));
+      this._startHeight = Math.min(
+        ...[this._startHeight, reindexedUpgrade, reindexedUnfinalized, reindexedChangeSink].filter(hasValue)
+      );
 
       // Set the start height so the right project is used
       await this.projectUpgradeService.setCurrentHeight(this._startHeight);
@@ -146,7 +151,9 @@ export abstract class BaseProjectService<
   }
 
   private async ensureProject(): Promise<string> {
-    let schema = await this.getExistingProjectSchema();
+    let schema = this.nodeConfig.dryRun
+      ? await this.storeService.initDryRunSchema(this.nodeConfig.dbSchema)
+      : await this.getExistingProjectSchema();
     if (!schema) {
       schema = await this.createProjectSchema();
     }
@@ -159,9 +166,10 @@ export abstract class BaseProjectService<
 
   private async createProjectSchema(): Promise<string> {
     const schema = this.nodeConfig.dbSchema;
-    const schemas = await this.sequelize.showAllSchemas({});
-    if (!(schemas as unknown as string[]).includes(schema)) {
-      await this.sequelize.createSchema(`"${schema}"`, {});
+    const dialect = await getStorageDialect(this.sequelize);
+    const schemas = await dialect.getSchemas(this.sequelize);
+    if (!schemas.includes(schema)) {
+      await dialect.createSchema(this.sequelize, schema);
     }
 
     return schema;
@@ -365,6 +373,15 @@ export abstract class BaseProjectService<
     return this.unfinalizedBlockService.init(this.reindex.bind(this));
   }
 
+  // Changes indexed while the change sink was not configured are replayed by reindexing
+  private async initChangeSink(): Promise<number | undefined> {
+    const replayHeight = await this.storeService.storeCache.initChangeSink(await this.getLastProcessedHeight());
+    if (replayHeight === undefined) return;
+
+    await this.reindex(replayHeight);
+    return replayHeight;
+  }
+
   private async initUpgradeService(): Promise<number | undefined> {
     const metadata = this.storeService.storeCache.metadata;
 
@@ -412,6 +429,12 @@ export abstract class BaseProjectService<
   }
 
   async reindex(targetBlockHeight: number): Promise<void> {
+    if (this.nodeConfig.dryRun) {
+      throw new Error(
+        `Unable to reindex to block ${targetBlockHeight}, reindexing writes to the db and is not supported in a dry run`
+      );
+    }
+
     const lastProcessedHeight = await this.getLastProcessedHeight();
 
     if (lastProcessedHeight === undefined) {
@@ -0,0 +1,39 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {AdaptiveBatchController} from './adaptiveBatch';
+import {SmartBatchService} from './smartBatch.service';
+
+describe('SmartBatchService', () => {
+  it('uses the max batch size without an adaptive batch controller', () => {
+    const service = new SmartBatchService(10);
+    service.adjustBatchSize();
+
+    expect(service.getSafeBatchSize()).toBe(10);
+  });
+
+  it('adjusts the adaptive batch size with the heap usage', () => {
+    const adaptiveBatch = new AdaptiveBatchController(10);
+    const adjust = jest.spyOn(adaptiveBatch, 'adjust');
+    const service = new SmartBatchService(10, undefined, adaptiveBatch);
+
+    service.adjustBatchSize();
+
+    expect(adjust).toHaveBeenCalledWith(expect.any(Number));
+    const heapRatio = adjust.mock.calls[0][0];
+    expect(heapRatio).toBeGreaterThan(0);
+    expect(heapRatio).toBeLessThan(1);
+  });
+
+  it('limits the batch size to the adaptive batch size', () => {
+    const adaptiveBatch = new AdaptiveBatchController(10);
+    const service = new SmartBatchService(10, undefined, adaptiveBatch);
+
+    // High heap usage reduces the batch size
+    adaptiveBatch.adjust(0.9, Date.now() + 60 * 1000);
+
+    expect(adaptiveBatch.batchSize).toBe(7);
+    expect(service.getSafeBatchSize()).toBe(7);
+    expect(service.safeBatchSizeForRemainingMemory(Number.MAX_SAFE_INTEGER)).toBe(7);
+  });
+});
@@ -3,17 +3,41 @@
 
 import {getHeapStatistics} from 'v8';
 import {Injectable} from '@nestjs/common';
+import {Interval} from '@nestjs/schedule';
 import {formatMBtoBytes} from '../utils';
 import {BlockSizeBuffer} from '../utils/blockSizeBuffer';
+import {AdaptiveBatchController} from './adaptiveBatch';
+
+const ADJUST_BATCH_SIZE_INTERVAL = 10000;
 
 @Injectable()
 export class SmartBatchService {
   private blockSizeBuffer: BlockSizeBuffer;
 
-  constructor(private maxBatchSize: number, private minHeapRequired: number = formatMBtoBytes(128)) {
+  /**
+   * @param adaptiveBatch tunes the batch size within maxBatchSize, used with --scale-batch-size
+   * */
+  constructor(
+    private maxBatchSize: number,
+    private minHeapRequired: number = formatMBtoBytes(128),
+    readonly adaptiveBatch?: AdaptiveBatchController
+  ) {
     this.blockSizeBuffer = new BlockSizeBuffer(maxBatchSize);
   }
 
+  private get batchSize(): number {
+    return Math.min(this.adaptiveBatch?.batchSize ?? this.maxBatchSize, this.maxBatchSize);
+  }
+
+  @Interval(ADJUST_BATCH_SIZE_INTERVAL)
+  adjustBatchSize(): void {
+    if (!this.adaptiveBatch) {
+      return;
+    }
+    const {heap_size_limit, used_heap_size} = getHeapStatistics();
+    this.adaptiveBatch.adjust(used_heap_size / heap_size_limit);
+  }
+
   get minimumHeapRequired(): number {
     return this.minHeapRequired;
   }
@@ -86,7 +110,7 @@ export class SmartBatchService {
     try {
       averageBlockSize = this.blockSizeBuffer.average();
     } catch (e) {
-      return this.maxBatchSize;
+      return this.batchSize;
     }
 
     const heapleft = this.heapMemoryLimit() - heapUsed;
@@ -97,7 +121,7 @@ export class SmartBatchService {
     }
 
     const safeBatchSize = Math.floor(heapleft / averageBlockSize);
-    return Math.min(safeBatchSize, this.maxBatchSize);
+    return Math.min(safeBatchSize, this.batchSize);
   }
 
   safeBatchSizeForRemainingMemory(memLeft: number): number {
@@ -106,10 +130,10 @@ export class SmartBatchService {
     try {
       averageBlockSize = this.blockSizeBuffer.average();
     } catch (e) {
-      return this.maxBatchSize;
+      return this.batchSize;
     }
 
     const safeBatchSize = Math.floor(memLeft / averageBlockSize);
-    return Math.min(safeBatchSize, this.maxBatchSize);
+    return Math.min(safeBatchSize, this.batchSize);
   }
 }
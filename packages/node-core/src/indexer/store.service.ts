@@ -2,13 +2,14 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import assert from 'assert';
-import {Inject, Injectable} from '@nestjs/common';
-import {getDbType, SUPPORT_DB} from '@subql/common';
+import {Inject, Injectable, OnApplicationShutdown} from '@nestjs/common';
 import {IProjectNetworkConfig} from '@subql/types-core';
 import {
+  GraphQLFullTextType,
   GraphQLModelsRelationsEnums,
   GraphQLModelsType,
   GraphQLRelationsType,
+  getMetadataTableName,
   hashName,
   IndexType,
   METADATA_REGEX,
@@ -29,26 +30,36 @@ import {
   Transaction,
   Utils,
 } from '@subql/x-sequelize';
-import {camelCase, flatten, isEqual, upperFirst} from 'lodash';
+import {camelCase, flatten, upperFirst} from 'lodash';
 import {NodeConfig} from '../configure';
+import {getStorageDialect, IndexField, StorageDialect} from '../db/dialects';
+import {diffSchema, EnumState, MigrationStep, SchemaMigration, updateEnumHistory} from '../db/migrations';
 import {getLogger} from '../logger';
 import {
   addTagsToForeignKeyMap,
   BTREE_GIST_EXTENSION_EXIST_QUERY,
-  camelCaseObjectKey,
   commentConstraintQuery,
   commentTableQuery,
+  computedComment,
   constraintDeferrableQuery,
+  createComputedColumnQueries,
+  createFullTextColumnQueries,
+  createFullTextIndexQuery,
+  createInterfaceViewQueries,
   createNotifyTrigger,
   createSchemaTrigger,
   createSchemaTriggerFunction,
   createSendNotificationTriggerFunction,
-  createUniqueIndexQuery,
+  dropColumnIfExistsQuery,
+  dropComputedExpressionQueries,
+  dropFullTextColumnQuery,
   dropNotifyFunction,
   dropNotifyTrigger,
-  enumNameToHash,
-  getEnumDeprecated,
-  getExistedIndexesQuery,
+  dropViewQuery,
+  FULL_TEXT_COLUMN,
+  fullTextComment,
+  getColumnComment,
+  getComputedColumns,
   getFkConstraint,
   getTriggers,
   getVirtualFkTag,
@@ -56,7 +67,7 @@ import {
   SmartTags,
   smartTags,
 } from '../utils';
-import {generateIndexName, modelToTableName} from '../utils/sequelizeUtil';
+import {generateIndexName, getIndexPredicate, modelToTableName} from '../utils/sequelizeUtil';
 import {MetadataFactory, MetadataRepo, PoiFactory, PoiFactoryDeprecate, PoiRepo} from './entities';
 import {Store} from './store';
 import {CacheMetadataModel} from './storeCache';
@@ -70,13 +81,6 @@ const NotifyTriggerManipulationType = [`INSERT`, `DELETE`, `UPDATE`];
 
 type RemovedIndexes = Record<string, IndexesOptions[]>;
 
-interface IndexField {
-  entityName: string;
-  fieldName: string;
-  isUnique: boolean;
-  type: string;
-}
-
 interface NotifyTriggerPayload {
   triggerName: string;
   eventManipulation: string;
@@ -89,15 +93,17 @@ class NoInitError extends Error {
 }
 
 @Injectable()
-export class StoreService {
+export class StoreService implements OnApplicationShutdown {
   poiRepo?: PoiRepo;
   private removedIndexes: RemovedIndexes = {};
   private _modelIndexedFields?: IndexField[];
   private _modelsRelations?: GraphQLModelsRelationsEnums;
   private _metaDataRepo?: MetadataRepo;
   private _historical?: boolean;
-  private _dbType?: SUPPORT_DB;
+  private _dialect?: StorageDialect;
   private _metadataModel?: CacheMetadataModel;
+  // The schema created for a dry run of a project that hasn't been indexed
+  private dryRunSchema?: string;
 
   // Should be updated each block
   private _blockHeight?: number;
@@ -143,9 +149,9 @@ export class StoreService {
     return this._historical;
   }
 
-  private get dbType(): SUPPORT_DB {
-    assert(this._dbType, new NoInitError());
-    return this._dbType;
+  private get dialect(): StorageDialect {
+    assert(this._dialect, new NoInitError());
+    return this._dialect;
   }
 
   private get metadataModel(): CacheMetadataModel {
@@ -153,9 +159,53 @@ export class StoreService {
     return this._metadataModel;
   }
 
+  /**
+   * A dry run reads the existing state of the project without writing to its schema.
+   * If the project hasn't been indexed there is nothing to read, so the tables are created in a temporary schema that is dropped on shutdown.
+   * @returns the schema to index into
+   * */
+  async initDryRunSchema(schema: string): Promise<string> {
+    const dialect = await getStorageDialect(this.sequelize);
+    const schemas = await dialect.getSchemas(this.sequelize);
+    if (schemas.includes(schema)) {
+      const metadataTable = this.config.multiChain
+        ? getMetadataTableName(this.subqueryProject.network.chainId)
+        : '_metadata';
+      const tables = await dialect.getTableNames(this.sequelize, schema);
+      if (tables.includes(metadataTable)) {
+        return schema;
+      }
+    }
+
+    const dryRunSchema = `${schema}_dry_run`;
+    logger.info(`Project has not been indexed, dry run tables are created in the temporary schema ${dryRunSchema}`);
+    // Remove any tables left from a dry run that didn't shut down
+    await dialect.dropSchema(this.sequelize, dryRunSchema);
+    await dialect.createSchema(this.sequelize, dryRunSchema);
+    this.dryRunSchema = dryRunSchema;
+    return dryRunSchema;
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    if (!this.dryRunSchema) return;
+    await this.dialect.dropSchema(this.sequelize, this.dryRunSchema);
+    logger.info(`Dropped the temporary dry run schema ${this.dryRunSchema}`);
+    this.dryRunSchema = undefined;
+  }
+
+  // Nothing is written to the project schema in a dry run, only to the temporary schema
+  private get readOnly(): boolean {
+    return this.config.dryRun && !this.dryRunSchema;
+  }
+
   // Initialize tables and data that isnt' specific to the users data
   async initCoreTables(schema: string): Promise<void> {
+    this._dialect = await getStorageDialect(this.sequelize);
+
     if (this.config.proofOfIndex) {
+      if (!this.dialect.supportsProofOfIndex) {
+        throw new Error(`Proof of index is not supported with ${this.dialect.dbType}`);
+      }
       const usePoiFactory = (await this.useDeprecatePoi(schema)) ? PoiFactoryDeprecate : PoiFactory;
       this.poiRepo = usePoiFactory(this.sequelize, schema);
     }
@@ -167,18 +217,14 @@ export class StoreService {
       this.subqueryProject.network.chainId
     );
 
-    this._dbType = await getDbType(this.sequelize);
-
-    await this.sequelize.sync();
-
-    this._historical = await this.getHistoricalStateEnabled(schema);
-    if (this.historical && this.dbType === SUPPORT_DB.cockRoach) {
-      this._historical = false;
-      logger.warn(`Historical feature is not supported with ${this.dbType}`);
+    if (!this.readOnly) {
+      await this.sequelize.sync();
     }
+
+    this._historical = await this.resolveHistorical(schema);
     logger.info(`Historical state is ${this.historical ? 'enabled' : 'disabled'}`);
 
-    this.storeCache.init(this.historical, this.dbType === SUPPORT_DB.cockRoach, this.metaDataRepo, this.poiRepo);
+    this.storeCache.init(this.historical, this.dialect, this.metaDataRepo, this.poiRepo);
 
     this._metadataModel = this.storeCache.metadata;
 
@@ -195,6 +241,10 @@ export class StoreService {
       logger.error(e, `Having a problem when syncing schema`);
       process.exit(1);
     }
+    if (this.historical) {
+      this.storeCache.setHistoryRetention(this.getHistoryRetention());
+    }
+    this.storeCache.setBigIntFields(this.getBigIntFields());
     try {
       this._modelIndexedFields = await this.getAllIndexFields(schema);
     } catch (e: any) {
@@ -204,8 +254,11 @@ export class StoreService {
   }
 
   async initHotSchemaReloadQueries(schema: string): Promise<void> {
-    if (this.dbType === SUPPORT_DB.cockRoach) {
-      logger.warn(`Hot schema reload feature is not supported with ${this.dbType}`);
+    if (this.config.dryRun) {
+      return;
+    }
+    if (!this.dialect.supportsTriggers) {
+      logger.warn(`Hot schema reload feature is not supported with ${this.dialect.dbType}`);
       return;
     }
 
@@ -228,11 +281,97 @@ export class StoreService {
     }
   }
 
-  // eslint-disable-next-line complexity
   async syncSchema(schema: string, useSubscription: boolean): Promise<void> {
-    if (useSubscription && this.dbType === SUPPORT_DB.cockRoach) {
+    const {enums, migration} = await this.planMigration(schema, useSubscription);
+    if (this.readOnly) {
+      this.logDryRunMigration(migration);
+      return;
+    }
+    await this.migrateSchema(migration);
+    await this.recordEnumHistory(enums);
+
+    await this.sequelize.sync();
+
+    this.afterHandleCockroachIndex();
+  }
+
+  // The migration includes the queries that are run before and after the tables are migrated
+  private async planMigration(
+    schema: string,
+    useSubscription: boolean
+  ): Promise<{enums: EnumState[]; migration: SchemaMigration}> {
+    const {enums, extraQueries, models} = await this.defineModels(schema, useSubscription);
+    const views = await this.dialect.getInterfaceViews(this.sequelize, schema);
+    const {steps} = await diffSchema(this.sequelize, this.dialect, schema, models, enums);
+
+    const before: MigrationStep[] = views.length
+      ? [
+          {
+            // Interface views depend on the entity tables, they are recreated after the tables have been migrated
+            description: `Drop interface views ${views.join(', ')}`,
+            risk: 'safe',
+            queries: views.map((view) => dropViewQuery(`"${schema}"."${view}"`)),
+            phase: 'before',
+          },
+        ]
+      : [];
+    const after: MigrationStep[] = extraQueries.length
+      ? [
+          {
+            description:
+              'Update enum and relation comments, unique indexes, full text search, computed columns, notification triggers and interface views',
+            risk: 'safe',
+            queries: extraQueries,
+            phase: 'after',
+          },
+        ]
+      : [];
+
+    const migration = new SchemaMigration([...before, ...steps, ...after]);
+    return {enums, migration};
+  }
+
+  // The models are still defined so that entities can be read from the existing tables
+  private logDryRunMigration(migration: SchemaMigration): void {
+    // The queries after the migration are always present, they don't change the tables
+    const pending = new SchemaMigration(migration.steps.filter((step) => step.phase !== 'after'));
+    if (!pending.steps.length) return;
+
+    logger.warn(
+      `Dry run, the schema migration has not been applied and entities are read from the existing tables:\n${pending.describe()}`
+    );
+  }
+
+  // Keeps track of removed and renamed enum values so the query service can still accept them
+  private async recordEnumHistory(enums: EnumState[]): Promise<void> {
+    const history = await this.metadataModel.find('enumHistory');
+    const enumHistory = updateEnumHistory(history ? JSON.parse(history) : {}, enums);
+    if (history || Object.keys(enumHistory).length) {
+      this.metadataModel.set('enumHistory', JSON.stringify(enumHistory));
+    }
+  }
+
+  /**
+   * Plans the migration from the schema in the db to the project schema without making any changes to the db
+   * */
+  async planSchemaMigration(modelsRelations: GraphQLModelsRelationsEnums, schema: string): Promise<SchemaMigration> {
+    this._dialect = await getStorageDialect(this.sequelize);
+    this._historical = await this.resolveHistorical(schema);
+    this._modelsRelations = modelsRelations;
+
+    const {migration} = await this.planMigration(schema, this.config.subscription);
+    return migration;
+  }
+
+  // Defines the sequelize models for the project schema, queries that need to run after the tables are synced are returned
+  // eslint-disable-next-line complexity
+  private async defineModels(
+    schema: string,
+    useSubscription: boolean
+  ): Promise<{enums: EnumState[]; extraQueries: string[]; models: ModelStatic<any>[]}> {
+    if (useSubscription && !this.dialect.supportsTriggers) {
       useSubscription = false;
-      logger.warn(`Subscription is not support with ${this.dbType}`);
+      logger.warn(`Subscription is not support with ${this.dialect.dbType}`);
     }
 
     const enumTypeMap = new Map<string, string>();
@@ -243,74 +382,35 @@ export class StoreService {
       }
     }
 
-    const [indexesResult] = await this.sequelize.query(getExistedIndexesQuery(schema));
-    const existedIndexes = indexesResult.map((i) => (i as any).indexname);
+    const existedIndexes = await this.dialect.getExistingIndexes(this.sequelize, schema);
 
+    const extraQueries: string[] = [];
+    const enums: EnumState[] = [];
     for (const e of this.modelsRelations.enums) {
-      // We shouldn't set the typename to e.name because it could potentially create SQL injection,
-      // using a replacement at the type name location doesn't work.
-      const enumTypeName = enumNameToHash(e.name);
-      let type = `"${schema}"."${enumTypeName}"`;
-      let [results] = await this.sequelize.query(
-        `SELECT pg_enum.enumlabel as enum_value
-         FROM pg_type t JOIN pg_enum ON pg_enum.enumtypid = t.oid JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
-         WHERE t.typname = ? AND n.nspname = ? order by enumsortorder;`,
-        {replacements: [enumTypeName, schema]}
-      );
-
-      const enumTypeNameDeprecated = `${schema}_enum_${enumNameToHash(e.name)}`;
-      const resultsDeprecated = await getEnumDeprecated(this.sequelize, enumTypeNameDeprecated);
-      if (resultsDeprecated.length !== 0) {
-        results = resultsDeprecated;
-        type = `"${enumTypeNameDeprecated}"`;
+      const enumType = await this.dialect.getEnum(this.sequelize, schema, e);
+      // Enums without a type are stored as text
+      if (enumType === undefined) continue;
+
+      enums.push({...enumType, enum: e});
+      enumTypeMap.set(e.name, enumType.type);
+      const comment = this.dialect.commentEnumQuery(this.sequelize, enumType.type, e);
+      if (comment) {
+        extraQueries.push(comment);
       }
-
-      if (results.length === 0) {
-        await this.sequelize.query(`CREATE TYPE ${type} as ENUM (${e.values.map(() => '?').join(',')});`, {
-          replacements: e.values,
-        });
-      } else {
-        const currentValues = results.map((v: any) => v.enum_value);
-        // Assert the existing enum is same
-
-        // Make it a function to not execute potentially big joins unless needed
-        if (!isEqual(e.values, currentValues)) {
-          throw new Error(
-            `\n * Can't modify enum "${e.name}" between runs: \n * Before: [${currentValues.join(
-              `,`
-            )}] \n * After : [${e.values.join(',')}] \n * You must rerun the project to do such a change`
-          );
-        }
-      }
-      // Ref: https://www.graphile.org/postgraphile/enums/
-      // Example query for enum name: COMMENT ON TYPE "polkadot-starter_enum_a40fe73329" IS E'@enum\n@enumName TestEnum'
-      // It is difficult for sequelize use replacement, instead we use escape to avoid injection
-      // UPDATE: this comment got syntax error with cockroach db, disable it for now. Waiting to be fixed.
-      // See https://github.com/cockroachdb/cockroach/issues/44135
-
-      if (this.dbType === SUPPORT_DB.cockRoach) {
-        logger.warn(
-          `Comment on enum ${e.description} is not supported with ${this.dbType}, enum name may display incorrectly in query service`
-        );
-      } else {
-        const comment = this.sequelize.escape(
-          `@enum\\n@enumName ${e.name}${e.description ? `\\n ${e.description}` : ''}`
-        );
-        await this.sequelize.query(`COMMENT ON TYPE ${type} IS E${comment}`);
-      }
-      enumTypeMap.set(e.name, type);
     }
-    const extraQueries = [];
     // Function need to create ahead of triggers
     if (useSubscription) {
       extraQueries.push(createSendNotificationTriggerFunction(schema));
     }
+    const sequelizeModels: ModelStatic<any>[] = [];
     for (const model of this.modelsRelations.models) {
       const attributes = modelsTypeToModelAttributes(model, enumTypeMap);
-      const indexes = model.indexes.map(({fields, unique, using}) => ({
+      const indexes = model.indexes.map(({fields, unique, using, where}) => ({
         fields: fields.map((field) => Utils.underscoredIf(field, true)),
         unique,
         using,
+        // Predicates are SQL so they are used as they are
+        where: where === undefined ? undefined : new Utils.Literal(where),
       }));
       if (indexes.length > this.config.indexCountLimit) {
         throw new Error(`too many indexes on entity ${model.name}`);
@@ -323,10 +423,14 @@ export class StoreService {
       // Hash indexes name to ensure within postgres limit
       // Also check with existed indexes for previous logic, if existed index is valid then ignore it.
       // only update index name as it is new index or not found (it is might be an over length index name)
-      this.updateIndexesName(model.name, indexes, existedIndexes as string[]);
+      this.updateIndexesName(model.name, indexes, existedIndexes);
+      if (this.historical) {
+        this.addHistoryPruneIndex(model, indexes);
+      }
+      this.addCollatedTextIndexes(model, indexes);
 
       // Update index query for cockroach db
-      this.beforeHandleCockroachIndex(schema, model.name, indexes, existedIndexes as string[], extraQueries);
+      this.beforeHandleCockroachIndex(schema, model.name, indexes, existedIndexes, extraQueries);
 
       const sequelizeModel = this.sequelize.define(model.name, attributes, {
         underscored: true,
@@ -337,6 +441,31 @@ export class StoreService {
         schema,
         indexes,
       });
+      sequelizeModels.push(sequelizeModel);
+
+      // Computed fields are generated by the db, they are removed from the model once the column type is known
+      const computedColumns = model.fields
+        .filter((field) => field.computed !== undefined)
+        .map(({computed, name}) => {
+          const attribute = sequelizeModel.getAttributes()[name];
+          sequelizeModel.removeAttribute(name);
+          return {
+            column: attribute.field ?? Utils.underscoredIf(name, true),
+            type: typeof attribute.type === 'string' ? attribute.type : (attribute.type as {toSql(): string}).toSql(),
+            sql: computed as string,
+          };
+        });
+      if (this.dialect.supportsComputedColumns) {
+        extraQueries.push(...(await this.getComputedQueries(schema, sequelizeModel, computedColumns)));
+      } else if (computedColumns.length) {
+        logger.warn(`Computed fields on ${model.name} are not supported with ${this.dialect.dbType}`);
+      }
+
+      if (this.dialect.supportsFullTextSearch) {
+        extraQueries.push(...(await this.getFullTextQueries(schema, sequelizeModel.tableName, model.fullText)));
+      } else if (model.fullText) {
+        logger.warn(`Full text search on ${model.name} is not supported with ${this.dialect.dbType}`);
+      }
 
       if (this.historical) {
         this.addScopeAndBlockHeightHooks(sequelizeModel);
@@ -355,13 +484,13 @@ export class StoreService {
         }
       } else {
         //TODO: DROP TRIGGER IF EXIST is not valid syntax for cockroach, better check trigger exist at first.
-        if (this.dbType !== SUPPORT_DB.cockRoach) {
+        if (this.dialect.supportsTriggers) {
           extraQueries.push(dropNotifyTrigger(schema, sequelizeModel.tableName));
         }
       }
     }
     // We have to drop the function after all triggers depend on it are removed
-    if (!useSubscription && this.dbType !== SUPPORT_DB.cockRoach) {
+    if (!useSubscription && this.dialect.supportsTriggers) {
       extraQueries.push(dropNotifyFunction(schema));
     }
 
@@ -377,7 +506,7 @@ export class StoreService {
         case 'belongsTo': {
           const rel = model.belongsTo(relatedModel, {foreignKey: relation.foreignKey});
           const fkConstraint = getFkConstraint(rel.source.tableName, rel.foreignKey);
-          if (this.dbType !== SUPPORT_DB.cockRoach) {
+          if (this.dialect.supportsDeferrableConstraints) {
             extraQueries.push(constraintDeferrableQuery(model.getTableName().toString(), fkConstraint));
           }
           break;
@@ -390,10 +519,10 @@ export class StoreService {
           const tags = smartTags({
             singleForeignFieldName: relation.fieldName,
           });
-          extraQueries.push(
-            commentConstraintQuery(`"${schema}"."${rel.target.tableName}"`, fkConstraint, tags),
-            createUniqueIndexQuery(schema, relatedModel.tableName, relation.foreignKey)
-          );
+          if (this.dialect.supportsComments) {
+            extraQueries.push(commentConstraintQuery(`"${schema}"."${rel.target.tableName}"`, fkConstraint, tags));
+          }
+          extraQueries.push(this.dialect.uniqueIndexQuery(schema, relatedModel.tableName, relation.foreignKey));
           break;
         }
         case 'hasMany': {
@@ -404,10 +533,25 @@ export class StoreService {
           const tags = smartTags({
             foreignFieldName: relation.fieldName,
           });
-          extraQueries.push(commentConstraintQuery(`"${schema}"."${rel.target.tableName}"`, fkConstraint, tags));
+          if (this.dialect.supportsComments) {
+            extraQueries.push(commentConstraintQuery(`"${schema}"."${rel.target.tableName}"`, fkConstraint, tags));
+          }
 
           break;
         }
+        // The join entity has belongsTo relations, this names the connection of the related entities
+        case 'manyToMany': {
+          assert(relation.through && relation.otherKey, 'Many to many relation is missing its join entity');
+          const joinTable = modelToTableName(relation.through);
+          const fkConstraint = getFkConstraint(joinTable, relation.otherKey);
+          const tags = smartTags({
+            manyToManyFieldName: relation.fieldName,
+          });
+          if (this.dialect.supportsComments) {
+            extraQueries.push(commentConstraintQuery(`"${schema}"."${joinTable}"`, fkConstraint, tags));
+          }
+          break;
+        }
         default:
           throw new Error('Relation type is not supported');
       }
@@ -420,13 +564,98 @@ export class StoreService {
       extraQueries.push(query);
     });
 
-    await this.sequelize.sync();
+    for (const {fields, implementations, name} of this.modelsRelations.interfaces) {
+      if (!this.dialect.supportsInterfaceViews) {
+        logger.warn(`Interface ${name} is not supported with ${this.dialect.dbType}`);
+        continue;
+      }
+      const columns = fields.map((field) => Utils.underscoredIf(field.name, true));
+      // Ids are the primary key of the view so they need to be unique across the implementing entities
+      if (!columns.includes('id')) {
+        columns.unshift('id');
+      }
+      if (this.historical) {
+        columns.push('_id', '_block_range');
+      }
+      const tables = implementations.map((entity) => ({
+        entity,
+        table: this.dialect.quoteTable(this.sequelize, this.sequelize.model(entity).getTableName()),
+      }));
+      extraQueries.push(
+        ...createInterfaceViewQueries(
+          `"${schema}"."${modelToTableName(name)}"`,
+          tables,
+          columns,
+          this.historical ? '_id' : 'id'
+        )
+      );
+    }
 
-    for (const query of extraQueries) {
-      await this.sequelize.query(query);
+    return {enums, extraQueries, models: sequelizeModels};
+  }
+
+  // Generated columns are only recreated when the expression changes
+  private async getComputedQueries(
+    schema: string,
+    model: ModelStatic<any>,
+    columns: {column: string; type: string; sql: string}[]
+  ): Promise<string[]> {
+    const table = `"${schema}"."${model.tableName}"`;
+    const existing = await getComputedColumns(this.sequelize, schema, model.tableName);
+    const modelColumns = Object.entries(model.getAttributes()).map(([name, attribute]) => attribute.field ?? name);
+
+    const queries = columns.flatMap(({column, sql, type}) =>
+      existing[column] === computedComment(sql) ? [] : createComputedColumnQueries(table, column, type, sql)
+    );
+    for (const column of Object.keys(existing)) {
+      if (columns.some((c) => c.column === column)) continue;
+      queries.push(
+        ...(modelColumns.includes(column)
+          ? dropComputedExpressionQueries(table, column)
+          : [dropColumnIfExistsQuery(table, column)])
+      );
     }
+    return queries;
+  }
 
-    this.afterHandleCockroachIndex();
+  // The full text search column is only recreated when the fields or language change
+  private async getFullTextQueries(
+    schema: string,
+    tableName: string,
+    fullText?: GraphQLFullTextType
+  ): Promise<string[]> {
+    const table = `"${schema}"."${tableName}"`;
+    const comment = await getColumnComment(this.sequelize, schema, tableName, FULL_TEXT_COLUMN);
+    if (!fullText) {
+      return comment === undefined ? [] : [dropFullTextColumnQuery(table)];
+    }
+
+    const {fields, language} = fullText;
+    return [
+      ...(comment === fullTextComment(fields, language) ? [] : createFullTextColumnQueries(table, fields, language)),
+      createFullTextIndexQuery(schema, tableName),
+    ];
+  }
+
+  private async migrateSchema(migration: SchemaMigration): Promise<void> {
+    const {destructiveSteps, steps} = migration;
+    if (destructiveSteps.length && !this.config.allowDestructiveMigrations) {
+      throw new Error(
+        `Schema changes require destructive migrations, use --allow-destructive-migrations to apply them or reindex the project:\n${destructiveSteps
+          .map((step) => ` * ${step.description}`)
+          .join('\n')}`
+      );
+    }
+
+    for (const step of steps) {
+      // The queries after the migration are run every time to keep comments, triggers and views up to date
+      if (step.phase === 'after') {
+        logger.debug(`Schema migration: ${step.description}`);
+      } else {
+        logger.info(`Schema migration: ${step.description}`);
+      }
+    }
+    await migration.apply(this.sequelize);
   }
 
   private async useDeprecatePoi(schema: string): Promise<boolean> {
@@ -435,16 +664,42 @@ export class StoreService {
     return !!result.length;
   }
 
+  // Entities without a retention from the schema or config keep all historical versions
+  private getHistoryRetention(): Record<string, number> {
+    const retention: Record<string, number> = {};
+    for (const model of this.modelsRelations.models) {
+      const blocks = model.historyRetention ?? this.config.historyRetention;
+      if (blocks !== undefined) {
+        retention[model.name] = blocks;
+      }
+    }
+    return retention;
+  }
+
+  private getBigIntFields(): Record<string, string[]> {
+    const fields: Record<string, string[]> = {};
+    for (const model of this.modelsRelations.models) {
+      fields[model.name] = model.fields.filter((f) => f.type === 'BigInt' && !f.isArray).map((f) => f.name);
+    }
+    return fields;
+  }
+
+  private async resolveHistorical(schema: string): Promise<boolean> {
+    const historical = await this.getHistoricalStateEnabled(schema);
+    if (historical && !this.dialect.supportsHistorical) {
+      logger.warn(`Historical feature is not supported with ${this.dialect.dbType}`);
+      return false;
+    }
+    return historical;
+  }
+
   async getHistoricalStateEnabled(schema: string): Promise<boolean> {
     const {disableHistorical, multiChain} = this.config;
 
     try {
-      const tableRes = await this.sequelize.query<Array<string>>(
-        `SELECT table_name FROM information_schema.tables where table_schema='${schema}'`,
-        {type: QueryTypes.SELECT}
-      );
+      const tableNames = await this.dialect.getTableNames(this.sequelize, schema);
 
-      const metadataTableNames = flatten(tableRes).filter(
+      const metadataTableNames = tableNames.filter(
         (value: string) => METADATA_REGEX.test(value) || MULTI_METADATA_REGEX.test(value)
       );
 
@@ -456,8 +711,9 @@ export class StoreService {
       }
 
       if (metadataTableNames.length === 1) {
+        const metadataTable = this.dialect.quoteTable(this.sequelize, {tableName: metadataTableNames[0], schema});
         const res = await this.sequelize.query<{key: string; value: boolean | string}>(
-          `SELECT key, value FROM "${schema}"."${metadataTableNames[0]}" WHERE (key = 'historicalStateEnabled' OR key = 'genesisHash')`,
+          `SELECT key, value FROM ${metadataTable} WHERE (key = 'historicalStateEnabled' OR key = 'genesisHash')`,
           {type: QueryTypes.SELECT}
         );
 
@@ -490,15 +746,19 @@ export class StoreService {
 
   private addBlockRangeColumnToIndexes(indexes: IndexesOptions[]): void {
     indexes.forEach((index) => {
-      if (index.using === IndexType.GIN) {
+      // Json and single column indexes can't include the block range
+      if (index.using === IndexType.GIN || index.using === IndexType.SPGIST) {
         return;
       }
       if (!index.fields) {
         index.fields = [];
       }
       index.fields.push('_block_range');
-      index.using = IndexType.GIST;
-      // GIST does not support unique indexes
+      // BRIN supports range columns, other types use GIST
+      if (index.using !== IndexType.BRIN) {
+        index.using = IndexType.GIST;
+      }
+      // GIST and BRIN do not support unique indexes
       index.unique = false;
     });
   }
@@ -514,15 +774,16 @@ export class StoreService {
     existedIndexes: string[],
     extraQueries: string[]
   ): void {
-    if (this.dbType !== SUPPORT_DB.cockRoach) {
+    if (this.dialect.supportsHashIndexes) {
       return;
     }
     indexes.forEach((index, i) => {
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
       if (index.using === IndexType.HASH && !existedIndexes.includes(index.name!)) {
+        const where = getIndexPredicate(index);
         const cockroachDbIndexQuery = `CREATE INDEX "${index.name}" ON "${schema}"."${modelToTableName(modelName)}"(${
           index.fields
-        }) USING HASH;`;
+        }) USING HASH${where ? ` WHERE ${where}` : ''};`;
         extraQueries.push(cockroachDbIndexQuery);
         if (this.removedIndexes[modelName] === undefined) {
           this.removedIndexes[modelName] = [];
@@ -536,7 +797,7 @@ export class StoreService {
   // Due to we have removed hash index, it will be missing from the model, we need temp store it under `this.removedIndexes`
   // And force add back to the model use `afterHandleCockroachIndex()` after db is synced
   private afterHandleCockroachIndex(): void {
-    if (this.dbType !== SUPPORT_DB.cockRoach) {
+    if (this.dialect.supportsHashIndexes) {
       return;
     }
     const removedIndexes = Object.entries(this.removedIndexes);
@@ -556,7 +817,9 @@ export class StoreService {
 
       if (!existedIndexes.includes(deprecated)) {
         const fields = (index.fields ?? []).join('_');
-        index.name = blake2AsHex(`${modelName}_${fields}`, 64).substring(0, 63);
+        // Partial indexes can have the same fields as other indexes
+        const where = getIndexPredicate(index);
+        index.name = blake2AsHex(`${modelName}_${fields}${where ? `_${where}` : ''}`, 64).substring(0, 63);
       }
     });
   }
@@ -572,6 +835,43 @@ export class StoreService {
     }
   }
 
+  // Pruning historical versions finds them by the end of their block range
+  private addHistoryPruneIndex(model: GraphQLModelsType, indexes: IndexesOptions[]): void {
+    if ((model.historyRetention ?? this.config.historyRetention) === undefined) return;
+    indexes.push({
+      name: blake2AsHex(`${model.name}_upper__block_range`, 64).substring(0, 63),
+      fields: [this.sequelize.fn('upper', this.sequelize.col('_block_range'))],
+    });
+  }
+
+  // The store orders and compares text with the dialect collation, these indexes let those queries avoid a sort.
+  // The indexes with the default collation are kept for the query service
+  private addCollatedTextIndexes(model: GraphQLModelsType, indexes: IndexesOptions[]): void {
+    const collate = this.dialect.textCollation;
+    if (!collate) return;
+    const textFields = model.fields
+      .filter(
+        ({dbType, isArray, isEnum, type}) => (type === 'ID' || type === 'String') && !isArray && !isEnum && !dbType
+      )
+      .map(({name}) => name);
+    const textIndexes = [
+      {fields: ['id'], where: undefined},
+      ...model.indexes.filter(
+        ({fields, using}) =>
+          (using === undefined || using === IndexType.BTREE) && fields.some((field) => textFields.includes(field))
+      ),
+    ];
+    for (const {fields, where} of textIndexes) {
+      const columns = fields.map((field) => Utils.underscoredIf(field, true));
+      const name = `${model.name}_${columns.join('_')}${where ? `_${where}` : ''}_${collate}`;
+      indexes.push({
+        name: blake2AsHex(name, 64).substring(0, 63),
+        fields: fields.map((field, i) => (textFields.includes(field) ? {name: columns[i], collate} : columns[i])),
+        where: where === undefined ? undefined : new Utils.Literal(where),
+      });
+    }
+  }
+
   private addRelationToMap(
     relation: GraphQLRelationsType,
     foreignKeys: Map<string, Map<string, SmartTags>>,
@@ -597,6 +897,13 @@ export class StoreService {
         });
         break;
       }
+      case 'manyToMany': {
+        assert(relation.through && relation.otherKey, 'Many to many relation is missing its join entity');
+        addTagsToForeignKeyMap(foreignKeys, modelToTableName(relation.through), relation.otherKey, {
+          manyToManyFieldName: relation.fieldName,
+        });
+        break;
+      }
       default:
         throw new Error('Relation type is not supported');
     }
@@ -625,6 +932,10 @@ export class StoreService {
     });
 
     sequelizeModel.addHook('beforeFind', (options) => {
+      // Historical lookups provide their own block height
+      if ((options.where as any).__block_range !== undefined) {
+        return;
+      }
       (options.where as any).__block_range = {
         [Op.contains]: this.blockHeight as any,
       };
@@ -648,8 +959,11 @@ export class StoreService {
   }
 
   setBlockHeight(blockHeight: number): void {
+    if (this.config.dryRun && this.operationStack && this._blockHeight !== undefined) {
+      logger.debug(`Dry run block ${this._blockHeight}: ${this.operationStack.describe()}`);
+    }
     this._blockHeight = blockHeight;
-    if (this.config.proofOfIndex) {
+    if (this.config.proofOfIndex || this.config.dryRun) {
       this.operationStack = new StoreOperations(this.modelsRelations.models);
     }
   }
@@ -671,45 +985,12 @@ export class StoreService {
     const fields: IndexField[][] = [];
     for (const entity of this.modelsRelations.models) {
       const model = this.sequelize.model(entity.name);
-      const tableFields = await this.packEntityFields(schema, entity.name, model.tableName);
+      const tableFields = await this.dialect.getIndexedFields(this.sequelize, schema, entity.name, model.tableName);
       fields.push(tableFields);
     }
     return flatten(fields);
   }
 
-  private async packEntityFields(schema: string, entity: string, table: string): Promise<IndexField[]> {
-    const rows = await this.sequelize.query(
-      `select
-    '${entity}' as entity_name,
-    a.attname as field_name,
-    idx.indisunique as is_unique,
-    am.amname as type
-from
-    pg_index idx
-    JOIN pg_class cls ON cls.oid=idx.indexrelid
-    JOIN pg_class tab ON tab.oid=idx.indrelid
-    JOIN pg_am am ON am.oid=cls.relam,
-    pg_namespace n,
-    pg_attribute a
-where
-  n.nspname = '${schema}'
-  and tab.relname = '${table}'
-  and a.attrelid = tab.oid
-  and a.attnum = ANY(idx.indkey)
-  and not idx.indisprimary
-group by
-    n.nspname,
-    a.attname,
-    tab.relname,
-    idx.indisunique,
-    am.amname`,
-      {
-        type: QueryTypes.SELECT,
-      }
-    );
-    return rows.map((result) => camelCaseObjectKey(result)) as IndexField[];
-  }
-
   /**
    * rollback db that is newer than ${targetBlockHeight} (exclusive)
    * set metadata
@@ -732,6 +1013,7 @@ group by
       }
     }
     this.metadataModel.set('lastProcessedHeight', targetBlockHeight);
+    await this.storeCache.rewindChanges(targetBlockHeight);
     // metadataModel will be flushed in reindex.ts#reindex()
   }
 
@@ -0,0 +1,332 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {EventEmitter2} from '@nestjs/event-emitter';
+import {buildSchemaFromString, getAllEntitiesRelations} from '@subql/utils';
+import {QueryTypes, Sequelize} from '@subql/x-sequelize';
+import {NodeConfig} from '../configure';
+import {postgresDialect, sqliteDialect} from '../db/dialects';
+import {MetadataRepo} from './entities';
+import {StoreService} from './store.service';
+import {StoreCacheService} from './storeCache';
+import {ISubqueryProject} from './types';
+
+const schema = `
+type Account @entity {
+  id: ID!
+  name: String! @index
+  balance: BigInt!
+  transfers: [Transfer] @derivedFrom(field: "from")
+}
+
+type Transfer @entity {
+  id: ID!
+  from: Account!
+  amount: BigInt!
+}
+`;
+
+describe('Store with SQLite', () => {
+  let sequelize: Sequelize;
+  let storeCache: StoreCacheService;
+  let storeService: StoreService;
+
+  beforeEach(() => {
+    sequelize = new Sequelize({dialect: 'sqlite', storage: ':memory:', logging: false});
+
+    const config = new NodeConfig({subquery: 'test', dbSchema: 'test', dbType: 'sqlite'});
+    const project = {
+      network: {chainId: 'chain-id'},
+      schema: buildSchemaFromString(schema),
+    } as unknown as ISubqueryProject;
+
+    storeCache = new StoreCacheService(sequelize, config, new EventEmitter2());
+    storeService = new StoreService(sequelize, config, storeCache, project);
+  });
+
+  afterEach(async () => {
+    await sequelize.close();
+  });
+
+  it('syncs the schema and flushes the cache', async () => {
+    await storeService.initCoreTables('test');
+    await storeService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+    expect(storeService.historical).toBe(false);
+
+    const store = storeService.getStore();
+    storeService.setBlockHeight(1);
+    await store.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(100)} as any);
+    await store.set('Transfer', 'transfer-1', {id: 'transfer-1', fromId: 'alice', amount: BigInt(10)} as any);
+    storeService.setBlockHeight(2);
+    await store.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(90)} as any);
+    storeCache.metadata.set('lastProcessedHeight', 2);
+
+    await storeCache.flushCache(true, true);
+
+    await expect(
+      sequelize.query(`SELECT id, name, balance FROM "test.accounts"`, {type: QueryTypes.SELECT})
+    ).resolves.toEqual([{id: 'alice', name: 'Alice', balance: 90}]);
+    await expect(
+      sequelize.query(`SELECT id, from_id, amount FROM "test.transfers"`, {type: QueryTypes.SELECT})
+    ).resolves.toEqual([{id: 'transfer-1', from_id: 'alice', amount: 10}]);
+    await expect(storeCache.metadata.find('lastProcessedHeight')).resolves.toBe(2);
+
+    // Reads that miss the cache are served from the db
+    await storeCache.resetCache();
+    await expect(store.get('Account', 'alice')).resolves.toEqual(
+      expect.objectContaining({id: 'alice', name: 'Alice', balance: BigInt(90)})
+    );
+  });
+
+  it('does not write to the db in a dry run', async () => {
+    await storeService.initCoreTables('test');
+    await storeService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+    storeService.setBlockHeight(1);
+    await storeService.getStore().set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(100)} as any);
+    await storeService.getStore().set('Account', 'bob', {id: 'bob', name: 'Bob', balance: BigInt(5)} as any);
+    storeCache.metadata.set('lastProcessedHeight', 1);
+    await storeCache.flushCache(true, true);
+
+    const queries: string[] = [];
+    const query = sequelize.query.bind(sequelize);
+    jest.spyOn(sequelize, 'query').mockImplementation((sql: any, options?: any) => {
+      queries.push(typeof sql === 'string' ? sql : sql.query);
+      return query(sql, options) as any;
+    });
+
+    const dryRunConfig = new NodeConfig({subquery: 'test', dbSchema: 'test', dbType: 'sqlite', dryRun: true});
+    const dryRunCache = new StoreCacheService(sequelize, dryRunConfig, new EventEmitter2());
+    const dryRunService = new StoreService(sequelize, dryRunConfig, dryRunCache, {
+      network: {chainId: 'chain-id'},
+    } as unknown as ISubqueryProject);
+
+    await expect(dryRunService.initDryRunSchema('test')).resolves.toBe('test');
+    await dryRunService.initCoreTables('test');
+    await dryRunService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+    await dryRunService.initHotSchemaReloadQueries('test');
+
+    const store = dryRunService.getStore();
+    dryRunService.setBlockHeight(2);
+    await store.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(50)} as any);
+    await store.set('Account', 'carol', {id: 'carol', name: 'Carol', balance: BigInt(1)} as any);
+    await store.remove('Account', 'bob');
+    dryRunCache.metadata.set('lastProcessedHeight', 2);
+
+    await dryRunCache.flushAndWaitForCapacity(true, false);
+    await dryRunCache.flushCache(true, true);
+    await expect(dryRunCache.dryRunSummary()).resolves.toEqual({
+      Account: expect.objectContaining({created: 1, updated: 1, removed: 1}),
+    });
+    await dryRunCache.beforeApplicationShutdown();
+
+    expect(queries.length).toBeGreaterThan(0);
+    expect(queries.filter((q) => /^\s*(CREATE|ALTER|DROP|INSERT|UPDATE|DELETE|REPLACE|BEGIN)\b/i.test(q))).toEqual([]);
+    await expect(
+      sequelize.query(`SELECT id, balance FROM "test.accounts" ORDER BY id`, {type: QueryTypes.SELECT})
+    ).resolves.toEqual([
+      {id: 'alice', balance: 100},
+      {id: 'bob', balance: 5},
+    ]);
+    await expect(
+      sequelize.query(`SELECT value FROM "test._metadata" WHERE key = 'lastProcessedHeight'`, {
+        type: QueryTypes.SELECT,
+      })
+    ).resolves.toEqual([{value: 1}]);
+  });
+
+  it('dry runs a project that has not been indexed in a temporary schema', async () => {
+    const dryRunConfig = new NodeConfig({subquery: 'test', dbSchema: 'test', dbType: 'sqlite', dryRun: true});
+    const dryRunCache = new StoreCacheService(sequelize, dryRunConfig, new EventEmitter2());
+    const dryRunService = new StoreService(sequelize, dryRunConfig, dryRunCache, {
+      network: {chainId: 'chain-id'},
+    } as unknown as ISubqueryProject);
+
+    const dryRunSchema = await dryRunService.initDryRunSchema('test');
+    expect(dryRunSchema).toBe('test_dry_run');
+    await dryRunService.initCoreTables(dryRunSchema);
+    await dryRunService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), dryRunSchema);
+
+    const store = dryRunService.getStore();
+    dryRunService.setBlockHeight(1);
+    await store.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(50)} as any);
+    await expect(store.getByField<any>('Account', 'name', 'Alice')).resolves.toHaveLength(1);
+    await expect(dryRunCache.metadata.find('lastProcessedHeight')).resolves.toBeUndefined();
+    await dryRunCache.flushCache(true, true);
+
+    const tables = () => sqliteDialect.getTableNames(sequelize, dryRunSchema);
+    await expect(tables()).resolves.toEqual(expect.arrayContaining(['_metadata', 'accounts']));
+    await expect(sqliteDialect.getTableNames(sequelize, 'test')).resolves.toEqual([]);
+
+    await dryRunService.onApplicationShutdown();
+    await expect(tables()).resolves.toEqual([]);
+  });
+
+  it('orders text the same in the cache and the db', async () => {
+    await storeService.initCoreTables('test');
+    await storeService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+    const store = storeService.getStore();
+    storeService.setBlockHeight(1);
+
+    const names = ['apple', 'Banana', 'éclair', 'Zebra', '\uFF21', '\u{1F600}', 'zoo', 'Éa'];
+    for (const [i, name] of names.entries()) {
+      await store.set('Account', `account-${i}`, {id: `account-${i}`, name, balance: BigInt(i)} as any);
+      // Half of the records are in the db and half are cached
+      if (i === 3) {
+        storeCache.metadata.set('lastProcessedHeight', 1);
+        await storeCache.flushCache(true, true);
+      }
+    }
+
+    const dbOrder = [...names].sort((a, b) => Buffer.compare(Buffer.from(a), Buffer.from(b)));
+    const accounts = await store.getByFields<any>('Account', [['name', '>', 'B']], {limit: 10, orderBy: 'name'});
+    expect(accounts.map((a: any) => a.name)).toEqual(dbOrder.filter((name) => name > 'B'));
+
+    // Everything is in the db after flushing
+    storeCache.metadata.set('lastProcessedHeight', 1);
+    await storeCache.flushCache(true, true);
+    await expect(
+      sequelize.query(`SELECT name FROM "test.accounts" ORDER BY name`, {type: QueryTypes.SELECT})
+    ).resolves.toEqual(dbOrder.map((name) => ({name})));
+  });
+
+  it('matches like patterns the same in the cache and the db', async () => {
+    await storeService.initCoreTables('test');
+    await storeService.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+    const store = storeService.getStore();
+    storeService.setBlockHeight(1);
+
+    const names = ['Alice', 'alice', 'ALICE', 'al_x', 'a%b', 'a*b', 'axb'];
+    for (const [i, name] of names.entries()) {
+      await store.set('Account', `account-${i}`, {id: `account-${i}`, name, balance: BigInt(i)} as any);
+    }
+
+    const match = async (operator: 'like' | 'ilike', pattern: string) => {
+      const accounts = await store.getByFields<any>('Account', [['name', operator, pattern]], {
+        limit: 10,
+        orderBy: 'name',
+      });
+      return accounts.map((a: any) => a.name);
+    };
+    const expected: [operator: 'like' | 'ilike', pattern: string, names: string[]][] = [
+      ['like', 'Al%', ['Alice']],
+      ['ilike', 'al%', ['ALICE', 'Alice', 'al_x', 'alice']],
+      ['like', 'a_b', ['a%b', 'a*b', 'axb']],
+      ['like', 'a\\%b', ['a%b']],
+      ['like', 'a*b', ['a*b']],
+      ['ilike', 'AL\\_%', ['al_x']],
+    ];
+
+    for (const [operator, pattern, result] of expected) {
+      await expect(match(operator, pattern)).resolves.toEqual(result);
+    }
+
+    // Everything is read from the db after flushing
+    storeCache.metadata.set('lastProcessedHeight', 1);
+    await storeCache.flushCache(true, true);
+    expect(storeCache.isFlushable()).toBe(false);
+    for (const [operator, pattern, result] of expected) {
+      await expect(match(operator, pattern)).resolves.toEqual(result);
+    }
+  });
+
+  describe('change sink', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'change-sink-'));
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(dir, {recursive: true});
+    });
+
+    // Creates the services the same way the node does when it starts
+    async function start(changeSink?: string): Promise<StoreService> {
+      const config = new NodeConfig({subquery: 'test', dbSchema: 'test', dbType: 'sqlite', changeSink});
+      const cache = new StoreCacheService(sequelize, config, new EventEmitter2());
+      const service = new StoreService(sequelize, config, cache, {
+        network: {chainId: 'chain-id'},
+      } as unknown as ISubqueryProject);
+      await service.initCoreTables('test');
+      await service.init(getAllEntitiesRelations(buildSchemaFromString(schema)), 'test');
+      return service;
+    }
+
+    async function indexBlock(service: StoreService, height: number): Promise<void> {
+      service.setBlockHeight(height);
+      await service.getStore().set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(height)} as any);
+      service.storeCache.metadata.set('lastProcessedHeight', height);
+      await service.storeCache.flushCache(true, true);
+    }
+
+    async function deliveredHeight(): Promise<unknown> {
+      const [row] = await sequelize.query<{value: unknown}>(
+        `SELECT value FROM "test._metadata" WHERE key = 'changeSinkHeight'`,
+        {type: QueryTypes.SELECT}
+      );
+      return row?.value;
+    }
+
+    it('records the delivered height with the flush and skips changes a new sink has not received', async () => {
+      const sink = `file://${path.join(dir, 'changes.ndjson')}`;
+      let service = await start(sink);
+      await expect(service.storeCache.initChangeSink(undefined)).resolves.toBeUndefined();
+      await indexBlock(service, 1);
+      await expect(deliveredHeight()).resolves.toBe(1);
+
+      // The node restarts without the change sink, changes are not delivered
+      service = await start();
+      await indexBlock(service, 2);
+      await expect(deliveredHeight()).resolves.toBe(1);
+
+      // Without historical state the changes can't be replayed so the sink continues from the indexed height
+      service = await start(sink);
+      await expect(service.storeCache.initChangeSink(2)).resolves.toBeUndefined();
+      await indexBlock(service, 3);
+      await expect(deliveredHeight()).resolves.toBe(3);
+
+      // A different sink only receives changes after the indexed height
+      const otherSink = `file://${path.join(dir, 'other.ndjson')}`;
+      service = await start(otherSink);
+      await expect(service.storeCache.initChangeSink(3)).resolves.toBeUndefined();
+      await indexBlock(service, 4);
+      await expect(deliveredHeight()).resolves.toBe(4);
+
+      const read = async (file: string) =>
+        (await fs.promises.readFile(path.join(dir, file), 'utf8'))
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line).blockHeight);
+      await expect(read('changes.ndjson')).resolves.toEqual([1, 3]);
+      await expect(read('other.ndjson')).resolves.toEqual([4]);
+    });
+
+    it('replays changes indexed without the sink with historical state', async () => {
+      const sink = `file://${path.join(dir, 'changes.ndjson')}`;
+      let service = await start(sink);
+      await service.storeCache.initChangeSink(undefined);
+      await indexBlock(service, 1);
+
+      service = await start();
+      await indexBlock(service, 5);
+
+      service = await start(sink);
+      // Rewinding needs historical state which SQLite doesn't support
+      (service.storeCache as any)._historical = true;
+      await expect(service.storeCache.initChangeSink(5)).resolves.toBe(1);
+
+      await service.storeCache.rewindChanges(1);
+      await expect(service.storeCache.initChangeSink(1)).resolves.toBeUndefined();
+    });
+  });
+
+  it('rejects historical state', () => {
+    expect(() => storeCache.init(true, sqliteDialect, {} as MetadataRepo)).toThrow(
+      'Historical state is not supported with SQLite'
+    );
+    expect(() => storeCache.init(true, postgresDialect, {} as MetadataRepo)).not.toThrow();
+  });
+});
@@ -2,20 +2,26 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import assert from 'assert';
-import {Store as IStore, Entity, FieldsExpression} from '@subql/types-core';
+import {
+  Store as IStore,
+  AggregateFunction,
+  Entity,
+  FieldsExpression,
+  GetOptions,
+  HistoricalGetOptions,
+  IterateOptions,
+} from '@subql/types-core';
 import {NodeConfig} from '../../configure';
 import {getLogger} from '../../logger';
 import {StoreCacheService} from '../storeCache';
 import {StoreOperations} from '../StoreOperations';
 import {OperationType} from '../types';
 import {EntityClass} from './entity';
+import {iterateByFields} from './utils';
 
 const logger = getLogger('Store');
 
-type Options = {
-  offset?: number;
-  limit?: number;
-};
+type Options = GetOptions<any>;
 
 /* A context is provided to allow it to be updated by the owner of the class instance */
 type Context = {
@@ -47,6 +53,26 @@ export class Store implements IStore {
     }
   }
 
+  // Check that the fields are indexed, id is always indexed
+  #indexedFieldsCheck<T>(entity: string, filter: FieldsExpression<T>[]) {
+    filter.forEach((f) => {
+      assert(
+        f[0] === 'id' || this.#context.isIndexed(entity, String(f[0])),
+        `to query by field ${String(f[0])}, an index must be created on model ${entity}`
+      );
+    });
+  }
+
+  #orderCheck(options?: Options) {
+    if (options?.orderDirection !== undefined) {
+      assert(
+        options.orderDirection === 'ASC' || options.orderDirection === 'DESC',
+        `orderDirection must be either 'ASC' or 'DESC', received '${options.orderDirection}'`
+      );
+      assert(options.orderBy !== undefined, `orderDirection can only be used with orderBy`);
+    }
+  }
+
   async get<T extends Entity>(entity: string, id: string): Promise<T | undefined> {
     try {
       const raw = await this.#storeCache.getModel<T>(entity).get(id);
@@ -56,24 +82,72 @@ export class Store implements IStore {
     }
   }
 
+  #blockHeightCheck(blockHeight: number) {
+    assert(
+      blockHeight <= this.#context.blockHeight,
+      `blockHeight ${blockHeight} cannot be greater than the current block height ${this.#context.blockHeight}`
+    );
+  }
+
+  async getAt<T extends Entity>(entity: string, id: string, blockHeight: number): Promise<T | undefined> {
+    try {
+      this.#blockHeightCheck(blockHeight);
+
+      const raw = await this.#storeCache.getModel<T>(entity).getAt(id, blockHeight);
+      return EntityClass.create<T>(entity, raw, this);
+    } catch (e) {
+      throw new Error(`Failed to getAt Entity ${entity} with id ${id} at block height ${blockHeight}: ${e}`);
+    }
+  }
+
+  async getByFieldAt<T extends Entity>(
+    entity: string,
+    field: keyof T,
+    value: T[keyof T] | T[keyof T][],
+    blockHeight: number,
+    options: HistoricalGetOptions = {}
+  ): Promise<T[]> {
+    try {
+      const indexed = this.#context.isIndexed(entity, String(field));
+      assert(indexed, `to query by field ${String(field)}, an index must be created on model ${entity}`);
+      this.#queryLimitCheck('getByFieldAt', entity, options);
+      this.#blockHeightCheck(blockHeight);
+
+      const raw = await this.#storeCache.getModel<T>(entity).getByFieldAt(field, value, blockHeight, {
+        limit: Math.min(options.limit ?? this.#config.queryLimit, this.#config.queryLimit),
+        offset: options.offset ?? 0,
+      });
+
+      return raw.map((v) => EntityClass.create<T>(entity, v, this)) as T[];
+    } catch (e) {
+      throw new Error(
+        `Failed to getByFieldAt Entity ${entity} with field ${String(field)} at block height ${blockHeight}: ${e}`
+      );
+    }
+  }
+
   async getByField<T extends Entity>(
     entity: string,
     field: keyof T,
     value: T[keyof T] | T[keyof T][],
-    options: Options = {}
+    options: GetOptions<T> = {}
   ): Promise<T[]> {
     try {
       const indexed = this.#context.isIndexed(entity, String(field));
       assert(indexed, `to query by field ${String(field)}, an index must be created on model ${entity}`);
       this.#queryLimitCheck('getByField', entity, options);
+      this.#orderCheck(options);
 
       const finalLimit = options.limit ? Math.min(options.limit, this.#config.queryLimit) : this.#config.queryLimit;
       if (options.offset === undefined) {
         options.offset = 0;
       }
-      const raw = await this.#storeCache
-        .getModel<T>(entity)
-        .getByField(field, value, {limit: finalLimit, offset: options.offset});
+      const raw = await this.#storeCache.getModel<T>(entity).getByField(field, value, {
+        limit: finalLimit,
+        offset: options.offset,
+        orderBy: options.orderBy,
+        orderDirection: options.orderDirection,
+      });
 
       return raw.map((v) => EntityClass.create<T>(entity, v, this)) as T[];
     } catch (e) {
@@ -81,21 +155,21 @@ export class Store implements IStore {
     }
   }
 
-  async getByFields<T extends Entity>(entity: string, filter: FieldsExpression<T>[], options?: Options): Promise<T[]> {
+  async getByFields<T extends Entity>(
+    entity: string,
+    filter: FieldsExpression<T>[],
+    options?: GetOptions<T>
+  ): Promise<T[]> {
     try {
-      // Check that the fields are indexed
-      filter.forEach((f) => {
-        assert(
-          this.#context.isIndexed(entity, String(f[0])),
-          `to query by field ${String(f[0])}, an index must be created on model ${entity}`
-        );
-      });
-
+      this.#indexedFieldsCheck(entity, filter);
       this.#queryLimitCheck('getByFields', entity, options);
+      this.#orderCheck(options);
 
       const finalOptions = {
         offset: options?.offset ?? 0,
         limit: Math.min(options?.limit ?? this.#config.queryLimit, this.#config.queryLimit),
+        orderBy: options?.orderBy,
+        orderDirection: options?.orderDirection,
       };
 
       const raw = await this.#storeCache.getModel<T>(entity).getByFields(filter, finalOptions);
@@ -106,6 +180,39 @@ export class Store implements IStore {
     }
   }
 
+  iterate<T extends Entity>(
+    entity: string,
+    filter: FieldsExpression<T>[] = [],
+    options: IterateOptions = {}
+  ): AsyncGenerator<T> {
+    return iterateByFields<T>((f, o) => this.getByFields(entity, f, o), filter, options.batchSize);
+  }
+
+  async count<T extends Entity>(entity: string, filter: FieldsExpression<T>[] = []): Promise<number> {
+    try {
+      this.#indexedFieldsCheck(entity, filter);
+
+      return await this.#storeCache.getModel<T>(entity).count(filter);
+    } catch (e) {
+      throw new Error(`Failed to count Entity ${entity}: ${e}`);
+    }
+  }
+
+  async aggregate<T extends Entity>(
+    entity: string,
+    field: string,
+    fn: AggregateFunction,
+    filter: FieldsExpression<T>[] = []
+  ): Promise<number | bigint | null> {
+    try {
+      this.#indexedFieldsCheck(entity, filter);
+
+      return await this.#storeCache.getModel<T>(entity).aggregate(field as keyof T, fn, filter);
+    } catch (e) {
+      throw new Error(`Failed to aggregate Entity ${entity} with field ${field}: ${e}`);
+    }
+  }
+
   async getOneByField<T extends Entity>(entity: string, field: keyof T, value: T[keyof T]): Promise<T | undefined> {
     try {
       const indexed = this.#context.isIndexedHistorical(entity, field as string);
@@ -174,4 +281,40 @@ export class Store implements IStore {
       throw new Error(`Failed to bulkRemove Entity ${entity}: ${e}`);
     }
   }
+
+  async increment(entity: string, id: string, field: string, delta: number | bigint): Promise<number | bigint> {
+    try {
+      const data = await this.#storeCache
+        .getModel<Entity & Record<string, unknown>>(entity)
+        .increment(id, field, delta, this.#context.blockHeight);
+
+      // The resulting entity is recorded the same as a set so the operation hash matches get, update then save
+      this.#context.operationStack?.put(OperationType.Set, entity, data);
+
+      return data[field] as number | bigint;
+    } catch (e) {
+      throw new Error(`Failed to increment Entity ${entity} with id ${id} and field ${field}: ${e}`);
+    }
+  }
+
+  async upsert<T extends Entity>(
+    entity: string,
+    id: string,
+    defaults: Omit<T, 'id'>,
+    updater?: ((entity: T) => T) | Partial<Omit<T, 'id'>>
+  ): Promise<T> {
+    try {
+      const {data, written} = await this.#storeCache
+        .getModel<T>(entity)
+        .upsert(id, defaults, updater, this.#context.blockHeight);
+
+      if (written) {
+        this.#context.operationStack?.put(OperationType.Set, entity, data);
+      }
+
+      return EntityClass.create<T>(entity, data, this) as T;
+    } catch (e) {
+      throw new Error(`Failed to upsert Entity ${entity} with id ${id}: ${e}`);
+    }
+  }
 }
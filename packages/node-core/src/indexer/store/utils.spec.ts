@@ -0,0 +1,50 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {FieldsExpression, GetOptions} from '@subql/types-core';
+import {matchFieldsExpressions, sortRecords} from '../storeCache/utils';
+import {iterateByFields} from './utils';
+
+type TestEntity = {id: string; field1: number};
+
+describe('iterateByFields', () => {
+  const entities: TestEntity[] = [...Array(25).keys()].map((i) => ({
+    id: `entity_${i.toString().padStart(2, '0')}`,
+    field1: i % 2,
+  }));
+
+  const getByFields = jest.fn((filter: FieldsExpression<TestEntity>[], options: GetOptions<TestEntity>) => {
+    const matched = entities.filter((e) => matchFieldsExpressions(e, filter));
+    return Promise.resolve(sortRecords(matched, 'id', 'ASC').slice(0, options.limit ?? 100));
+  });
+
+  beforeEach(() => {
+    getByFields.mockClear();
+  });
+
+  it('iterates over all matching entities in batches', async () => {
+    const result: TestEntity[] = [];
+    for await (const entity of iterateByFields(getByFields, [['field1', '=', 1]], 5)) {
+      result.push(entity);
+    }
+
+    expect(result.map((r) => r.id)).toEqual(entities.filter((e) => e.field1 === 1).map((e) => e.id));
+    // 12 entities in batches of 5, then an empty batch
+    expect(getByFields).toHaveBeenCalledTimes(4);
+    expect(getByFields).toHaveBeenLastCalledWith(
+      [
+        ['field1', '=', 1],
+        ['id', '>', 'entity_23'],
+      ],
+      {limit: 5, orderBy: 'id'}
+    );
+  });
+
+  it('can stop iterating early', async () => {
+    for await (const entity of iterateByFields(getByFields, [], 10)) {
+      if (entity.id === 'entity_03') break;
+    }
+
+    expect(getByFields).toHaveBeenCalledTimes(1);
+  });
+});
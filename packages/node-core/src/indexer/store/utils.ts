@@ -0,0 +1,33 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {Entity, FieldsExpression, GetOptions} from '@subql/types-core';
+
+type GetByFields<T extends Entity> = (filter: FieldsExpression<T>[], options: GetOptions<T>) => Promise<T[]>;
+
+/**
+ * Iterates over entities in batches using the last id of each batch as a cursor.
+ * Unlike using offsets this is unaffected by the query limit and remains consistent if entities are modified while iterating
+ * */
+export async function* iterateByFields<T extends Entity>(
+  getByFields: GetByFields<T>,
+  filter: FieldsExpression<T>[] = [],
+  batchSize?: number
+): AsyncGenerator<T> {
+  let cursor: string | undefined;
+  while (true) {
+    const cursorFilter = ['id', '>', cursor] as FieldsExpression<T>;
+    const batch = await getByFields(cursor === undefined ? filter : [...filter, cursorFilter], {
+      limit: batchSize,
+      orderBy: 'id',
+    });
+
+    if (!batch.length) return;
+
+    for (const entity of batch) {
+      yield entity;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+}
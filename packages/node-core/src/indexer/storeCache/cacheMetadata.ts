@@ -4,6 +4,7 @@
 import assert from 'assert';
 import {Transaction} from '@subql/x-sequelize';
 import {getLogger} from '../..//logger';
+import {postgresDialect, StorageDialect} from '../../db/dialects';
 import {hasValue} from '../../utils';
 import {Metadata, MetadataKeys, MetadataRepo} from '../entities';
 import {Cacheable} from './cacheable';
@@ -20,7 +21,7 @@ export class CacheMetadataModel extends Cacheable implements ICachedModelControl
 
   flushableRecordCounter = 0;
 
-  constructor(readonly model: MetadataRepo) {
+  constructor(readonly model: MetadataRepo, private readonly dialect: StorageDialect = postgresDialect) {
     super();
   }
 
@@ -88,10 +89,7 @@ export class CacheMetadataModel extends Cacheable implements ICachedModelControl
       throw new Error(`Sequelize is not available on ${this.model.name}`);
     }
 
-    await this.model.sequelize.query(
-      `UPDATE ${table} SET value = (COALESCE(value->0):: int + ${amount})::text::jsonb WHERE key ='${key}'`,
-      tx && {transaction: tx}
-    );
+    await this.dialect.incrementJsonCount(this.model.sequelize, table.toString(), key, amount, tx);
   }
 
   get isFlushable(): boolean {
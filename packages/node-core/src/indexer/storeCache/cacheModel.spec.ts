@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import {delay} from '@subql/common';
-import {Sequelize} from '@subql/x-sequelize';
+import {Op, Sequelize} from '@subql/x-sequelize';
 import {NodeConfig} from '../../configure';
 import {CachedModel} from './cacheModel';
 
@@ -41,7 +41,9 @@ jest.mock('@subql/x-sequelize', () => {
           if (_fn === 'int8range') {
             return {fn: _fn, args: [args[0], args[1] ?? null]};
           }
+          return {fn: _fn, args};
         }),
+        col: jest.fn((col: string) => col),
         transaction,
       },
       upsert: jest.fn(),
@@ -62,6 +64,11 @@ jest.mock('@subql/x-sequelize', () => {
         records.map((r) => (pendingData[r.id] = r));
       }),
       destroy: jest.fn(),
+      getAttributes: () => ({
+        id: {type: 'TEXT', field: 'id'},
+        field1: {type: 'INTEGER', field: 'field1'},
+        field2: {type: 'VARCHAR(255)', field: 'field_2'},
+      }),
     }),
     sync: jest.fn(),
     transaction,
@@ -90,17 +97,7 @@ describe('cacheModel', () => {
     beforeEach(() => {
       let i = 0;
       sequelize = new Sequelize();
-      testModel = new CachedModel(
-        sequelize.model('entity1'),
-        false,
-        {} as NodeConfig,
-        () => i++,
-        async () => {
-          const tx = await sequelize.transaction();
-          await testModel.flush(tx);
-          await tx.commit();
-        }
-      );
+      testModel = new CachedModel(sequelize.model('entity1'), false, {} as NodeConfig, () => i++);
     });
 
     it('can avoid race conditions', async () => {
@@ -170,17 +167,7 @@ describe('cacheModel', () => {
     beforeEach(() => {
       let i = 0;
       sequelize = new Sequelize();
-      testModel = new CachedModel(
-        sequelize.model('entity1'),
-        true,
-        {} as NodeConfig,
-        () => i++,
-        async () => {
-          const tx = await sequelize.transaction();
-          await testModel.flush(tx);
-          await tx.commit();
-        }
-      );
+      testModel = new CachedModel(sequelize.model('entity1'), true, {} as NodeConfig, () => i++);
     });
 
     // it should keep same behavior as hook we used
@@ -429,28 +416,137 @@ describe('cacheModel', () => {
         expect(spy).toHaveBeenCalledWith('field1', 1, {offset: 0, limit: 1});
       });
 
-      it('flushes the cache first', async () => {
-        const spy = jest.spyOn(testModel, 'flush');
+      it('merges cached records with db records without flushing', async () => {
+        const flushSpy = jest.spyOn(testModel, 'flush');
+        const findAllSpy = jest.spyOn(testModel.model, 'findAll');
 
-        // Set data so there is something to be flushed
-        testModel.set(
-          'entity1_id_0x02',
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: 2}, 2);
+        testModel.set('entity1_id_0x03', {id: 'entity1_id_0x03', field1: 3}, 3);
+
+        const result = await testModel.getByFields(
+          [
+            ['field1', '>', 1],
+            ['field1', '!=', 3],
+          ],
+          {offset: 0, limit: 10}
+        );
+
+        expect(flushSpy).not.toHaveBeenCalled();
+        expect(findAllSpy).toHaveBeenCalledWith(expect.objectContaining({limit: 9, offset: 0}));
+        expect(result).toStrictEqual([
+          {id: 'entity1_id_0x02', field1: 2},
           {
-            id: 'entity1_id_0x02',
-            field1: 2,
+            id: 'apple-05-sequelize',
+            field1: 'set apple at block 5 with sequelize', // And mocked record
           },
-          2
+        ]);
+      });
+
+      it('only uses the cache when it fills the limit', async () => {
+        const findAllSpy = jest.spyOn(testModel.model, 'findAll');
+
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: 2}, 2);
+        testModel.set('entity1_id_0x03', {id: 'entity1_id_0x03', field1: 3}, 3);
+
+        const result = await testModel.getByFields([['field1', 'between', [1, 3]]], {offset: 1, limit: 2});
+
+        expect(findAllSpy).not.toHaveBeenCalled();
+        expect(result.map((r) => r.id)).toEqual(['entity1_id_0x02', 'entity1_id_0x03']);
+      });
+
+      it('excludes removed records', async () => {
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: 2}, 1);
+        testModel.remove('entity1_id_0x01', 2);
+
+        const result = await testModel.getByFields([['field1', '<=', 2]], {offset: 0, limit: 2});
+
+        expect(result.map((r) => r.id)).toEqual(['entity1_id_0x02', 'apple-05-sequelize']);
+      });
+
+      it('throws for invalid operator values', async () => {
+        await expect(testModel.getByFields([['field1', 'between', [1] as any]], {offset: 0, limit: 1})).rejects.toThrow(
+          `Operator ('between') for field field1 requires a [lower, upper] value`
         );
+      });
 
-        await testModel.getByFields(
-          [
-            ['field1', '=', 1],
-            ['field1', 'in', [2]],
-          ],
-          {offset: 0, limit: 1}
+      it('orders cached and db records together', async () => {
+        const findAllSpy = jest
+          .spyOn(testModel.model, 'findAll')
+          .mockImplementation(
+            () =>
+              [
+                {toJSON: () => ({id: 'entity1_id_0x04', field1: 4})},
+                {toJSON: () => ({id: 'entity1_id_0x00', field1: 2})},
+              ] as any
+          );
+
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: 2}, 2);
+        testModel.set('entity1_id_0x03', {id: 'entity1_id_0x03', field1: 3}, 3);
+
+        const result = await testModel.getByFields([['field1', '>', 1]], {
+          offset: 1,
+          limit: 2,
+          orderBy: 'field1',
+          orderDirection: 'DESC',
+        });
+
+        expect(findAllSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            limit: 3,
+            offset: 0,
+            order: [
+              ['field1', 'DESC'],
+              [expect.objectContaining({val: '"id" COLLATE "C"'}), 'DESC'],
+            ],
+          })
         );
+        // Ties on field1 are ordered by id
+        expect(result.map((r) => r.id)).toEqual(['entity1_id_0x03', 'entity1_id_0x02']);
+      });
 
-        expect(spy).toHaveBeenCalled();
+      it('orders text fields by code point in the cache and the db', async () => {
+        const findAllSpy = jest
+          .spyOn(testModel.model, 'findAll')
+          .mockImplementation(
+            () =>
+              [
+                {toJSON: () => ({id: 'entity1_id_0x04', field2: 'apple'})},
+                {toJSON: () => ({id: 'entity1_id_0x05', field2: '\u{1F600}'})},
+              ] as any
+          );
+
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field2: 'Zebra'} as any, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field2: '\uFF21'} as any, 1);
+        testModel.set('entity1_id_0x03', {id: 'entity1_id_0x03', field2: 'éclair'} as any, 1);
+        testModel.set('entity1_id_0x06', {id: 'entity1_id_0x06', field2: 'Banana'} as any, 1);
+
+        const result = await testModel.getByFields([['field2' as any, '>', 'Apple']], {
+          offset: 0,
+          limit: 10,
+          orderBy: 'field2' as any,
+        });
+
+        const {order, where} = findAllSpy.mock.calls[0][0] as any;
+        expect(where[Op.and][0]).toEqual(
+          expect.objectContaining({attribute: expect.objectContaining({val: '"field_2" COLLATE "C"'})})
+        );
+        expect(order).toEqual([
+          [expect.objectContaining({val: '"field_2" COLLATE "C"'}), 'ASC'],
+          [expect.objectContaining({val: '"id" COLLATE "C"'}), 'ASC'],
+        ]);
+        // Upper case sorts before lower case and characters outside the BMP sort last
+        expect(result.map((r) => (r as any).field2)).toEqual([
+          'Banana',
+          'Zebra',
+          'apple',
+          'éclair',
+          '\uFF21',
+          '\u{1F600}',
+        ]);
       });
 
       it('throws for unsupported operators', async () => {
@@ -460,7 +556,317 @@ describe('cacheModel', () => {
             [['field1', 'badOperator' as any, 1]],
             {offset: 0, limit: 1}
           )
-        ).rejects.toThrow(`Operator ('badOperator') for field field1 is not valid. Options are =, !=, in, !in`);
+        ).rejects.toThrow(
+          `Operator ('badOperator') for field field1 is not valid. Options are =, !=, >, >=, <, <=, in, !in, between, like, ilike, isNull`
+        );
+      });
+    });
+
+    describe('count and aggregate', () => {
+      beforeEach(() => {
+        (testModel.model as any).name = 'entity1';
+        (testModel.model as any).getAttributes = () => ({
+          id: {type: 'text', field: 'id'},
+          field1: {type: 'integer', field: 'field1'},
+        });
+
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: 2}, 1);
+        testModel.set('entity1_id_0x03', {id: 'entity1_id_0x03', field1: 3}, 2);
+        testModel.remove('entity1_id_0x03', 3);
+      });
+
+      it('counts cached and db records', async () => {
+        const findAllSpy = jest.spyOn(testModel.model, 'findAll').mockImplementation(() => [{count: '4'}] as any);
+
+        await expect(testModel.count([['field1', '>=', 2]])).resolves.toBe(5);
+        expect(findAllSpy).toHaveBeenCalledWith(
+          expect.objectContaining({attributes: [[{fn: 'COUNT', args: ['id']}, 'count']], raw: true})
+        );
+      });
+
+      it('sums and averages cached and db records', async () => {
+        jest.spyOn(testModel.model, 'findAll').mockImplementation(() => [{sum: '10', count: '2'}] as any);
+
+        await expect(testModel.aggregate('field1', 'sum', [])).resolves.toBe(13);
+        await expect(testModel.aggregate('field1', 'avg', [])).resolves.toBe(13 / 4);
+      });
+
+      it('finds the min and max of cached and db records', async () => {
+        const findAllSpy = jest.spyOn(testModel.model, 'findAll').mockImplementation(() => [{value: 5}] as any);
+
+        await expect(testModel.aggregate('field1', 'max', [])).resolves.toBe(5);
+        findAllSpy.mockImplementation(() => [{value: null}] as any);
+        await expect(testModel.aggregate('field1', 'min', [['field1', '>', 1]])).resolves.toBe(2);
+      });
+
+      it('returns null when there are no values', async () => {
+        jest.spyOn(testModel.model, 'findAll').mockImplementation(() => [{sum: null, count: '0'}] as any);
+
+        await expect(testModel.aggregate('field1', 'sum', [['field1', '>', 5]])).resolves.toBeNull();
+      });
+
+      it('parses numeric columns with a scale as numbers', async () => {
+        (testModel.model as any).getAttributes = () => ({
+          id: {type: 'text', field: 'id'},
+          field1: {type: 'numeric(38,18)', field: 'field1'},
+        });
+        jest
+          .spyOn(testModel.model, 'findAll')
+          .mockImplementation(() => [{sum: '1.500000000000000000', count: '1'}] as any);
+
+        await expect(testModel.aggregate('field1', 'sum', [])).resolves.toBe(4.5);
+      });
+
+      it('parses BigInt fields as bigints', async () => {
+        let i = 0;
+        const bigIntModel = new CachedModel<{id: string; field1: bigint}>(
+          sequelize.model('entity1'),
+          true,
+          {} as NodeConfig,
+          () => i++,
+          undefined,
+          ['field1']
+        );
+        (bigIntModel.model as any).name = 'entity1';
+        (bigIntModel.model as any).getAttributes = () => ({
+          id: {type: 'text', field: 'id'},
+          field1: {type: 'numeric', field: 'field1'},
+        });
+        bigIntModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: BigInt(1)}, 1);
+        jest
+          .spyOn(bigIntModel.model, 'findAll')
+          .mockImplementation(() => [{sum: '9007199254740993', count: '1'}] as any);
+
+        await expect(bigIntModel.aggregate('field1', 'sum', [])).resolves.toBe(BigInt('9007199254740994'));
+      });
+
+      it('throws for non-numeric fields', async () => {
+        await expect(testModel.aggregate('id', 'sum', [])).rejects.toThrow(
+          'Field id on entity1 is not numeric and cannot be aggregated'
+        );
+      });
+    });
+
+    describe('historical lookups', () => {
+      it('gets records at a block height from the cache', async () => {
+        const findOneSpy = jest.spyOn(testModel.model, 'findOne');
+        testModel.set('entity1_id_0x20', {id: 'entity1_id_0x20', field1: 1}, 2);
+        testModel.set('entity1_id_0x20', {id: 'entity1_id_0x20', field1: 2}, 4);
+        testModel.remove('entity1_id_0x20', 6);
+
+        await expect(testModel.getAt('entity1_id_0x20', 3)).resolves.toEqual({id: 'entity1_id_0x20', field1: 1});
+        await expect(testModel.getAt('entity1_id_0x20', 5)).resolves.toEqual({id: 'entity1_id_0x20', field1: 2});
+        await expect(testModel.getAt('entity1_id_0x20', 6)).resolves.toBeUndefined();
+        expect(findOneSpy).not.toHaveBeenCalled();
+
+        // Before the first set the db is used
+        await testModel.getAt('entity1_id_0x20', 1);
+        expect(findOneSpy).toHaveBeenCalledWith({
+          where: {id: 'entity1_id_0x20', __block_range: {[Op.contains]: 1}},
+        });
+      });
+
+      it('gets records by field at a block height from the cache and db', async () => {
+        const findAllSpy = jest.spyOn(testModel.model, 'findAll');
+        testModel.set('entity1_id_0x21', {id: 'entity1_id_0x21', field1: 1}, 2);
+        testModel.set('entity1_id_0x21', {id: 'entity1_id_0x21', field1: 2}, 4);
+        testModel.set('entity1_id_0x22', {id: 'entity1_id_0x22', field1: 1}, 5);
+
+        const result = await testModel.getByFieldAt('field1', 1, 3, {limit: 10, offset: 0});
+        expect(result[0]).toEqual({id: 'entity1_id_0x21', field1: 1});
+        expect(findAllSpy).toHaveBeenCalledWith({
+          where: {
+            [Op.and]: [{field1: {[Op.eq]: 1}}, {id: {[Op.notIn]: ['entity1_id_0x21']}}],
+            __block_range: {[Op.contains]: 3},
+          },
+          limit: 9,
+          offset: 0,
+        });
+      });
+    });
+
+    it('gets the change events that will be flushed', () => {
+      (testModel.model as any).name = 'entity1';
+      testModel.set('entity1_id_0x40', {id: 'entity1_id_0x40', field1: 1}, 1);
+      testModel.remove('entity1_id_0x41', 1);
+      testModel.remove('entity1_id_0x40', 2);
+      testModel.set('entity1_id_0x40', {id: 'entity1_id_0x40', field1: 2}, 3);
+
+      const events = testModel.getChangeEvents(2).map(({operationIndex, ...event}) => event);
+      expect(events).toHaveLength(3);
+      expect(events).toEqual(
+        expect.arrayContaining([
+          {
+            operation: 'Set',
+            entity: 'entity1',
+            id: 'entity1_id_0x40',
+            blockHeight: 1,
+            payload: {id: 'entity1_id_0x40', field1: 1},
+          },
+          {operation: 'Remove', entity: 'entity1', id: 'entity1_id_0x40', blockHeight: 2},
+          {operation: 'Remove', entity: 'entity1', id: 'entity1_id_0x41', blockHeight: 1},
+        ])
+      );
+      expect(testModel.getChangeEvents()).toHaveLength(4);
+    });
+
+    it('describes the changes that would be flushed', async () => {
+      (testModel.model as any).name = 'entity1';
+      jest
+        .spyOn(testModel.model, 'findAll')
+        .mockImplementation(
+          () =>
+            [
+              {toJSON: () => ({id: 'entity1_id_0x31', field1: 1})},
+              {toJSON: () => ({id: 'entity1_id_0x32', field1: 1})},
+            ] as any
+        );
+      testModel.set('entity1_id_0x30', {id: 'entity1_id_0x30', field1: 1}, 1);
+      testModel.set('entity1_id_0x31', {id: 'entity1_id_0x31', field1: 2}, 1);
+      testModel.remove('entity1_id_0x32', 2);
+      // Created and removed before being flushed
+      testModel.set('entity1_id_0x33', {id: 'entity1_id_0x33', field1: 1}, 1);
+      testModel.remove('entity1_id_0x33', 2);
+
+      const changes = await testModel.describeChanges(5);
+      expect(changes).toEqual({
+        created: 1,
+        updated: 1,
+        removed: 1,
+        samples: [
+          {operation: 'Set', entityType: 'entity1', data: {id: 'entity1_id_0x30', field1: 1}},
+          {
+            operation: 'Set',
+            entityType: 'entity1',
+            data: {id: 'entity1_id_0x31', field1: 2},
+            changes: {field1: {from: 1, to: 2}},
+          },
+          {operation: 'Remove', entityType: 'entity1', data: 'entity1_id_0x32'},
+        ],
+      });
+    });
+
+    describe('increment and upsert', () => {
+      beforeEach(() => {
+        (testModel.model as any).name = 'entity1';
+      });
+
+      it('increments number and bigint fields', async () => {
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+        const bigintModel = testModel as unknown as CachedModel<{id: string; field1: bigint}>;
+
+        await expect(testModel.increment('entity1_id_0x01', 'field1', 2, 2)).resolves.toEqual({
+          id: 'entity1_id_0x01',
+          field1: 3,
+        });
+
+        bigintModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: BigInt(10)}, 2);
+        await expect(bigintModel.increment('entity1_id_0x02', 'field1', 5, 3)).resolves.toEqual({
+          id: 'entity1_id_0x02',
+          field1: BigInt(15),
+        });
+
+        // Previous historical values should not be modified
+        const historicalValues = (testModel as any).setCache.entity1_id_0x01.historicalValues;
+        expect(historicalValues[0].data.field1).toBe(1);
+        expect(historicalValues[1].data.field1).toBe(3);
+      });
+
+      it('increments null BigInt fields as bigints', async () => {
+        let i = 0;
+        const bigIntModel = new CachedModel<{id: string; field1: bigint | null}>(
+          sequelize.model('entity1'),
+          false,
+          {} as NodeConfig,
+          () => i++,
+          undefined,
+          ['field1']
+        );
+        bigIntModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: null}, 1);
+
+        await expect(bigIntModel.increment('entity1_id_0x01', 'field1', 5, 2)).resolves.toEqual({
+          id: 'entity1_id_0x01',
+          field1: BigInt(5),
+        });
+        // Number fields keep the delta as it is
+        testModel.set('entity1_id_0x02', {id: 'entity1_id_0x02', field1: null as any}, 1);
+        await expect(testModel.increment('entity1_id_0x02', 'field1', 5, 2)).resolves.toEqual({
+          id: 'entity1_id_0x02',
+          field1: 5,
+        });
+      });
+
+      it('throws when incrementing an entity that does not exist', async () => {
+        await expect(testModel.increment('entity1_id_0x09', 'field1', 1, 1)).rejects.toThrow(
+          'Entity entity1 with id entity1_id_0x09 does not exist'
+        );
+      });
+
+      it('creates an entity from defaults when it does not exist', async () => {
+        await expect(testModel.upsert('entity1_id_0x09', {field1: 1}, undefined, 1)).resolves.toEqual({
+          data: {id: 'entity1_id_0x09', field1: 1},
+          written: true,
+        });
+        await expect(testModel.get('entity1_id_0x09')).resolves.toEqual({id: 'entity1_id_0x09', field1: 1});
+      });
+
+      it('applies the updater when the entity exists', async () => {
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+
+        await expect(
+          testModel.upsert(
+            'entity1_id_0x01',
+            {field1: 0},
+            (data) => {
+              data.field1 += 1;
+              return data;
+            },
+            2
+          )
+        ).resolves.toEqual({data: {id: 'entity1_id_0x01', field1: 2}, written: true});
+
+        // The updater should not be able to modify previous historical values
+        const historicalValues = (testModel as any).setCache.entity1_id_0x01.historicalValues;
+        expect(historicalValues[0].data.field1).toBe(1);
+        expect(historicalValues[1].data.field1).toBe(2);
+
+        // Without an updater existing entities are left unchanged
+        await expect(testModel.upsert('entity1_id_0x01', {field1: 0}, undefined, 3)).resolves.toEqual({
+          data: {id: 'entity1_id_0x01', field1: 2},
+          written: false,
+        });
+        expect((testModel as any).setCache.entity1_id_0x01.historicalValues.length).toBe(2);
+      });
+
+      it('merges fields into the existing entity', async () => {
+        const stringModel = testModel as unknown as CachedModel<{id: string; field1: number; field2?: string}>;
+        stringModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+
+        await expect(stringModel.upsert('entity1_id_0x01', {field1: 0}, {field2: 'updated'}, 2)).resolves.toEqual({
+          data: {id: 'entity1_id_0x01', field1: 1, field2: 'updated'},
+          written: true,
+        });
+      });
+
+      it('does not lose updates when they are made concurrently', async () => {
+        testModel.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 1}, 1);
+
+        await Promise.all([
+          testModel.increment('entity1_id_0x01', 'field1', 1, 2),
+          testModel.upsert(
+            'entity1_id_0x01',
+            {field1: 0},
+            (data) => {
+              data.field1 *= 10;
+              return data;
+            },
+            2
+          ),
+          testModel.increment('entity1_id_0x01', 'field1', 1, 2),
+        ]);
+
+        await expect(testModel.get('entity1_id_0x01')).resolves.toEqual({id: 'entity1_id_0x01', field1: 21});
       });
     });
   });
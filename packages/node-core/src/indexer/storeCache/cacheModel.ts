@@ -2,11 +2,25 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import assert from 'assert';
-import {FieldOperators, FieldsExpression} from '@subql/types-core';
-import {CreationAttributes, Model, ModelStatic, Op, Sequelize, Transaction} from '@subql/x-sequelize';
+import {AggregateFunction, FieldsExpression} from '@subql/types-core';
+import {
+  CreationAttributes,
+  FindOptions,
+  Model,
+  ModelAttributeColumnOptions,
+  ModelStatic,
+  Op,
+  Sequelize,
+  Transaction,
+  Utils,
+  WhereOptions,
+} from '@subql/x-sequelize';
 import {Fn} from '@subql/x-sequelize/types/utils';
-import {flatten, includes, isEqual, uniq, cloneDeep} from 'lodash';
+import AsyncLock from 'async-lock';
+import {flatten, uniq, cloneDeep, isEqual, omit} from 'lodash';
 import {NodeConfig} from '../../configure';
+import {postgresDialect, StorageDialect} from '../../db/dialects';
+import {OperationType} from '../types';
 import {Cacheable} from './cacheable';
 import {SetValueModel} from './setValueModel';
 import {
@@ -17,7 +31,17 @@ import {
   GetData,
   FilteredHeightRecords,
   SetValue,
+  CacheGetOptions,
+  CachedModelChanges,
+  OrderedChangeEvent,
 } from './types';
+import {
+  compareValues,
+  fieldsExpressionToWhere,
+  matchFieldsExpressions,
+  sortRecords,
+  validateFieldsExpression,
+} from './utils';
 
 const getCacheOptions = {
   max: 500, // default value
@@ -25,12 +49,10 @@ const getCacheOptions = {
   updateAgeOnGet: true, // we want to keep most used record in cache longer
 };
 
-const operatorsMap: Record<FieldOperators, any> = {
-  '=': Op.eq,
-  '!=': Op.ne,
-  in: Op.in,
-  '!in': Op.notIn,
-};
+// Column types that are generated for Int, Float and BigInt fields
+const numericColumnTypes = ['integer', 'float8', 'numeric'];
+// Column types that are generated for ID and String fields
+const textColumnTypes = ['text', 'varchar', 'char'];
 
 export class CachedModel<
     T extends {id: string; __block_range?: (number | null)[] | Fn} = {
@@ -46,6 +68,8 @@ export class CachedModel<
   private setCache: SetData<T> = {};
   private removeCache: Record<string, RemoveValue> = {};
   readonly hasAssociations: boolean = false;
+  // Serialises read-modify-write operations on the same id, these can come from concurrent workers
+  private readonly idLock = new AsyncLock();
 
   flushableRecordCounter = 0;
 
@@ -54,9 +78,9 @@ export class CachedModel<
     private readonly historical = true,
     config: NodeConfig,
     private getNextStoreOperationIndex: () => number,
-    // This is used by methods such as getByFields which don't support caches
-    private flushAll: () => Promise<void>,
-    private readonly useCockroachDb = false
+    private readonly dialect: StorageDialect = postgresDialect,
+    // Fields with the BigInt GraphQL type, other numeric columns can have a scale
+    private readonly bigIntFields: string[] = []
   ) {
     super();
     // In case, this might be want to be 0
@@ -116,62 +140,70 @@ export class CachedModel<
     return this.getCache.get(id);
   }
 
-  async getByField(
+  async getAt(id: string, blockHeight: number): Promise<T | undefined> {
+    assert(this.historical, 'Historical lookups require historical indexing to be enabled');
+
+    const cached = this.getFromCacheAt(id, blockHeight);
+    if (cached !== null) {
+      return cached;
+    }
+
+    await this.mutex.waitForUnlock();
+    // Records are not added to the getCache as it only holds the latest values
+    return (
+      await this.model.findOne({
+        where: {id, __block_range: {[Op.contains]: blockHeight}} as any,
+      })
+    )?.toJSON();
+  }
+
+  async getByFieldAt(
     field: keyof T,
     value: T[keyof T] | T[keyof T][],
-    options: {
-      offset: number;
-      limit: number;
-    }
+    blockHeight: number,
+    options: Pick<CacheGetOptions<T>, 'limit' | 'offset'>
   ): Promise<T[]> {
-    let cachedData = this.getFromCache(field, value);
-    if (cachedData.length <= options.offset) {
-      // example cache length 16, offset is 30
-      // it should skip cache value
-      cachedData = [];
-    } else if (cachedData.length >= options.offset + options.limit) {
-      // example cache length 166, offset is 30, limit is 50
-      // then return all from cache [30,80]
-      return cachedData.slice(options.offset, options.offset + options.limit);
-    } else if (cachedData.length < options.offset + options.limit) {
-      // example cache length 66, offset is 30, limit is 50
-      // then return [30,66] from cache, set new limit and join record from db
-      cachedData = cachedData.slice(options.offset, cachedData.length);
-      options.limit = options.limit - (cachedData.length - options.offset);
+    assert(this.historical, 'Historical lookups require historical indexing to be enabled');
+    const filter = [[field, Array.isArray(value) ? 'in' : '=', value]] as FieldsExpression<T>[];
+
+    // Ids that the cache has a value for at the block height, even if it has been removed
+    const cachedIds: string[] = [];
+    const cachedData: T[] = [];
+    for (const id of uniq([...Object.keys(this.setCache), ...Object.keys(this.removeCache)])) {
+      const record = this.getFromCacheAt(id, blockHeight);
+      if (record === null) continue;
+      cachedIds.push(id);
+      if (record && matchFieldsExpressions(record, filter)) {
+        cachedData.push(record);
+      }
+    }
+
+    const fromCache = cachedData.slice(options.offset, options.offset + options.limit);
+    if (fromCache.length >= options.limit) {
+      return fromCache;
     }
 
     await this.mutex.waitForUnlock();
     const records = await this.model.findAll({
-      where: {[field]: value, id: {[Op.notIn]: this.allCachedIds()}} as any,
-      limit: options?.limit, //limit should pass from store
-      offset: options?.offset,
+      where: {
+        [Op.and]: [this.expressionToWhere(filter[0]), {id: {[Op.notIn]: cachedIds}}],
+        __block_range: {[Op.contains]: blockHeight},
+      } as any,
+      limit: options.limit - fromCache.length,
+      offset: Math.max(options.offset - cachedData.length, 0),
     });
 
-    // Update getCache value here
-    records.map((record) => {
-      const data = record.toJSON<T>();
-      this.getCache.set(data.id, data);
-    });
+    return fromCache.concat(records.map((record) => record.toJSON<T>()));
+  }
 
-    return cachedData.concat(records.map((record) => record.toJSON() as T));
+  async getByField(field: keyof T, value: T[keyof T] | T[keyof T][], options: CacheGetOptions<T>): Promise<T[]> {
+    const filter = [[field, Array.isArray(value) ? 'in' : '=', value]] as FieldsExpression<T>[];
+    return this.getByFilter(filter, options);
   }
 
-  async getByFields(
-    filter: FieldsExpression<T>[],
-    options: {
-      offset: number;
-      limit: number;
-    }
-  ): Promise<T[]> {
+  async getByFields(filter: FieldsExpression<T>[], options: CacheGetOptions<T>): Promise<T[]> {
     // Validate filter
-    filter.forEach(([field, operator]) => {
-      assert(
-        operatorsMap[operator],
-        `Operator ('${operator}') for field ${String(field)} is not valid. Options are ${Object.keys(operatorsMap).join(
-          ', '
-        )}`
-      );
-    });
+    filter.forEach((expression) => validateFieldsExpression(expression));
 
     // If there is a single field we can use `getByField`
     if (filter.length === 1) {
@@ -181,31 +213,189 @@ export class CachedModel<
       }
     }
 
-    // This query doesn't support the cache, so we flush to ensure all data is in the db then query from the db
-    if (this.isFlushable) {
-      // This will flush all entities
-      await this.flushAll();
+    return this.getByFilter(filter, options);
+  }
+
+  // Cached records come first, then the remaining records are loaded from the db excluding any cached ids
+  private async getByFilter(filter: FieldsExpression<T>[], options: CacheGetOptions<T>): Promise<T[]> {
+    if (options.orderBy !== undefined) {
+      return this.getByFilterOrdered(filter, options.orderBy, options);
+    }
+
+    const cachedData = this.getFromCacheByFilter(filter);
+    if (cachedData.length >= options.offset + options.limit) {
+      // example cache length 166, offset is 30, limit is 50
+      // then return all from cache [30,80]
+      return cachedData.slice(options.offset, options.offset + options.limit);
     }
 
-    // Acquire a lock so the cache cant be updated in the mean time
-    const release = await this.mutex.acquire();
+    // example cache length 66, offset is 30, limit is 50
+    // then return [30,66] from cache and the first 14 records from the db
+    // example cache length 16, offset is 30, limit is 50
+    // then skip the cache and return db records [14,64]
+    const fromCache = cachedData.slice(options.offset);
+    const dbOffset = Math.max(options.offset - cachedData.length, 0);
+    const dbLimit = options.limit - fromCache.length;
 
-    try {
-      const records = await this.model.findAll({
-        where: {
-          // Explicit with AND here to remove any ambiguity
-          [Op.and]: filter.map(([field, operator, value]) => ({[field]: {[operatorsMap[operator]]: value}})) as any, // Types not working properly
-        },
-        limit: options?.limit,
-        offset: options?.offset,
-      });
+    const data = await this.findAllExcludingCached(filter, {limit: dbLimit, offset: dbOffset});
 
-      return records.map((r) => r.toJSON());
-    } finally {
-      release();
+    return fromCache.concat(data);
+  }
+
+  // Ordered results can come from either the cache or the db, so we need the first offset + limit records from both sources.
+  // These are then merged with the same ordering as the db and the requested page is returned
+  private async getByFilterOrdered(
+    filter: FieldsExpression<T>[],
+    orderBy: keyof T,
+    options: CacheGetOptions<T>
+  ): Promise<T[]> {
+    const direction = options.orderDirection ?? 'ASC';
+    const end = options.offset + options.limit;
+    const cachedData = sortRecords(this.getFromCacheByFilter(filter), orderBy, direction).slice(0, end);
+
+    const data = await this.findAllExcludingCached(filter, {
+      limit: end,
+      offset: 0,
+      order:
+        orderBy === 'id'
+          ? [[this.dialect.idColumn, direction]]
+          : [
+              [this.textColumn(orderBy) ?? (orderBy as string), direction],
+              [this.dialect.idColumn, direction],
+            ],
+    });
+
+    return sortRecords(cachedData.concat(data), orderBy, direction).slice(options.offset, end);
+  }
+
+  private async findAllExcludingCached(
+    filter: FieldsExpression<T>[],
+    options: Pick<FindOptions<T>, 'limit' | 'offset' | 'order'>
+  ): Promise<T[]> {
+    await this.mutex.waitForUnlock();
+    const records = await this.model.findAll({
+      where: this.whereExcludingCached(filter),
+      ...options,
+    });
+
+    const data = records.map((record) => record.toJSON<T>());
+
+    // Update getCache value here
+    data.map((d) => this.getCache.set(d.id, d));
+
+    return data;
+  }
+
+  async count(filter: FieldsExpression<T>[]): Promise<number> {
+    filter.forEach((expression) => validateFieldsExpression(expression));
+
+    const cachedCount = this.getFromCacheByFilter(filter).length;
+    const {count} = await this.aggregateExcludingCached(filter, {count: ['COUNT', 'id']});
+
+    return cachedCount + Number(count);
+  }
+
+  async aggregate(
+    field: keyof T,
+    fn: AggregateFunction,
+    filter: FieldsExpression<T>[]
+  ): Promise<number | bigint | null> {
+    filter.forEach((expression) => validateFieldsExpression(expression));
+    const attributes: Record<string, ModelAttributeColumnOptions> = this.model.getAttributes();
+    const attribute = attributes[field as string];
+    assert(attribute, `Field ${String(field)} does not exist on ${this.model.name}`);
+    const columnType = String(attribute.type).toLowerCase();
+    assert(
+      numericColumnTypes.some((t) => columnType.startsWith(t)),
+      `Field ${String(field)} on ${this.model.name} is not numeric and cannot be aggregated`
+    );
+    // Numeric columns are only integers for BigInt fields, e.g. @dbType(type: "numeric(38,18)") can have decimals
+    const parse = this.bigIntFields.includes(field as string) ? BigInt : Number;
+
+    const cachedValues = this.getFromCacheByFilter(filter)
+      .map((d) => d[field] as unknown)
+      .filter((v) => v !== null && v !== undefined)
+      .map((v) => parse(v as string));
+
+    switch (fn) {
+      case 'sum':
+      case 'avg': {
+        const dbResult = await this.aggregateExcludingCached(filter, {sum: ['SUM', field], count: ['COUNT', field]});
+        const count = cachedValues.length + Number(dbResult.count);
+        if (!count) return null;
+
+        const sum = cachedValues.reduce<number | bigint>(
+          (acc, v) => (acc as number) + (v as number),
+          parse(dbResult.sum ?? 0)
+        );
+        return fn === 'sum' ? sum : Number(sum) / count;
+      }
+      case 'min':
+      case 'max': {
+        const dbResult = await this.aggregateExcludingCached(filter, {value: [fn.toUpperCase(), field]});
+        const values = dbResult.value === null ? cachedValues : [...cachedValues, parse(dbResult.value)];
+        if (!values.length) return null;
+
+        const direction = fn === 'min' ? 1 : -1;
+        return values.reduce((acc, v) => (direction * compareValues(v, acc) < 0 ? v : acc));
+      }
+      default:
+        throw new Error(`Aggregate function ('${fn}') is not valid. Options are sum, min, max, avg`);
     }
   }
 
+  // Run aggregate functions in the db on records that are not in the cache
+  private async aggregateExcludingCached<K extends string>(
+    filter: FieldsExpression<T>[],
+    aggregates: Record<K, [fn: string, field: keyof T]>
+  ): Promise<Record<K, string | number | null>> {
+    const attributes: Record<string, ModelAttributeColumnOptions> = this.model.getAttributes();
+
+    await this.mutex.waitForUnlock();
+    const [result] = await this.model.findAll({
+      attributes: Object.entries<[string, keyof T]>(aggregates).map(([alias, [fn, field]]) => [
+        this.sequelize.fn(fn, this.sequelize.col(attributes[field as string]?.field ?? (field as string))),
+        alias,
+      ]),
+      where: this.whereExcludingCached(filter),
+      raw: true,
+    });
+
+    return result as unknown as Record<K, string | number | null>;
+  }
+
+  // The collated column for text fields so the db orders them the same as `compareValues`, undefined for other fields
+  private textColumn(field: keyof T): Utils.Literal | undefined {
+    if (field === 'id') return this.dialect.idColumn;
+    const attribute = this.attribute(field);
+    if (!attribute || !textColumnTypes.some((t) => String(attribute.type).toLowerCase().startsWith(t))) return;
+    return this.dialect.textColumn(attribute.field ?? (field as string));
+  }
+
+  private attribute(field: keyof T): ModelAttributeColumnOptions | undefined {
+    const attributes: Record<string, ModelAttributeColumnOptions> = this.model.getAttributes();
+    return attributes[field as string];
+  }
+
+  private expressionToWhere(expression: FieldsExpression<T>): WhereOptions {
+    const [field, operator, value] = expression;
+    if (operator === 'like' || operator === 'ilike') {
+      const column = this.attribute(field)?.field ?? (field as string);
+      return this.dialect.likeWhere(field as string, column, value as string, operator === 'ilike');
+    }
+    return fieldsExpressionToWhere(expression, this.textColumn(field));
+  }
+
+  private whereExcludingCached(filter: FieldsExpression<T>[]): WhereOptions<T> {
+    return {
+      // Explicit with AND here to remove any ambiguity
+      [Op.and]: [
+        ...filter.map((expression) => this.expressionToWhere(expression)),
+        {id: {[Op.notIn]: this.allCachedIds()}},
+      ],
+    } as any; // Types not working properly
+  }
+
   async getOneByField(field: keyof T, value: T[keyof T]): Promise<T | undefined> {
     if (field === 'id') {
       return this.get(`${value}`);
@@ -283,6 +473,65 @@ export class CachedModel<
     ids.map((id) => this.remove(id, blockHeight));
   }
 
+  async increment(id: string, field: keyof T, delta: number | bigint, blockHeight: number): Promise<T> {
+    assert(
+      typeof delta === 'number' || typeof delta === 'bigint',
+      `Increment delta for field ${String(field)} must be a number or bigint`
+    );
+    return this.idLock.acquire(id, async () => {
+      const current = await this.get(id);
+      assert(current, `Entity ${this.model.name} with id ${id} does not exist`);
+
+      const value = current[field] as unknown;
+      let newValue: number | bigint;
+      if (value === null || value === undefined) {
+        // BigInt fields need to store a bigint even if the delta is a number
+        newValue = this.bigIntFields.includes(field as string) ? BigInt(delta) : delta;
+      } else if (typeof value === 'bigint') {
+        newValue = value + BigInt(delta);
+      } else if (typeof value === 'number') {
+        assert(typeof delta === 'number', `Increment delta for number field ${String(field)} must be a number`);
+        newValue = value + delta;
+      } else {
+        throw new Error(`Field ${String(field)} is not numeric and cannot be incremented`);
+      }
+
+      // Copy the data so that previous historical values are not modified
+      const data = {...current, [field]: newValue};
+      this.set(id, data, blockHeight);
+
+      return data;
+    });
+  }
+
+  async upsert(
+    id: string,
+    defaults: Omit<T, 'id'>,
+    updater: ((data: T) => T) | Partial<Omit<T, 'id'>> | undefined,
+    blockHeight: number
+  ): Promise<{data: T; written: boolean}> {
+    return this.idLock.acquire(id, async () => {
+      const current = await this.get(id);
+
+      let data: T;
+      if (!current) {
+        data = {...defaults, id} as T;
+      } else if (typeof updater === 'function') {
+        // Copy the data so that previous historical values are not modified
+        data = {...updater(cloneDeep(current)), id};
+      } else if (updater) {
+        data = {...current, ...updater, id};
+      } else {
+        // Nothing to update
+        return {data: current, written: false};
+      }
+
+      this.set(id, data, blockHeight);
+
+      return {data, written: true};
+    });
+  }
+
   get isFlushable(): boolean {
     return !!Object.keys(this.setCache).length || !!Object.keys(this.removeCache).length;
   }
@@ -328,11 +577,7 @@ export class CachedModel<
       }
 
       dbOperation = Promise.all([
-        records.length &&
-          this.model.bulkCreate(records, {
-            transaction: tx,
-            updateOnDuplicate: Object.keys(records[0]) as unknown as (keyof T)[],
-          }),
+        this.dialect.bulkUpsert(this.model, records, tx),
         Object.keys(removeRecords).length &&
           this.model.destroy({where: {id: Object.keys(removeRecords)} as any, transaction: tx}),
       ]);
@@ -445,13 +690,137 @@ export class CachedModel<
     this.flushableRecordCounter = newCounter;
   }
 
+  getChangeEvents(blockHeight?: number): OrderedChangeEvent[] {
+    const {removeRecords, setRecords} = blockHeight
+      ? this.filterRecordsWithHeight(blockHeight)
+      : {removeRecords: this.removeCache, setRecords: this.setCache};
+
+    const events: OrderedChangeEvent[] = [];
+    const removeEvent = (id: string, removedAtBlock: number, operationIndex: number): OrderedChangeEvent => ({
+      operation: OperationType.Remove,
+      entity: this.model.name,
+      id,
+      blockHeight: removedAtBlock,
+      operationIndex,
+    });
+
+    for (const [id, model] of Object.entries(setRecords)) {
+      for (const value of model.getValues()) {
+        events.push({
+          operation: OperationType.Set,
+          entity: this.model.name,
+          id,
+          blockHeight: value.startHeight,
+          payload: omit(value.data, '__block_range'),
+          operationIndex: value.operationIndex,
+        });
+        if (value.removed && value.endHeight !== null) {
+          // Only the latest remove operation is kept, earlier removals are ordered after the set
+          const operationIndex =
+            removeRecords[id]?.removedAtBlock === value.endHeight
+              ? removeRecords[id].operationIndex
+              : value.operationIndex;
+          events.push(removeEvent(id, value.endHeight, operationIndex));
+        }
+      }
+    }
+
+    // Removals of entities that are not in the set cache
+    const removedIds = new Set(events.filter((e) => e.operation === OperationType.Remove).map((e) => e.id));
+    for (const [id, value] of Object.entries(removeRecords)) {
+      if (!removedIds.has(id)) {
+        events.push(removeEvent(id, value.removedAtBlock, value.operationIndex));
+      }
+    }
+
+    return events;
+  }
+
+  async describeChanges(sampleSize: number): Promise<CachedModelChanges> {
+    const setRecords = Object.values(this.setCache)
+      .map((model) => model.getLatest())
+      .filter((value): value is SetValue<T> => !!value && !value.removed)
+      .map((value) => value.data);
+    // Entities that have been set again after being removed are included in the set records
+    const setIds = new Set(setRecords.map((r) => r.id));
+    const removedIds = Object.keys(this.removeCache).filter((id) => !setIds.has(id));
+
+    const ids = [...setIds, ...removedIds];
+    await this.mutex.waitForUnlock();
+    const dbRecords = ids.length
+      ? (await this.model.findAll({where: {id: {[Op.in]: ids}} as any})).map((record) => record.toJSON<T>())
+      : [];
+    const dbRecordsById = new Map(dbRecords.map((record) => [record.id, record]));
+
+    const changes: CachedModelChanges = {created: 0, updated: 0, removed: 0, samples: []};
+    const addSample = (sample: CachedModelChanges['samples'][number]) => {
+      if (changes.samples.length < sampleSize) {
+        changes.samples.push(sample);
+      }
+    };
+
+    for (const record of setRecords) {
+      const data = omit(record, '__block_range');
+      const dbRecord = dbRecordsById.get(record.id);
+      if (!dbRecord) {
+        changes.created++;
+        addSample({operation: OperationType.Set, entityType: this.model.name, data});
+        continue;
+      }
+
+      changes.updated++;
+      const fields = uniq([...Object.keys(data), ...Object.keys(dbRecord)]).filter((f) => f !== '__block_range');
+      addSample({
+        operation: OperationType.Set,
+        entityType: this.model.name,
+        data,
+        changes: fields.reduce<Record<string, {from: unknown; to: unknown}>>((acc, field) => {
+          const from = (dbRecord as Record<string, unknown>)[field] ?? null;
+          const to = (data as Record<string, unknown>)[field] ?? null;
+          if (!isEqual(from, to)) {
+            acc[field] = {from, to};
+          }
+          return acc;
+        }, {}),
+      });
+    }
+
+    // Entities that were created and removed within the cache never reach the db
+    for (const id of removedIds.filter((id) => dbRecordsById.has(id))) {
+      changes.removed++;
+      addSample({operation: OperationType.Remove, entityType: this.model.name, data: id});
+    }
+
+    return changes;
+  }
+
+  // Get a record at a block height from the cache.
+  // Null is returned if the cache doesn't have any changes at or before the height and the db should be used
+  private getFromCacheAt(id: string, blockHeight: number): T | undefined | null {
+    const firstSetHeight = this.setCache[id]?.getFirst()?.startHeight ?? Infinity;
+    const removedAtBlock = this.removeCache[id]?.removedAtBlock ?? Infinity;
+    if (blockHeight < Math.min(firstSetHeight, removedAtBlock)) {
+      return null;
+    }
+
+    return this.setCache[id]?.getValueAtHeight(blockHeight)?.data;
+  }
+
   // If field and value are passed, will getByField
   // If no input parameter, will getAll
   private getFromCache(field?: keyof T, value?: T[keyof T] | T[keyof T][], findOne?: boolean): T[] {
+    const filter =
+      field === undefined || value === undefined
+        ? []
+        : ([[field, Array.isArray(value) ? 'in' : '=', value]] as FieldsExpression<T>[]);
+    return this.getFromCacheByFilter(filter, findOne);
+  }
+
+  private getFromCacheByFilter(filter: FieldsExpression<T>[], findOne?: boolean): T[] {
     const joinedData: T[] = [];
     const unifiedIds: string[] = [];
     Object.entries(this.setCache).map(([, model]) => {
-      if (model.isMatchData(field, value)) {
+      if (model.isMatchData(filter)) {
         const latestData = model.getLatest()?.removed ? undefined : model.getLatest()?.data;
         if (latestData) {
           unifiedIds.push(latestData.id);
@@ -465,14 +834,7 @@ export class CachedModel<
     }
 
     this.getCache.forEach((getValue, key) => {
-      if (
-        getValue &&
-        !unifiedIds.includes(key) &&
-        (field === undefined ||
-          value === undefined ||
-          (Array.isArray(value) && includes(value, getValue[field])) ||
-          isEqual(getValue[field], value))
-      ) {
+      if (getValue && !unifiedIds.includes(key) && matchFieldsExpressions(getValue, filter)) {
         joinedData.push(getValue);
       }
     });
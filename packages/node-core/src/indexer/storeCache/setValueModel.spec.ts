@@ -31,4 +31,15 @@ describe('SetValueModel', () => {
       {data: '4', startHeight: 4, endHeight: null, operationIndex: 4, removed: false},
     ]);
   });
+
+  it('getValueAtHeight works', () => {
+    expect(model.getValueAtHeight(2)?.data).toEqual('2');
+
+    const removedModel = new SetValueModel<string>();
+    removedModel.set('a', 2, 0);
+    removedModel.markAsRemoved(4);
+    expect(removedModel.getValueAtHeight(1)).toBeUndefined();
+    expect(removedModel.getValueAtHeight(3)?.data).toEqual('a');
+    expect(removedModel.getValueAtHeight(4)).toBeUndefined();
+  });
 });
@@ -1,8 +1,9 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import {isEqual} from 'lodash';
+import {FieldsExpression} from '@subql/types-core';
 import {SetValue} from './types';
+import {matchFieldsExpressions} from './utils';
 
 export class SetValueModel<T> {
   private historicalValues: SetValue<T>[] = [];
@@ -68,6 +69,11 @@ export class SetValueModel<T> {
     return this.historicalValues[0];
   }
 
+  // Get the value that was set at the block height, this will be undefined if it was removed or not yet set
+  getValueAtHeight(height: number): SetValue<T> | undefined {
+    return this.historicalValues.find((v) => v.startHeight <= height && (v.endHeight === null || v.endHeight > height));
+  }
+
   getValues(): SetValue<T>[] {
     return this.historicalValues;
   }
@@ -108,16 +114,13 @@ export class SetValueModel<T> {
     this.historicalValues[latestIndex].removed = true;
   }
 
-  isMatchData(field?: keyof T, value?: T[keyof T] | T[keyof T][]): boolean {
-    if (field === undefined || value === undefined) {
+  isMatchData(filter: FieldsExpression<T>[] = []): boolean {
+    if (!filter.length) {
       return true;
     }
-    if (Array.isArray(value)) {
-      return value.findIndex((v) => this.isMatchData(field, v)) > -1;
-    } else {
-      if (this.getLatest()?.removed) return false;
-      return isEqual(this.getLatest()?.data?.[field], value);
-    }
+    const latest = this.getLatest();
+    if (!latest || latest.removed) return false;
+    return matchFieldsExpressions(latest.data, filter);
   }
 
   private create(data: T, blockHeight: number, operationIndex: number): void {
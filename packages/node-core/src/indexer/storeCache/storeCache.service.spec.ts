@@ -4,8 +4,9 @@
 import {EventEmitter2} from '@nestjs/event-emitter';
 import {Sequelize} from '@subql/x-sequelize';
 import {NodeConfig} from '../../configure';
+import {cockroachDialect, postgresDialect, sqliteDialect} from '../../db/dialects';
 import {delay} from '../../utils';
-import {StoreCacheService} from './storeCache.service';
+import {DryRunCompleteError, StoreCacheService} from './storeCache.service';
 
 const eventEmitter = new EventEmitter2();
 
@@ -259,7 +260,7 @@ describe('Store Cache flush with order', () => {
 
   beforeEach(() => {
     storeService = new StoreCacheService(sequelize, nodeConfig, eventEmitter);
-    storeService.init(false, true, {} as any, undefined);
+    storeService.init(false, cockroachDialect, {} as any, undefined);
   });
 
   it('when set/remove multiple model entities, operation index should added to record in sequential order', () => {
@@ -286,6 +287,33 @@ describe('Store Cache flush with order', () => {
     const entity1 = (storeService as any).cachedModels.entity1;
     expect(entity1.removeCache.entity1_id_0x01.operationIndex).toBe(3);
   });
+
+  it('flushes every operation in order when constraints cannot be deferred', async () => {
+    storeService.init(false, sqliteDialect, {} as any, undefined);
+    const entity1Model = storeService.getModel('entity1');
+    const entity2Model = storeService.getModel('entity2');
+
+    const flushed: string[] = [];
+    for (const model of [entity1Model, entity2Model]) {
+      const sequelizeModel = (model as any).model;
+      sequelizeModel.upsert.mockImplementation((data: any) => flushed.push(`set ${data.id}`));
+      sequelizeModel.destroy.mockImplementation(({where}: any) => flushed.push(`remove ${where.id}`));
+    }
+
+    entity1Model.set('entity1_id_0x01', {id: 'entity1_id_0x01', field1: 'set at block 1'}, 1);
+    entity2Model.set('entity2_id_0x01', {id: 'entity2_id_0x01', field1: 'set at block 1'}, 1);
+    entity1Model.remove('entity1_id_0x01', 2);
+    entity2Model.set('entity2_id_0x02', {id: 'entity2_id_0x02', field1: 'set at block 2'}, 2);
+    await storeService.flushCache(true, true);
+
+    // The last operation is flushed too
+    expect(flushed).toEqual([
+      'set entity1_id_0x01',
+      'set entity2_id_0x01',
+      'remove entity1_id_0x01',
+      'set entity2_id_0x02',
+    ]);
+  });
 });
 
 describe('Store Cache flush with non-historical', () => {
@@ -296,7 +324,7 @@ describe('Store Cache flush with non-historical', () => {
 
   beforeEach(() => {
     storeService = new StoreCacheService(sequelize, nodeConfig, eventEmitter);
-    storeService.init(false, false, {} as any, undefined);
+    storeService.init(false, postgresDialect, {} as any, undefined);
   });
 
   it('Same Id with multiple operations, when flush it should always pick up the latest operation', async () => {
@@ -354,7 +382,7 @@ describe('Store cache upper threshold', () => {
 
   beforeEach(() => {
     storeService = new StoreCacheService(sequelize, nodeConfig, eventEmitter);
-    storeService.init(false, false, {} as any, undefined);
+    storeService.init(false, postgresDialect, {} as any, undefined);
   });
 
   it('doesnt wait for flushing cache when threshold not met', async () => {
@@ -401,3 +429,107 @@ describe('Store cache upper threshold', () => {
     expect(end - start).toBeGreaterThanOrEqual(1000);
   });
 });
+
+describe('Store Cache Service dry run', () => {
+  let storeService: StoreCacheService;
+
+  const sequelize = new Sequelize();
+  const nodeConfig: NodeConfig = {dryRun: true} as any;
+
+  beforeEach(() => {
+    storeService = new StoreCacheService(sequelize, nodeConfig, eventEmitter);
+  });
+
+  it('never flushes to the db', async () => {
+    const transactionSpy = jest.spyOn(sequelize, 'transaction');
+    const appleModel = storeService.getModel<Apple>('apple');
+    appleModel.set('apple-01', {id: 'apple-01', field1: 'set apple at block 1'}, 1);
+
+    expect(storeService.isFlushable()).toBeFalsy();
+    await storeService.flushCache(true, true);
+
+    expect(transactionSpy).not.toHaveBeenCalled();
+    expect(storeService.flushableRecords).toBe(1);
+    await expect(appleModel.get('apple-01')).resolves.toEqual({id: 'apple-01', field1: 'set apple at block 1'});
+  });
+
+  it('stops indexing once the cache reaches the upper limit', async () => {
+    storeService = new StoreCacheService(sequelize, {dryRun: true, storeCacheUpperLimit: 2} as any, eventEmitter);
+    const appleModel = storeService.getModel<Apple>('apple');
+
+    appleModel.set('apple-01', {id: 'apple-01', field1: 'set apple at block 1'}, 1);
+    await expect(storeService.flushAndWaitForCapacity(false, false)).resolves.toBeUndefined();
+
+    appleModel.set('apple-02', {id: 'apple-02', field1: 'set apple at block 2'}, 2);
+    await expect(storeService.flushAndWaitForCapacity(false, false)).rejects.toBeInstanceOf(DryRunCompleteError);
+  });
+});
+
+describe('Store Cache history pruning', () => {
+  let storeService: StoreCacheService;
+  let metadata: Record<string, number | undefined>;
+  let destroy: jest.Mock;
+
+  const sequelize = new Sequelize();
+
+  function createStoreCache(config: Partial<NodeConfig>): StoreCacheService {
+    const storeCache = new StoreCacheService(sequelize, config as NodeConfig, eventEmitter);
+    storeCache.init(true, postgresDialect, {} as any, undefined);
+    storeCache.setHistoryRetention({apple: 100, banana: 500});
+
+    jest.spyOn(storeCache.metadata, 'find').mockImplementation((key: string) => Promise.resolve(metadata[key]) as any);
+    jest.spyOn(storeCache.metadata, 'set').mockImplementation((key: string, value: any) => {
+      metadata[key] = value;
+    });
+    return storeCache;
+  }
+
+  async function flushAt(height: number): Promise<void> {
+    metadata.lastProcessedHeight = height;
+    await storeService._flushCache();
+  }
+
+  beforeEach(() => {
+    metadata = {};
+    destroy = jest.fn(() => Promise.resolve(1));
+    jest.spyOn(sequelize, 'model').mockImplementation(() => ({destroy} as any));
+    Object.assign(sequelize, {where: jest.fn(), fn: jest.fn(), col: jest.fn()});
+    storeService = createStoreCache({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prunes versions older than the retention of each entity at an interval', async () => {
+    await flushAt(1000);
+    expect(destroy).toHaveBeenCalledTimes(2);
+    expect(metadata.historyPrunedHeight).toBe(900);
+
+    // Not pruned again until the interval has passed
+    await flushAt(1500);
+    expect(destroy).toHaveBeenCalledTimes(2);
+
+    await flushAt(2000);
+    expect(destroy).toHaveBeenCalledTimes(4);
+    expect(metadata.historyPrunedHeight).toBe(1900);
+  });
+
+  it('does not prune history after the last finalized block', async () => {
+    storeService = createStoreCache({unfinalizedBlocks: true});
+
+    await flushAt(1000);
+    expect(destroy).not.toHaveBeenCalled();
+
+    metadata.lastFinalizedVerifiedHeight = 850;
+    await flushAt(1000);
+    expect(destroy).toHaveBeenCalledTimes(2);
+    expect(metadata.historyPrunedHeight).toBe(850);
+  });
+
+  it('rejects a retention that is not greater than 0', () => {
+    const exit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    createStoreCache({historyRetention: 0});
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -2,23 +2,46 @@
 // SPDX-License-Identifier: GPL-3.0
 
 import assert from 'assert';
+import fs from 'fs';
 import {Injectable} from '@nestjs/common';
 import {EventEmitter2} from '@nestjs/event-emitter';
-import {DatabaseError, Deferrable, Sequelize, Transaction} from '@subql/x-sequelize';
+import {DatabaseError, Deferrable, Op, Sequelize, Transaction} from '@subql/x-sequelize';
 import {sum} from 'lodash';
 import {NodeConfig} from '../../configure';
+import {postgresDialect, StorageDialect} from '../../db/dialects';
 import {IndexerEvent} from '../../events';
 import {getLogger} from '../../logger';
 import {profiler} from '../../profiler';
+import '../../utils/bigint';
+import {ChangeEvent, createChangeWriter, IChangeWriter} from '../changeSink';
 import {MetadataRepo, PoiRepo} from '../entities';
 import {BaseCacheService} from './baseCache.service';
 import {CacheMetadataModel} from './cacheMetadata';
 import {CachedModel} from './cacheModel';
 import {CachePoiModel} from './cachePoi';
-import {ICachedModel, ICachedModelControl} from './types';
+import {CachedModelChanges, ICachedModel, ICachedModelControl} from './types';
 
 const logger = getLogger('StoreCacheService');
 
+// The number of example changes to include for each entity in a dry run summary
+const DRY_RUN_SAMPLE_SIZE = 5;
+
+// The number of blocks between pruning historical versions of entities
+const HISTORY_PRUNE_INTERVAL = 1000;
+
+// Thrown when a dry run stops indexing because the cache is full, nothing is flushed so memory would grow unbounded
+export class DryRunCompleteError extends Error {
+  constructor(upperLimit: number) {
+    super(
+      `Dry run stopped, the store cache has reached the upper limit of ${upperLimit} records. Increase --store-cache-upper-limit to dry run more blocks`
+    );
+  }
+}
+
+export function isDryRunCompleteError(e: any): e is DryRunCompleteError {
+  return e instanceof DryRunCompleteError;
+}
+
 @Injectable()
 export class StoreCacheService extends BaseCacheService {
   private cachedModels: Record<string, ICachedModelControl> = {};
@@ -27,10 +50,14 @@ export class StoreCacheService extends BaseCacheService {
   private readonly storeCacheThreshold: number;
   private readonly cacheUpperLimit: number;
   private _historical = true;
-  private _useCockroachDb?: boolean;
+  private _dialect: StorageDialect = postgresDialect;
   private _storeOperationIndex = 0;
   private _lastFlushedOperationIndex = 0;
   private _lastFlushTs: Date;
+  private changeWriter?: IChangeWriter;
+  private historyRetention: Record<string, number> = {};
+  private bigIntFields: Record<string, string[]> = {};
+  private _lastPrunedHeight?: number;
 
   constructor(private sequelize: Sequelize, private config: NodeConfig, protected eventEmitter: EventEmitter2) {
     super('StoreCache');
@@ -42,15 +69,43 @@ export class StoreCacheService extends BaseCacheService {
       logger.error('Store cache threshold must be less than the store cache upper limit');
       process.exit(1);
     }
+
+    if (config.historyRetention !== undefined && config.historyRetention <= 0) {
+      logger.error('History retention must be greater than 0');
+      process.exit(1);
+    }
+
+    if (config.dryRun && config.proofOfIndex) {
+      logger.error('Dry run cannot be used with proof of index');
+      process.exit(1);
+    }
+
+    if (config.changeSink) {
+      this.changeWriter = createChangeWriter(config.changeSink);
+    }
   }
 
-  init(historical: boolean, useCockroachDb: boolean, meta: MetadataRepo, poi?: PoiRepo): void {
-    this._useCockroachDb = useCockroachDb;
+  init(historical: boolean, dialect: StorageDialect, meta: MetadataRepo, poi?: PoiRepo): void {
+    // Flushing historical entities relies on range types that only some databases have
+    if (historical && !dialect.supportsHistorical) {
+      throw new Error(`Historical state is not supported with ${dialect.dbType}`);
+    }
+    this._dialect = dialect;
     this._historical = historical;
     this.metadataRepo = meta;
     this.poiRepo = poi;
   }
 
+  // The number of blocks that historical versions are kept for each entity
+  setHistoryRetention(retention: Record<string, number>): void {
+    this.historyRetention = retention;
+  }
+
+  // The fields of each entity with the BigInt type, used to parse aggregates
+  setBigIntFields(fields: Record<string, string[]>): void {
+    this.bigIntFields = fields;
+  }
+
   getNextStoreOperationIndex(): number {
     this._storeOperationIndex += 1;
     return this._storeOperationIndex;
@@ -71,8 +126,8 @@ export class StoreCacheService extends BaseCacheService {
         this._historical,
         this.config,
         this.getNextStoreOperationIndex.bind(this),
-        () => this.flushCache(true),
-        this._useCockroachDb
+        this._dialect,
+        this.bigIntFields[entity]
       );
     }
     return this.cachedModels[entity] as unknown as ICachedModel<T>;
@@ -84,7 +139,7 @@ export class StoreCacheService extends BaseCacheService {
       if (!this.metadataRepo) {
         throw new Error('Metadata entity has not been set on store cache');
       }
-      this.cachedModels[entity] = new CacheMetadataModel(this.metadataRepo);
+      this.cachedModels[entity] = new CacheMetadataModel(this.metadataRepo, this._dialect);
     }
     return this.cachedModels[entity] as unknown as CacheMetadataModel;
   }
@@ -108,7 +163,8 @@ export class StoreCacheService extends BaseCacheService {
     // therefore we need to store this index in memory first.
 
     const flushToIndex = this._storeOperationIndex;
-    for (let i = this._lastFlushedOperationIndex; i < flushToIndex; i++) {
+    // Operation indexes start at 1 and flushToIndex is the last index used
+    for (let i = this._lastFlushedOperationIndex + 1; i <= flushToIndex; i++) {
       // Flush operation can be a no-op if it doesn't have that index
       await Promise.all(relationalModels.map((m) => m.flushOperation?.(i, tx)));
     }
@@ -117,17 +173,26 @@ export class StoreCacheService extends BaseCacheService {
 
   @profiler()
   async _flushCache(flushAll?: boolean): Promise<void> {
+    if (this.config.dryRun) {
+      this.logger.debug('Dry run, skipping flushing cache');
+      return;
+    }
     this.logger.debug('Flushing cache');
     // With historical disabled we defer the constraints check so that it doesn't matter what order entities are modified
     const tx = await this.sequelize.transaction({
-      deferrable: this._historical || this._useCockroachDb ? undefined : Deferrable.SET_DEFERRED(),
+      deferrable:
+        this._historical || !this._dialect.supportsDeferrableConstraints ? undefined : Deferrable.SET_DEFERRED(),
     });
     try {
       // Get the block height of all data we want to flush up to
       const blockHeight = flushAll ? undefined : await this.metadata.find('lastProcessedHeight');
+      await this.writeChanges(flushAll, blockHeight);
+      if (blockHeight !== undefined) {
+        await this.pruneHistory(blockHeight, tx);
+      }
       // Get models that have data to flush
       const updatableModels = Object.values(this.cachedModels).filter((m) => m.isFlushable);
-      if (this._useCockroachDb) {
+      if (!this._dialect.supportsDeferrableConstraints) {
         // 1. Independent(no associations) models can flush simultaneously
         await Promise.all(
           updatableModels.filter((m) => !m.hasAssociations).map((model) => model.flush(tx, blockHeight))
@@ -149,12 +214,127 @@ export class StoreCacheService extends BaseCacheService {
     this._lastFlushTs = new Date();
   }
 
+  /**
+   * Removes historical versions of entities that were replaced more than the retention number of blocks ago.
+   * The pruned height is recorded so that reindexing to before it is refused
+   * */
+  private async pruneHistory(blockHeight: number, tx: Transaction): Promise<void> {
+    if (!this._historical || !Object.keys(this.historyRetention).length) return;
+    if (this._lastPrunedHeight !== undefined && blockHeight - this._lastPrunedHeight < HISTORY_PRUNE_INTERVAL) return;
+
+    // Unfinalized blocks are rewound to the last finalized block, the history after it is always kept
+    let maxPruneHeight = blockHeight;
+    if (this.config.unfinalizedBlocks) {
+      const finalizedHeight = await this.metadata.find('lastFinalizedVerifiedHeight');
+      if (!finalizedHeight) return;
+      maxPruneHeight = finalizedHeight;
+    }
+
+    let prunedHeight = (await this.metadata.find('historyPrunedHeight')) ?? 0;
+    for (const [entity, retention] of Object.entries(this.historyRetention)) {
+      const pruneHeight = Math.min(blockHeight - retention, maxPruneHeight);
+      if (pruneHeight <= 0) continue;
+
+      const count = await this.sequelize.model(entity).destroy({
+        transaction: tx,
+        hooks: false,
+        where: this.sequelize.where(
+          this.sequelize.fn('upper', this.sequelize.col('_block_range')),
+          Op.lte,
+          pruneHeight
+        ),
+      });
+      this.logger.debug(`Pruned ${count} historical records of ${entity} up to block ${pruneHeight}`);
+      prunedHeight = Math.max(prunedHeight, pruneHeight);
+    }
+    if (prunedHeight) {
+      this.metadata.set('historyPrunedHeight', prunedHeight);
+    }
+    this._lastPrunedHeight = blockHeight;
+  }
+
+  // Changes are written before the flush is committed so that they are delivered at least once.
+  // If the flush fails the blocks will be indexed again and the changes will be written again.
+  // The delivered height is flushed in the same transaction as the entities
+  private async writeChanges(flushAll?: boolean, blockHeight?: number): Promise<void> {
+    if (!this.changeWriter) return;
+
+    const events = Object.values(this.cachedModels)
+      .flatMap((model) => model.getChangeEvents?.(blockHeight) ?? [])
+      .sort((a, b) => a.blockHeight - b.blockHeight || a.operationIndex - b.operationIndex)
+      .map(({operationIndex, ...event}) => event);
+
+    await this.changeWriter.write(events);
+
+    const deliveredHeight = flushAll ? await this.metadata.find('lastProcessedHeight') : blockHeight;
+    if (deliveredHeight !== undefined) {
+      this.metadata.set('changeSinkHeight', deliveredHeight);
+    }
+  }
+
+  // Notify the change sink that changes after the block height are no longer valid, they will be written again once reindexed
+  async rewindChanges(targetBlockHeight: number): Promise<void> {
+    if (!this.changeWriter) return;
+
+    const event: ChangeEvent = {operation: 'Rewind', blockHeight: targetBlockHeight};
+    await this.changeWriter.write([event]);
+
+    const deliveredHeight = await this.metadata.find('changeSinkHeight');
+    if (deliveredHeight !== undefined && deliveredHeight > targetBlockHeight) {
+      this.metadata.set('changeSinkHeight', targetBlockHeight);
+    }
+  }
+
+  /**
+   * Compares the height delivered to the change sink with the indexed height when the node starts.
+   * A different sink receives changes after the indexed height, the same sink replays changes that were indexed without it
+   * @returns the height to reindex from so that the changes are replayed
+   * */
+  async initChangeSink(lastProcessedHeight?: number): Promise<number | undefined> {
+    // Nothing is written to the change sink in a dry run
+    if (!this.changeWriter || !this.config.changeSink || this.config.dryRun) return;
+
+    const {changeSink, changeSinkHeight} = await this.metadata.findMany(['changeSink', 'changeSinkHeight']);
+    this.metadata.set('changeSink', this.config.changeSink);
+    if (lastProcessedHeight === undefined) return;
+
+    if (changeSink !== this.config.changeSink || changeSinkHeight === undefined) {
+      logger.warn(
+        `Changes up to block ${lastProcessedHeight} have not been delivered to the change sink, it will receive changes after this block`
+      );
+      this.metadata.set('changeSinkHeight', lastProcessedHeight);
+      return;
+    }
+    if (changeSinkHeight >= lastProcessedHeight) return;
+
+    if (!this._historical) {
+      logger.warn(
+        `Changes from block ${changeSinkHeight} to ${lastProcessedHeight} were indexed without the change sink, they can only be replayed with historical indexing`
+      );
+      this.metadata.set('changeSinkHeight', lastProcessedHeight);
+      return;
+    }
+    logger.info(`Replaying changes after block ${changeSinkHeight} to the change sink`);
+    return changeSinkHeight;
+  }
+
   _resetCache(): void {
     for (const model of Object.values(this.cachedModels)) {
       model.clear();
     }
   }
 
+  async flushCache(forceFlush?: boolean, flushAll?: boolean): Promise<void> {
+    // Nothing is flushed in a dry run, indexing stops once the cache is full so that memory usage is bounded
+    if (this.config.dryRun) {
+      if (this.flushableRecords >= this.cacheUpperLimit) {
+        throw new DryRunCompleteError(this.cacheUpperLimit);
+      }
+      return;
+    }
+    return super.flushCache(forceFlush, flushAll);
+  }
+
   async flushAndWaitForCapacity(forceFlush?: boolean, flushAll?: boolean): Promise<void> {
     const flushableRecords = this.flushableRecords;
 
@@ -175,7 +355,48 @@ export class StoreCacheService extends BaseCacheService {
     this.eventEmitter.emit(IndexerEvent.StoreCacheRecordsSize, {
       value: numOfRecords,
     });
+    if (this.config.dryRun) {
+      return false;
+    }
     const timeBasedFlush = new Date().getTime() - this._lastFlushTs.getTime() > this.config.storeFlushInterval * 1000;
     return numOfRecords >= this.storeCacheThreshold || timeBasedFlush;
   }
+
+  // Summarise the changes for each entity that would have been written to the db
+  async dryRunSummary(): Promise<Record<string, CachedModelChanges>> {
+    const summary: Record<string, CachedModelChanges> = {};
+    for (const [entity, model] of Object.entries(this.cachedModels)) {
+      if (model.describeChanges) {
+        summary[entity] = await model.describeChanges(DRY_RUN_SAMPLE_SIZE);
+      }
+    }
+    return summary;
+  }
+
+  async beforeApplicationShutdown(): Promise<void> {
+    if (!this.config.dryRun) {
+      return super.beforeApplicationShutdown();
+    }
+
+    await this.logDryRunSummary();
+  }
+
+  private async logDryRunSummary(): Promise<void> {
+    const summary = await this.dryRunSummary();
+    for (const [entity, changes] of Object.entries(summary)) {
+      logger.info(
+        `Dry run ${entity}: ${changes.created} created, ${changes.updated} updated, ${changes.removed} removed`
+      );
+      changes.samples.forEach((sample) => logger.info(`Dry run ${entity} sample: ${JSON.stringify(sample)}`));
+    }
+
+    if (this.config.dryRunOutput) {
+      const lastProcessedHeight = await this.metadata.find('lastProcessedHeight');
+      await fs.promises.writeFile(
+        this.config.dryRunOutput,
+        JSON.stringify({lastProcessedHeight, entities: summary}, null, 2)
+      );
+      logger.info(`Dry run summary written to ${this.config.dryRunOutput}`);
+    }
+  }
 }
@@ -1,28 +1,45 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import {FieldsExpression} from '@subql/types-core';
+import {AggregateFunction, FieldsExpression, GetOptions} from '@subql/types-core';
 import {Transaction} from '@subql/x-sequelize';
 import {LRUCache} from 'lru-cache';
+import {EntityChangeEvent} from '../changeSink/types';
+import {OperationEntity} from '../types';
 import {SetValueModel} from './setValueModel';
 
 export type HistoricalModel = {__block_range: any};
 
+// limit and offset are always defined from store
+export type CacheGetOptions<T> = Required<Pick<GetOptions<T>, 'limit' | 'offset'>> &
+  Pick<GetOptions<T>, 'orderBy' | 'orderDirection'>;
+
 export interface ICachedModel<T> {
   get: (id: string) => Promise<T | undefined>;
-  // limit always defined from store
-  getByField: (
+  getByField: (field: keyof T, value: T[keyof T] | T[keyof T][], options: CacheGetOptions<T>) => Promise<T[]>;
+  getByFields: (filter: FieldsExpression<T>[], options: CacheGetOptions<T>) => Promise<T[]>;
+  getOneByField: (field: keyof T, value: T[keyof T]) => Promise<T | undefined>;
+  getAt: (id: string, blockHeight: number) => Promise<T | undefined>;
+  getByFieldAt: (
     field: keyof T,
     value: T[keyof T] | T[keyof T][],
-    options: {limit: number; offset: number}
+    blockHeight: number,
+    options: Pick<CacheGetOptions<T>, 'limit' | 'offset'>
   ) => Promise<T[]>;
-  getByFields: (filter: FieldsExpression<T>[], options: {limit: number; offset: number}) => Promise<T[]>;
-  getOneByField: (field: keyof T, value: T[keyof T]) => Promise<T | undefined>;
+  count: (filter: FieldsExpression<T>[]) => Promise<number>;
+  aggregate: (field: keyof T, fn: AggregateFunction, filter: FieldsExpression<T>[]) => Promise<number | bigint | null>;
   set: (id: string, data: T, blockHeight: number) => void;
   bulkCreate: (data: T[], blockHeight: number) => void;
   bulkUpdate: (data: T[], blockHeight: number, fields?: string[]) => void;
   remove: (id: string, blockHeight: number) => void;
   bulkRemove: (ids: string[], blockHeight: number) => void;
+  increment: (id: string, field: keyof T, delta: number | bigint, blockHeight: number) => Promise<T>;
+  upsert: (
+    id: string,
+    defaults: Omit<T, 'id'>,
+    updater: ((data: T) => T) | Partial<Omit<T, 'id'>> | undefined,
+    blockHeight: number
+  ) => Promise<{data: T; written: boolean}>;
 }
 export interface ICachedModelControl {
   isFlushable: boolean;
@@ -30,6 +47,10 @@ export interface ICachedModelControl {
   flushableRecordCounter: number;
   flush(tx: Transaction, blockHeight?: number): Promise<void>;
   flushOperation?(i: number, tx: Transaction): Promise<void>;
+  // Get the changes that will be flushed, ordered by when they were made
+  getChangeEvents?(blockHeight?: number): OrderedChangeEvent[];
+  // Describe the changes that would be written to the db on flush
+  describeChanges?(sampleSize: number): Promise<CachedModelChanges>;
   /**
    *
    * @param blockHeight if present, clear data that <= ${blockHeight}
@@ -37,6 +58,20 @@ export interface ICachedModelControl {
   clear: (blockHeight?: number) => void;
 }
 
+export type OrderedChangeEvent = EntityChangeEvent & {operationIndex: number};
+
+export type ChangeSample = OperationEntity & {
+  // Fields that differ from the db for updated entities
+  changes?: Record<string, {from: unknown; to: unknown}>;
+};
+
+export type CachedModelChanges = {
+  created: number;
+  updated: number;
+  removed: number;
+  samples: ChangeSample[];
+};
+
 export type FilteredHeightRecords<T> = {
   removeRecords: Record<string, RemoveValue>;
   setRecords: SetData<T>;
@@ -0,0 +1,79 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {Op} from '@subql/x-sequelize';
+import {compareValues, fieldsExpressionToWhere, matchFieldsExpression} from './utils';
+
+type TestEntity = {
+  id: string;
+  amount: bigint | null;
+  name?: string;
+  createdAt?: Date;
+};
+
+describe('store cache utils', () => {
+  const entity: TestEntity = {
+    id: 'entity_1',
+    amount: BigInt(100),
+    name: 'Polkadot Token',
+    createdAt: new Date(1000),
+  };
+
+  it('matches comparison operators', () => {
+    expect(matchFieldsExpression(entity, ['amount', '>', BigInt(99)])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', '>', BigInt(100)])).toBeFalsy();
+    expect(matchFieldsExpression(entity, ['amount', '>=', BigInt(100)])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', '<', BigInt(101)])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', '<=', BigInt(99)])).toBeFalsy();
+    expect(matchFieldsExpression(entity, ['createdAt', '>', new Date(999)])).toBeTruthy();
+  });
+
+  it('matches between inclusively', () => {
+    expect(matchFieldsExpression(entity, ['amount', 'between', [BigInt(100), BigInt(200)]])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', 'between', [BigInt(0), BigInt(100)]])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', 'between', [BigInt(101), BigInt(200)]])).toBeFalsy();
+  });
+
+  it('matches like and ilike patterns', () => {
+    expect(matchFieldsExpression(entity, ['name', 'like', 'Polka%'])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['name', 'like', 'polka%'])).toBeFalsy();
+    expect(matchFieldsExpression(entity, ['name', 'ilike', 'polka%'])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['name', 'like', '_olkadot Token'])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['name', 'like', 'Polkadot.Token'])).toBeFalsy();
+    expect(matchFieldsExpression({...entity, name: '100%'}, ['name', 'like', '100\\%'])).toBeTruthy();
+  });
+
+  it('handles null values the same as SQL', () => {
+    const nullEntity: TestEntity = {id: 'entity_2', amount: null};
+    expect(matchFieldsExpression(nullEntity, ['amount', 'isNull', true])).toBeTruthy();
+    expect(matchFieldsExpression(nullEntity, ['name', 'isNull', true])).toBeTruthy();
+    expect(matchFieldsExpression(entity, ['amount', 'isNull', false])).toBeTruthy();
+    expect(matchFieldsExpression(nullEntity, ['amount', '!=', BigInt(1)])).toBeFalsy();
+    expect(matchFieldsExpression(nullEntity, ['amount', '<', BigInt(1)])).toBeFalsy();
+  });
+
+  it('orders null values last', () => {
+    expect([null, 3, 1, undefined, 2].sort(compareValues)).toEqual([1, 2, 3, null, undefined]);
+  });
+
+  it('orders strings by code point', () => {
+    expect(['b', 'éclair', '\u{1F600}', 'B', '\uFF21', 'a', 'A'].sort(compareValues)).toEqual([
+      'A',
+      'B',
+      'a',
+      'b',
+      'éclair',
+      '\uFF21',
+      '\u{1F600}',
+    ]);
+    expect(matchFieldsExpression(entity, ['name', '>', 'polkadot'])).toBeFalsy();
+    expect(matchFieldsExpression({...entity, name: '\u{1F600}'}, ['name', '>', '\uFF21'])).toBeTruthy();
+  });
+
+  it('converts expressions to where options', () => {
+    expect(fieldsExpressionToWhere<TestEntity>(['amount', '>=', BigInt(1)])).toEqual({amount: {[Op.gte]: BigInt(1)}});
+    expect(fieldsExpressionToWhere<TestEntity>(['name', 'ilike', 'a%'])).toEqual({name: {[Op.iLike]: 'a%'}});
+    expect(fieldsExpressionToWhere<TestEntity>(['name', 'isNull', true])).toEqual({name: {[Op.is]: null}});
+    expect(fieldsExpressionToWhere<TestEntity>(['name', 'isNull', false])).toEqual({name: {[Op.not]: null}});
+  });
+});
@@ -0,0 +1,166 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import assert from 'assert';
+import {FieldOperators, FieldsExpression} from '@subql/types-core';
+import {Op, Utils, WhereOptions} from '@subql/x-sequelize';
+import {escapeRegExp, includes, isEqual} from 'lodash';
+import {postgresDialect} from '../../db/dialects';
+
+const operatorsMap: Record<Exclude<FieldOperators, 'isNull'>, symbol> = {
+  '=': Op.eq,
+  '!=': Op.ne,
+  '>': Op.gt,
+  '>=': Op.gte,
+  '<': Op.lt,
+  '<=': Op.lte,
+  in: Op.in,
+  '!in': Op.notIn,
+  between: Op.between,
+  like: Op.like,
+  ilike: Op.iLike,
+};
+
+const validOperators = [...Object.keys(operatorsMap), 'isNull'];
+
+const orderedOperators: FieldOperators[] = ['>', '>=', '<', '<=', 'between'];
+
+export function validateFieldsExpression<T>([field, operator, value]: FieldsExpression<T>): void {
+  assert(
+    includes(validOperators, operator),
+    `Operator ('${operator}') for field ${String(field)} is not valid. Options are ${validOperators.join(', ')}`
+  );
+  if (operator === 'in' || operator === '!in') {
+    assert(Array.isArray(value), `Operator ('${operator}') for field ${String(field)} requires an array value`);
+  }
+  if (operator === 'between') {
+    assert(
+      Array.isArray(value) && value.length === 2,
+      `Operator ('between') for field ${String(field)} requires a [lower, upper] value`
+    );
+  }
+  if (operator === 'like' || operator === 'ilike') {
+    assert(typeof value === 'string', `Operator ('${operator}') for field ${String(field)} requires a string value`);
+  }
+  if (operator === 'isNull') {
+    assert(typeof value === 'boolean', `Operator ('isNull') for field ${String(field)} requires a boolean value`);
+  }
+}
+
+// Convert a filter into a sequelize where clause.
+// Text columns are compared with `textColumn` so that the db gives the same result as `compareValues`
+export function fieldsExpressionToWhere<T>(
+  [field, operator, value]: FieldsExpression<T>,
+  textColumn: Utils.Literal | undefined = field === 'id' ? postgresDialect.idColumn : undefined
+): WhereOptions {
+  if (operator === 'isNull') {
+    return {[field]: value ? {[Op.is]: null} : {[Op.not]: null}};
+  }
+  if (textColumn && includes(orderedOperators, operator)) {
+    // Comparator types don't include operator symbols but they are supported
+    return new Utils.Where(textColumn, operatorsMap[operator] as unknown as string, value as string | object);
+  }
+  return {[field]: {[operatorsMap[operator]]: value}};
+}
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+/**
+ * Compares 2 values the same way postgres would for ordering, null values are considered larger than any other value.
+ * Numbers and bigints can be compared with each other, other mixed types are compared as strings.
+ * Strings are compared by code point, this matches the collation from `StorageDialect.textColumn`.
+ * */
+export function compareValues(a: unknown, b: unknown): number {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (x === null || y === null) {
+    return x === y ? 0 : x === null ? 1 : -1;
+  }
+  const numeric = (v: unknown) => typeof v === 'number' || typeof v === 'bigint';
+  if (numeric(x) && numeric(y)) {
+    return x === y ? 0 : (x as number) < (y as number) ? -1 : (x as number) > (y as number) ? 1 : 0;
+  }
+  if (typeof x !== typeof y) {
+    return compareValues(String(x), String(y));
+  }
+  if (typeof x === 'string') {
+    // JS compares UTF-16 code units which differs from code point order for characters outside the BMP
+    return Buffer.compare(Buffer.from(x), Buffer.from(y as string));
+  }
+  return x === y ? 0 : (x as boolean) < (y as boolean) ? -1 : 1;
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
+
+// Evaluates a filter against an in memory record, this should give the same result as `fieldsExpressionToWhere` would in the db
+export function matchFieldsExpression<T>(data: T, [field, operator, value]: FieldsExpression<T>): boolean {
+  const fieldValue = normalize(data[field]);
+
+  switch (operator) {
+    case 'isNull':
+      return value === (fieldValue === null);
+    case '=':
+      return isEqual(fieldValue, normalize(value));
+    case 'in':
+      return (value as unknown[]).some((v) => isEqual(fieldValue, normalize(v)));
+    default:
+  }
+
+  // Comparisons with null are never true in SQL
+  if (fieldValue === null) {
+    return false;
+  }
+
+  switch (operator) {
+    case '!=':
+      return !isEqual(fieldValue, normalize(value));
+    case '!in':
+      return !(value as unknown[]).some((v) => isEqual(fieldValue, normalize(v)));
+    case '>':
+      return compareValues(fieldValue, value) > 0;
+    case '>=':
+      return compareValues(fieldValue, value) >= 0;
+    case '<':
+      return compareValues(fieldValue, value) < 0;
+    case '<=':
+      return compareValues(fieldValue, value) <= 0;
+    case 'between': {
+      const [lower, upper] = value as unknown[];
+      return compareValues(fieldValue, lower) >= 0 && compareValues(fieldValue, upper) <= 0;
+    }
+    case 'like':
+    case 'ilike':
+      return likeToRegExp(value as string, operator === 'ilike').test(String(fieldValue));
+    default:
+      throw new Error(`Operator ('${operator}') for field ${String(field)} is not valid`);
+  }
+}
+
+export function matchFieldsExpressions<T>(data: T, filter: FieldsExpression<T>[]): boolean {
+  return filter.every((expression) => matchFieldsExpression(data, expression));
+}
+
+// Sorts records by a field with id as a tie breaker, matching `ORDER BY field, id` in the db
+export function sortRecords<T extends {id: string}>(records: T[], orderBy: keyof T, direction: 'ASC' | 'DESC'): T[] {
+  const modifier = direction === 'DESC' ? -1 : 1;
+  return [...records].sort((a, b) => modifier * (compareValues(a[orderBy], b[orderBy]) || compareValues(a.id, b.id)));
+}
@@ -3,6 +3,7 @@
 
 // import { Header } from '@polkadot/types/interfaces';
 import {EventEmitter2} from '@nestjs/event-emitter';
+import {postgresDialect} from '../db/dialects';
 import {StoreCacheService, CacheMetadataModel} from './storeCache';
 import {
   METADATA_LAST_FINALIZED_PROCESSED_KEY,
@@ -236,7 +237,7 @@ describe('UnfinalizedBlocksService', () => {
   it('can rewind any unfinalized blocks when restarted and unfinalized blocks is disabled', async () => {
     const storeCache = new StoreCacheService(null as any, {storeCacheThreshold: 300} as any, new EventEmitter2());
 
-    storeCache.init(true, false, {} as any, undefined);
+    storeCache.init(true, postgresDialect, {} as any, undefined);
 
     storeCache.metadata.set(
       METADATA_UNFINALIZED_BLOCKS_KEY,
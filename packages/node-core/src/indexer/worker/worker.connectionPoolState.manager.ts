@@ -3,6 +3,7 @@
 
 import {isMainThread} from 'node:worker_threads';
 import {Injectable} from '@nestjs/common';
+import {IEndpointConfig} from '@subql/types-core';
 import {ApiErrorType} from '../../api.connection.error';
 import {IApiConnectionSpecific} from '../../api.service';
 import {
@@ -13,7 +14,7 @@ import {
 
 export type HostConnectionPoolState<T> = {
   hostGetNextConnectedEndpoint: (connectedEndpoints?: string[]) => Promise<string | undefined>;
-  hostAddToConnections: (endpoint: string, primary: boolean) => Promise<void>;
+  hostAddToConnections: (endpoint: string, primary: boolean, config?: IEndpointConfig) => Promise<void>;
   hostGetFieldFromConnectionPoolItem: <K extends keyof ConnectionPoolItem<T>>(
     endpoint: string,
     field: K
@@ -28,6 +29,8 @@ export type HostConnectionPoolState<T> = {
   hostHandleBatchApiSuccess(successResults: Array<{endpoint: string; responseTime: number}>): Promise<void>;
   hostHandleBatchApiError(errorResults: Array<{endpoint: string; errorType: ApiErrorType}>): Promise<void>;
   hostGetDisconnectedEndpoints: () => Promise<string[]>;
+  hostAcquireRequest: (endpoint: string, hedged?: boolean) => Promise<number | undefined>;
+  hostReleaseRequest: (endpoint: string) => Promise<void>;
 };
 
 export const hostConnectionPoolStateKeys: (keyof HostConnectionPoolState<any>)[] = [
@@ -40,6 +43,8 @@ export const hostConnectionPoolStateKeys: (keyof HostConnectionPoolState<any>)[]
   'hostHandleBatchApiError',
   'hostHandleBatchApiSuccess',
   'hostGetDisconnectedEndpoints',
+  'hostAcquireRequest',
+  'hostReleaseRequest',
 ];
 
 export function connectionPoolStateHostFunctions<T extends IApiConnectionSpecific>(
@@ -55,6 +60,8 @@ export function connectionPoolStateHostFunctions<T extends IApiConnectionSpecifi
     hostHandleBatchApiError: connectionPoolState.handleBatchApiError.bind(connectionPoolState),
     hostHandleBatchApiSuccess: connectionPoolState.handleBatchApiSuccess.bind(connectionPoolState),
     hostGetDisconnectedEndpoints: connectionPoolState.getDisconnectedEndpoints.bind(connectionPoolState),
+    hostAcquireRequest: connectionPoolState.acquireRequest.bind(connectionPoolState),
+    hostReleaseRequest: connectionPoolState.releaseRequest.bind(connectionPoolState),
   };
 }
 
@@ -72,8 +79,8 @@ export class WorkerConnectionPoolStateManager<T extends IApiConnectionSpecific>
     return this.host.hostGetNextConnectedEndpoint(connectedEndpoints);
   }
 
-  async addToConnections(endpoint: string, primary = false): Promise<void> {
-    return this.host.hostAddToConnections(endpoint, primary);
+  async addToConnections(endpoint: string, primary = false, config?: IEndpointConfig): Promise<void> {
+    return this.host.hostAddToConnections(endpoint, primary, config);
   }
 
   async getFieldValue<K extends keyof ConnectionPoolItem<T>>(
@@ -120,4 +127,12 @@ export class WorkerConnectionPoolStateManager<T extends IApiConnectionSpecific>
   async getDisconnectedEndpoints(): Promise<string[]> {
     return this.host.hostGetDisconnectedEndpoints();
   }
+
+  async acquireRequest(endpoint: string, hedged = false): Promise<number | undefined> {
+    return this.host.hostAcquireRequest(endpoint, hedged);
+  }
+
+  async releaseRequest(endpoint: string): Promise<void> {
+    return this.host.hostReleaseRequest(endpoint);
+  }
 }
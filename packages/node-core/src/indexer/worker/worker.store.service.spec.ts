@@ -0,0 +1,124 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {EventEmitter2} from '@nestjs/event-emitter';
+import {Store} from '@subql/types-core';
+import {buildSchemaFromString, getAllEntitiesRelations} from '@subql/utils';
+import {Sequelize} from '@subql/x-sequelize';
+import {NodeConfig} from '../../configure';
+import {StoreService} from '../store.service';
+import {StoreCacheService} from '../storeCache';
+import {ISubqueryProject} from '../types';
+import {HostStore, hostStoreKeys, hostStoreToStore, storeHostFunctions} from './worker.store.service';
+
+const schema = `
+type Account @entity {
+  id: ID!
+  name: String!
+  balance: BigInt! @index
+}
+`;
+
+// Copies arguments and results and yields between them the same way messages between threads do
+function threadBoundary(host: HostStore): HostStore {
+  return hostStoreKeys.reduce((acc, key) => {
+    acc[key] = jest.fn(async (...args: any[]) => {
+      await new Promise(setImmediate);
+      const result = await (host[key] as any)(...structuredClone(args));
+      await new Promise(setImmediate);
+      return structuredClone(result);
+    });
+    return acc;
+  }, {} as HostStore);
+}
+
+describe('Worker Store Service proxy', () => {
+  let sequelize: Sequelize;
+  let host: HostStore;
+  let workerStore: Store;
+
+  beforeEach(async () => {
+    sequelize = new Sequelize({dialect: 'sqlite', storage: ':memory:', logging: false});
+
+    const config = new NodeConfig({subquery: 'test', dbSchema: 'test', dbType: 'sqlite'});
+    const project = {
+      network: {chainId: 'chain-id'},
+      schema: buildSchemaFromString(schema),
+    } as unknown as ISubqueryProject;
+
+    const storeService = new StoreService(
+      sequelize,
+      config,
+      new StoreCacheService(sequelize, config, new EventEmitter2()),
+      project
+    );
+    await storeService.initCoreTables('test');
+    await storeService.init(getAllEntitiesRelations(project.schema), 'test');
+    storeService.setBlockHeight(1);
+
+    host = threadBoundary(storeHostFunctions(storeService.getStore()));
+    workerStore = hostStoreToStore(host);
+  });
+
+  afterEach(async () => {
+    await sequelize.close();
+  });
+
+  it('creates entities from the defaults with a single host call', async () => {
+    await expect(
+      Promise.all([
+        workerStore.upsert<any>('Account', 'alice', {name: 'Alice', balance: BigInt(1)}),
+        hostStoreToStore(host).upsert<any>('Account', 'alice', {name: 'Other', balance: BigInt(2)}),
+      ])
+    ).resolves.toEqual([
+      expect.objectContaining({id: 'alice', name: 'Alice', balance: BigInt(1)}),
+      expect.objectContaining({id: 'alice', name: 'Alice', balance: BigInt(1)}),
+    ]);
+    expect(host.storeUpsert).toHaveBeenCalledTimes(2);
+  });
+
+  it('merges fields on the host without losing concurrent updates from other workers', async () => {
+    await workerStore.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(100)} as any);
+    const otherWorkerStore = hostStoreToStore(host);
+
+    await Promise.all([
+      workerStore.upsert<any>('Account', 'alice', {name: 'Alice', balance: BigInt(0)}, {name: 'Alice A'}),
+      otherWorkerStore.increment('Account', 'alice', 'balance', BigInt(5)),
+      otherWorkerStore.increment('Account', 'alice', 'balance', BigInt(5)),
+    ]);
+
+    await expect(workerStore.get('Account', 'alice')).resolves.toEqual(
+      expect.objectContaining({id: 'alice', name: 'Alice A', balance: BigInt(110)})
+    );
+  });
+
+  // Updater functions can't be sent to the host, applying them between a get and a set would lose concurrent updates
+  it('rejects updater functions', async () => {
+    await workerStore.set('Account', 'alice', {id: 'alice', name: 'Alice', balance: BigInt(100)} as any);
+
+    await expect(
+      workerStore.upsert<any>('Account', 'alice', {name: 'Alice', balance: BigInt(0)}, (account) => ({
+        ...account,
+        name: 'Alice A',
+      }))
+    ).rejects.toThrow(
+      'Upsert of Account with an updater function is not supported with workers, pass the fields to merge instead'
+    );
+    expect(host.storeGet).not.toHaveBeenCalled();
+    expect(host.storeUpsert).not.toHaveBeenCalled();
+  });
+
+  it('iterates over entities in batches', async () => {
+    for (const id of ['e', 'c', 'a', 'd', 'b']) {
+      await workerStore.set('Account', id, {id, name: id.toUpperCase(), balance: BigInt(1)} as any);
+    }
+
+    const ids: string[] = [];
+    for await (const account of workerStore.iterate<any>('Account', [['balance', '=', BigInt(1)]], {batchSize: 2})) {
+      ids.push(account.id);
+    }
+
+    expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(host.storeGetByFields).toHaveBeenCalledTimes(4);
+  });
+});
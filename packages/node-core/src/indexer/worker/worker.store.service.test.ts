@@ -48,6 +48,13 @@ describe('Worker Store Service', () => {
       get: jest.fn(),
       getByField: jest.fn(() => Promise.resolve([/*{ field: '1'} as any*/ new EntityCls('1', '1') as any])),
       getByFields: jest.fn(),
+      iterate: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+      increment: jest.fn(),
+      getAt: jest.fn(),
+      getByFieldAt: jest.fn(),
+      upsert: jest.fn(),
       getOneByField: jest.fn(),
       set: jest.fn(),
       bulkCreate: jest.fn(),
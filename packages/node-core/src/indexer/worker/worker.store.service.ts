@@ -1,29 +1,39 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import {Store, FieldsExpression} from '@subql/types-core';
+import {Store, AggregateFunction, Entity, FieldsExpression, GetOptions, HistoricalGetOptions} from '@subql/types-core';
+import {iterateByFields} from '../store/utils';
 import {unwrapProxyArgs} from './utils';
 
 export type HostStore = {
   // This matches the store interface
   storeGet: (entity: string, id: string) => Promise<any | null>;
-  storeGetByField: (
+  storeGetByField: (entity: string, field: string, value: any, options?: GetOptions<any>) => Promise<any[]>;
+  storeGetByFields: (entity: string, filter: FieldsExpression<any>[], options?: GetOptions<any>) => Promise<any[]>;
+  storeGetOneByField: (entity: string, field: string, value: any) => Promise<any | null>;
+  storeGetAt: (entity: string, id: string, blockHeight: number) => Promise<any | null>;
+  storeGetByFieldAt: (
     entity: string,
     field: string,
     value: any,
-    options?: {offset?: number; limit?: number}
+    blockHeight: number,
+    options?: HistoricalGetOptions
   ) => Promise<any[]>;
-  storeGetByFields: (
+  storeCount: (entity: string, filter?: FieldsExpression<any>[]) => Promise<number>;
+  storeAggregate: (
     entity: string,
-    filter: FieldsExpression<any>[],
-    options?: {offset?: number; limit?: number}
-  ) => Promise<any[]>;
-  storeGetOneByField: (entity: string, field: string, value: any) => Promise<any | null>;
+    field: string,
+    fn: AggregateFunction,
+    filter?: FieldsExpression<any>[]
+  ) => Promise<number | bigint | null>;
   storeSet: (entity: string, id: string, data: any) => Promise<void>;
   storeBulkCreate: (entity: string, data: any[]) => Promise<void>;
   storeBulkUpdate: (entity: string, data: any[], fields?: string[]) => Promise<void>;
   storeRemove: (entity: string, id: string) => Promise<void>;
   storeBulkRemove: (entity: string, ids: string[]) => Promise<void>;
+  storeIncrement: (entity: string, id: string, field: string, delta: number | bigint) => Promise<number | bigint>;
+  // Only takes fields to merge as the updater, functions can't be passed between threads
+  storeUpsert: (entity: string, id: string, defaults: any, updater?: Record<string, unknown>) => Promise<any>;
 };
 
 export const hostStoreKeys: (keyof HostStore)[] = [
@@ -31,26 +41,56 @@ export const hostStoreKeys: (keyof HostStore)[] = [
   'storeGetByField',
   'storeGetByFields',
   'storeGetOneByField',
+  'storeGetAt',
+  'storeGetByFieldAt',
+  'storeCount',
+  'storeAggregate',
   'storeSet',
   'storeBulkCreate',
   'storeBulkUpdate',
   'storeRemove',
   'storeBulkRemove',
+  'storeIncrement',
+  'storeUpsert',
 ];
 
 // Entities have to be converted to plain objects so they can be serialized.
 // We don't need the funcitons to be included
 export const hostStoreToStore = (host: HostStore): Store => {
+  const getByFields = unwrapProxyArgs(host.storeGetByFields);
+  const upsert = unwrapProxyArgs(host.storeUpsert);
   return {
     get: unwrapProxyArgs(host.storeGet),
     getByField: unwrapProxyArgs(host.storeGetByField),
-    getByFields: unwrapProxyArgs(host.storeGetByFields),
+    getByFields,
     getOneByField: unwrapProxyArgs(host.storeGetOneByField),
+    getAt: unwrapProxyArgs(host.storeGetAt),
+    getByFieldAt: unwrapProxyArgs(host.storeGetByFieldAt),
+    count: unwrapProxyArgs(host.storeCount),
+    aggregate: unwrapProxyArgs(host.storeAggregate),
+    // Generators can't be passed between threads so this is built on top of getByFields
+    iterate: (entity, filter, options) =>
+      iterateByFields((f, o) => getByFields(entity, f, o), filter, options?.batchSize),
     set: unwrapProxyArgs(host.storeSet),
     bulkCreate: unwrapProxyArgs(host.storeBulkCreate),
     bulkUpdate: unwrapProxyArgs(host.storeBulkUpdate),
     remove: unwrapProxyArgs(host.storeRemove),
     bulkRemove: unwrapProxyArgs(host.storeBulkRemove),
+    increment: unwrapProxyArgs(host.storeIncrement),
+    upsert: async <T extends Entity>(
+      entity: string,
+      id: string,
+      defaults: Omit<T, 'id'>,
+      updater?: ((entity: T) => T) | Partial<Omit<T, 'id'>>
+    ): Promise<T> => {
+      // Functions can't be passed between threads, applying them in the worker would not be atomic
+      if (typeof updater === 'function') {
+        throw new Error(
+          `Upsert of ${entity} with an updater function is not supported with workers, pass the fields to merge instead`
+        );
+      }
+      return upsert(entity, id, defaults, updater);
+    },
   };
 };
 
@@ -60,10 +100,16 @@ export function storeHostFunctions(store: Store): HostStore {
     storeGetByField: store.getByField.bind(store),
     storeGetByFields: store.getByFields.bind(store),
     storeGetOneByField: store.getOneByField.bind(store),
+    storeGetAt: store.getAt.bind(store),
+    storeGetByFieldAt: store.getByFieldAt.bind(store),
+    storeCount: store.count.bind(store),
+    storeAggregate: store.aggregate.bind(store),
     storeSet: store.set.bind(store),
     storeBulkCreate: store.bulkCreate.bind(store),
     storeBulkUpdate: store.bulkUpdate.bind(store),
     storeRemove: store.remove.bind(store),
     storeBulkRemove: store.bulkRemove.bind(store),
+    storeIncrement: store.increment.bind(store),
+    storeUpsert: store.upsert.bind(store),
   };
 }
@@ -3,9 +3,11 @@
 
 import {OnEvent} from '@nestjs/event-emitter';
 import {InjectMetric} from '@willsoto/nestjs-prometheus';
-import {Gauge} from 'prom-client';
+import {Counter, Gauge} from 'prom-client';
 import {
   BestBlockPayload,
+  EndpointHedgedRequestPayload,
+  EndpointMetricsPayload,
   EventPayload,
   IndexerEvent,
   ProcessBlockPayload,
@@ -38,7 +40,13 @@ export class MetricEventListener {
     @InjectMetric('subql_indexer_store_cache_threshold')
     private storeCacheThreshold: Gauge<string>,
     @InjectMetric('subql_indexer_store_cache_records_size')
-    private storeCacheRecordsSize: Gauge<string>
+    private storeCacheRecordsSize: Gauge<string>,
+    @InjectMetric('subql_indexer_endpoint_latency')
+    private endpointLatency: Gauge<string>,
+    @InjectMetric('subql_indexer_endpoint_active_requests')
+    private endpointActiveRequests: Gauge<string>,
+    @InjectMetric('subql_indexer_endpoint_hedged_requests')
+    private endpointHedgedRequests: Counter<string>
   ) {}
 
   @OnEvent(IndexerEvent.ApiConnected)
@@ -96,4 +104,17 @@ export class MetricEventListener {
   handleStoreCacheRecordsSize({value}: EventPayload<number>): void {
     this.storeCacheRecordsSize.set(value);
   }
+
+  @OnEvent(IndexerEvent.EndpointMetrics)
+  handleEndpointMetrics({activeRequests, endpoint, latency}: EndpointMetricsPayload): void {
+    if (latency !== undefined) {
+      this.endpointLatency.set({endpoint}, latency);
+    }
+    this.endpointActiveRequests.set({endpoint}, activeRequests);
+  }
+
+  @OnEvent(IndexerEvent.EndpointHedgedRequest)
+  handleEndpointHedgedRequest({endpoint}: EndpointHedgedRequestPayload): void {
+    this.endpointHedgedRequests.inc({endpoint});
+  }
 }
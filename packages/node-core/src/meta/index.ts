@@ -4,7 +4,7 @@
 import {MetricEventListener} from './event.listener';
 import {HealthController} from './health.controller';
 import {HealthService} from './health.service';
-import {gaugeProviders} from './meta';
+import {counterProviders, gaugeProviders} from './meta';
 import {ReadyController} from './ready.controller';
 import {ReadyService} from './ready.service';
 
@@ -12,4 +12,4 @@ export * from './meta.service';
 
 export const metaControllers = [HealthController, ReadyController];
 
-export const metaServices = [MetricEventListener, HealthService, ReadyService, ...gaugeProviders];
+export const metaServices = [MetricEventListener, HealthService, ReadyService, ...gaugeProviders, ...counterProviders];
@@ -1,7 +1,7 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
-import {makeGaugeProvider} from '@willsoto/nestjs-prometheus';
+import {makeCounterProvider, makeGaugeProvider} from '@willsoto/nestjs-prometheus';
 
 export const gaugeProviders = [
   makeGaugeProvider({
@@ -48,4 +48,22 @@ export const gaugeProviders = [
     name: 'subql_indexer_store_cache_records_size',
     help: 'Number of records waiting to flush in store cache',
   }),
+  makeGaugeProvider({
+    name: 'subql_indexer_endpoint_latency',
+    help: 'The average response time of a network endpoint in ms',
+    labelNames: ['endpoint'],
+  }),
+  makeGaugeProvider({
+    name: 'subql_indexer_endpoint_active_requests',
+    help: 'The number of requests in progress to a network endpoint',
+    labelNames: ['endpoint'],
+  }),
+];
+
+export const counterProviders = [
+  makeCounterProvider({
+    name: 'subql_indexer_endpoint_hedged_requests',
+    help: 'The number of hedged requests sent to a network endpoint because another endpoint was slow',
+    labelNames: ['endpoint'],
+  }),
 ];
@@ -0,0 +1,34 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {Inject, Injectable} from '@nestjs/common';
+import {getAllEntitiesRelations} from '@subql/utils';
+import {Sequelize} from '@subql/x-sequelize';
+import {NodeConfig} from '../configure';
+import {SchemaMigration} from '../db/migrations';
+import {ISubqueryProject, StoreService} from '../indexer';
+import {getLogger} from '../logger';
+import {getExistingProjectSchema} from '../utils';
+
+const logger = getLogger('Migrate');
+
+@Injectable()
+export class MigrateService {
+  constructor(
+    private readonly sequelize: Sequelize,
+    private readonly nodeConfig: NodeConfig,
+    private readonly storeService: StoreService,
+    @Inject('ISubqueryProject') private readonly project: ISubqueryProject
+  ) {}
+
+  // Diffs the project schema with the schema in the db, nothing is written to the db
+  async plan(): Promise<SchemaMigration> {
+    const schema = await getExistingProjectSchema(this.nodeConfig, this.sequelize);
+    if (!schema) {
+      logger.warn(`Schema ${this.nodeConfig.dbSchema} does not exist, it will be created when the project is indexed`);
+    }
+
+    const modelsRelations = getAllEntitiesRelations(this.project.schema);
+    return this.storeService.planSchemaMigration(modelsRelations, schema ?? this.nodeConfig.dbSchema);
+  }
+}
@@ -3,7 +3,7 @@
 
 import path from 'path';
 import {ReaderFactory} from '@subql/common';
-import {rebaseArgsWithManifest} from '../utils/configure';
+import {normalizeNetworkEndpoints, rebaseArgsWithManifest} from '../utils/configure';
 
 jest.setTimeout(30000);
 
@@ -28,4 +28,21 @@ describe('configure utils', () => {
     // Args could override manifest options
     expect(mockArgv.unsafe).toBeFalsy();
   });
+
+  it('normalizes network endpoints to a map of options', () => {
+    expect(normalizeNetworkEndpoints('wss://a.com')).toEqual({'wss://a.com': {}});
+    expect(normalizeNetworkEndpoints(['wss://a.com', 'https://b.com'])).toEqual({
+      'wss://a.com': {},
+      'https://b.com': {},
+    });
+    expect(
+      normalizeNetworkEndpoints({
+        'wss://a.com': {headers: {apikey: 'key'}, rateLimit: 10},
+        'https://b.com': null,
+      })
+    ).toEqual({
+      'wss://a.com': {headers: {apikey: 'key'}, rateLimit: 10},
+      'https://b.com': {},
+    });
+  });
 });
@@ -3,6 +3,7 @@
 
 import path from 'path';
 import {getProjectRootAndManifest, IPFS_REGEX, RunnerNodeOptionsModel} from '@subql/common';
+import {IEndpointConfig} from '@subql/types-core';
 import {plainToClass} from 'class-transformer';
 import {last} from 'lodash';
 import {IConfig, MinConfig} from '../configure/NodeConfig';
@@ -15,6 +16,26 @@ export interface ArgvOverrideOptions {
   skipTransactions?: boolean;
 }
 
+// Converts the different ways of listing network endpoints to a map of endpoints to their options
+export function normalizeNetworkEndpoints(
+  endpoint: string | string[] | Record<string, IEndpointConfig | null>
+): Record<string, IEndpointConfig> {
+  if (typeof endpoint === 'string') {
+    return {[endpoint]: {}};
+  }
+  if (Array.isArray(endpoint)) {
+    return endpoint.reduce<Record<string, IEndpointConfig>>((acc, e) => {
+      acc[e] = {};
+      return acc;
+    }, {});
+  }
+  // Endpoints without options can be listed with an empty value in yaml
+  return Object.entries(endpoint).reduce<Record<string, IEndpointConfig>>((acc, [e, config]) => {
+    acc[e] = config ?? {};
+    return acc;
+  }, {});
+}
+
 export function defaultSubqueryName(config: Partial<IConfig>): MinConfig {
   if (config.subquery === undefined) {
     throw new Error(`Must provide local path or IPFS cid of the subquery project`);
@@ -19,11 +19,14 @@ export function modelsTypeToModelAttributes(modelType: GraphQLModelsType, enums:
   return Object.values(fields).reduce((acc, field) => {
     const allowNull = field.nullable;
 
-    const type = field.isEnum
-      ? `${enums.get(field.type)}${field.isArray ? '[]' : ''}`
-      : field.isArray
-      ? getTypeByScalarName('Json')?.sequelizeType
-      : getTypeByScalarName(field.type)?.sequelizeType;
+    // Enums without a db type are stored as strings, the column type can be overridden with the @dbType directive
+    const type =
+      field.dbType ??
+      (field.isEnum && enums.has(field.type)
+        ? `${enums.get(field.type)}${field.isArray ? '[]' : ''}`
+        : field.isArray
+        ? getTypeByScalarName('Json')?.sequelizeType
+        : getTypeByScalarName(field.isEnum ? 'String' : field.type)?.sequelizeType);
 
     if (type === undefined) {
       throw new Error('Unable to get model type');
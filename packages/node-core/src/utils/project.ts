@@ -7,11 +7,12 @@ import path from 'path';
 import {DEFAULT_PORT, findAvailablePort, GithubReader, IPFSReader, LocalReader} from '@subql/common';
 import {BaseAssetsDataSource, BaseCustomDataSource, BaseDataSource, Reader, TemplateBase} from '@subql/types-core';
 import {getAllEntitiesRelations} from '@subql/utils';
-import {QueryTypes, Sequelize} from '@subql/x-sequelize';
+import {Sequelize} from '@subql/x-sequelize';
 import Cron from 'cron-converter';
 import {isNumber, range, uniq, without, flatten, chunk} from 'lodash';
 import tar from 'tar';
 import {NodeConfig} from '../configure/NodeConfig';
+import {getStorageDialect} from '../db/dialects';
 import {ISubqueryProject, StoreService} from '../indexer';
 import {getLogger} from '../logger';
 
@@ -58,10 +59,8 @@ export async function getExistingProjectSchema(
 
   let schemas: string[];
   try {
-    const result = await sequelize.query(`SELECT schema_name FROM information_schema.schemata`, {
-      type: QueryTypes.SELECT,
-    });
-    schemas = result.map((x: any) => x.schema_name);
+    const dialect = await getStorageDialect(sequelize);
+    schemas = await dialect.getSchemas(sequelize);
   } catch (err) {
     logger.error(`Unable to fetch all schemas: ${err}`);
     process.exit(1);
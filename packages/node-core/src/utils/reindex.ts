@@ -58,6 +58,13 @@ export async function reindex(
     await storeService.storeCache.resetCache();
     await forceCleanService.forceClean();
   } else {
+    // Rewinding relies on the historical versions at the target height
+    const historyPrunedHeight = await storeService.storeCache.metadata.find('historyPrunedHeight');
+    if (historyPrunedHeight !== undefined && targetBlockHeight < historyPrunedHeight) {
+      throw new Error(
+        `Unable to reindex to block ${targetBlockHeight}, historical data before block ${historyPrunedHeight} has been pruned. Reindex to block ${historyPrunedHeight} or later, or force clean the project`
+      );
+    }
     logger.info(`Reindexing to block: ${targetBlockHeight}`);
     await storeService.storeCache.flushCache(true, false);
     await storeService.storeCache.resetCache();
@@ -12,6 +12,11 @@ export function modelToTableName(modelName: string): string {
   return Utils.underscoredIf(Utils.pluralize(modelName), true);
 }
 
+// Partial index predicates are literals so that they are not escaped
+export function getIndexPredicate(index: IndexesOptions): string | undefined {
+  return index.where instanceof Utils.Literal ? (index.where.val as string) : undefined;
+}
+
 // Rewrite due to method is not exported from sequelize
 // This method is same from https://github.com/sequelize/sequelize/blob/26beda5bf76bd65e30264ebf135e39efaa7d514d/packages/core/src/utils/string.ts#L89
 export function generateIndexName(tableName: TableName, index: IndexesOptions): string {
@@ -8,12 +8,24 @@ export interface SmartTags {
   foreignKey?: string;
   foreignFieldName?: string;
   singleForeignFieldName?: string;
+  fullText?: string;
+  fullTextFields?: string;
+  interface?: string;
+  manyToManyFieldName?: string;
+  computed?: string;
+  primaryKey?: string;
 }
 
 const tagOrder = {
   foreignKey: 0,
   foreignFieldName: 1,
   singleForeignFieldName: 2,
+  fullText: 3,
+  fullTextFields: 4,
+  interface: 5,
+  manyToManyFieldName: 6,
+  computed: 7,
+  primaryKey: 8,
 };
 
 const byTagOrder = (a: [keyof SmartTags, any], b: [keyof SmartTags, any]) => {
@@ -69,6 +81,132 @@ export function addTagsToForeignKeyMap(
   tableKeys?.set(foreignKey, foreignKeyTags);
 }
 
+// Generated column with the text search vector of the full text search fields, the query service searches this column
+export const FULL_TEXT_COLUMN = '_search';
+
+// The language is read by the query service to parse search queries with the same text search configuration
+export function fullTextComment(fields: string[], language: string): string {
+  return smartTags({fullText: language, fullTextFields: fields.join(',')});
+}
+
+export function createFullTextColumnQueries(table: string, fields: string[], language: string): string[] {
+  const document = fields.map((field) => `coalesce("${underscored(field)}", '')`).join(` || ' ' || `);
+  return [
+    dropFullTextColumnQuery(table),
+    `ALTER TABLE ${table} ADD COLUMN "${FULL_TEXT_COLUMN}" tsvector GENERATED ALWAYS AS (to_tsvector('${language}'::regconfig, ${document})) STORED`,
+    `COMMENT ON COLUMN ${table}."${FULL_TEXT_COLUMN}" IS E'${fullTextComment(fields, language)}'`,
+  ];
+}
+
+export function dropFullTextColumnQuery(table: string): string {
+  return `ALTER TABLE ${table} DROP COLUMN IF EXISTS "${FULL_TEXT_COLUMN}"`;
+}
+
+export function createFullTextIndexQuery(schema: string, table: string): string {
+  return `CREATE INDEX IF NOT EXISTS "${hashName(
+    schema,
+    'fulltext_index',
+    table
+  )}" ON "${schema}"."${table}" USING gin("${FULL_TEXT_COLUMN}")`;
+}
+
+// Returns null if the column has no comment and undefined if the column doesn't exist
+export async function getColumnComment(
+  sequelize: Sequelize,
+  schema: string,
+  table: string,
+  column: string
+): Promise<string | null | undefined> {
+  const [result] = await sequelize.query<{comment: string | null}>(
+    `SELECT col_description(attrelid, attnum) as comment FROM pg_attribute WHERE attrelid = to_regclass(:table) AND attname = :column AND NOT attisdropped`,
+    {
+      replacements: {table: `"${schema}"."${table}"`, column},
+      type: QueryTypes.SELECT,
+    }
+  );
+  return result?.comment;
+}
+
+// Column of interface views with the name of the entity that each row is from
+export const INTERFACE_ENTITY_COLUMN = '_entity_name';
+
+// Interface views are found by their comment so that they can be dropped before the entity tables are migrated
+export function interfaceComment(implementations: string[], primaryKey: string): string {
+  return smartTags({interface: implementations.join(','), primaryKey});
+}
+
+/**
+ * Creates a view that unions the tables of the entities implementing an interface
+ * @param tables the quoted table name of each implementing entity
+ * @param columns the columns shared by the tables
+ * @param primaryKey the column the query service uses as the primary key of the view
+ * */
+export function createInterfaceViewQueries(
+  view: string,
+  tables: {entity: string; table: string}[],
+  columns: string[],
+  primaryKey: string
+): string[] {
+  const select = columns.map((column) => `"${column}"`).join(', ');
+  const union = tables
+    .map(({entity, table}) => `SELECT '${entity}' AS "${INTERFACE_ENTITY_COLUMN}", ${select} FROM ${table}`)
+    .join(' UNION ALL ');
+  const comment = interfaceComment(
+    tables.map(({entity}) => entity),
+    primaryKey
+  );
+  return [dropViewQuery(view), `CREATE VIEW ${view} AS ${union}`, `COMMENT ON VIEW ${view} IS E'${comment}'`];
+}
+
+export function dropViewQuery(view: string): string {
+  return `DROP VIEW IF EXISTS ${view}`;
+}
+
+// The comment has a hash of the expression so that generated columns are only recreated when the expression changes
+export function computedComment(sql: string): string {
+  return smartTags({computed: blake2AsHex(sql, 64)});
+}
+
+export function isComputedComment(comment?: string | null): boolean {
+  return !!comment?.startsWith('@computed ');
+}
+
+export function createComputedColumnQueries(table: string, column: string, type: string, sql: string): string[] {
+  return [
+    dropColumnIfExistsQuery(table, column),
+    `ALTER TABLE ${table} ADD COLUMN "${column}" ${type} GENERATED ALWAYS AS (${sql}) STORED`,
+    `COMMENT ON COLUMN ${table}."${column}" IS E'${computedComment(sql)}'`,
+  ];
+}
+
+// Generated columns become regular columns when the field is no longer computed
+export function dropComputedExpressionQueries(table: string, column: string): string[] {
+  return [
+    `ALTER TABLE ${table} ALTER COLUMN "${column}" DROP EXPRESSION`,
+    `COMMENT ON COLUMN ${table}."${column}" IS NULL`,
+  ];
+}
+
+export function dropColumnIfExistsQuery(table: string, column: string): string {
+  return `ALTER TABLE ${table} DROP COLUMN IF EXISTS "${column}"`;
+}
+
+// The columns of a table that are generated from a computed field, along with their comment
+export async function getComputedColumns(
+  sequelize: Sequelize,
+  schema: string,
+  table: string
+): Promise<Record<string, string>> {
+  const result = await sequelize.query<{column: string; comment: string}>(
+    `SELECT attname as column, col_description(attrelid, attnum) as comment FROM pg_attribute WHERE attrelid = to_regclass(:table) AND attnum > 0 AND NOT attisdropped AND col_description(attrelid, attnum) LIKE '@computed %'`,
+    {
+      replacements: {table: `"${schema}"."${table}"`},
+      type: QueryTypes.SELECT,
+    }
+  );
+  return Object.fromEntries(result.map(({column, comment}) => [column, comment]));
+}
+
 export const BTREE_GIST_EXTENSION_EXIST_QUERY = `SELECT * FROM pg_extension where extname = 'btree_gist'`;
 
 export function createUniqueIndexQuery(schema: string, table: string, field: string): string {
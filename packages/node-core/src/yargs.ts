@@ -18,6 +18,14 @@ type YargsOptions<RootO extends Record<string, yargs.Options>, RunO extends Reco
    * Invoked with reindex command
    * */
   initReindex: (targetHeight: number) => void;
+  /**
+   * Invoked with migrate command, the command is only available when this is provided
+   * */
+  initMigrate?: (plan: boolean) => void;
+  /**
+   * Invoked with export-blocks command, the command is only available when this is provided
+   * */
+  initExportBlocks?: (start: number, end: number, out: string) => void;
   /**
    * Extra options to be added to all commands
    * */
@@ -34,44 +42,96 @@ export function yargsBuilder<
   RootO extends Record<string, yargs.Options> = Record<string, never>,
   RunO extends Record<string, yargs.Options> = Record<string, never>
 >(options: YargsOptions<RootO, RunO>) {
-  return (
-    yargs(hideBin(process.argv))
-      .env('SUBQL_NODE')
-      .command({
-        command: 'test',
-        describe: 'Run tests for a SubQuery application',
-        builder: {},
-        handler: (argv) => {
-          initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
-          return options.initTesting();
-        },
-      })
-      .command({
-        command: 'force-clean',
-        describe:
-          'Clean the database dropping project schemas and tables. Once the command is executed, the application would exit upon completion.',
-        builder: {},
-        handler: (argv) => {
-          initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
+  const builder = yargs(hideBin(process.argv))
+    .env('SUBQL_NODE')
+    .command({
+      command: 'test',
+      describe: 'Run tests for a SubQuery application',
+      builder: {},
+      handler: (argv) => {
+        initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
+        return options.initTesting();
+      },
+    })
+    .command({
+      command: 'force-clean',
+      describe:
+        'Clean the database dropping project schemas and tables. Once the command is executed, the application would exit upon completion.',
+      builder: {},
+      handler: (argv) => {
+        initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
 
-          return options.initForceClean();
-        },
-      })
-      .command({
-        command: 'reindex',
-        describe:
-          'Reindex to specified block height. Historical must be enabled for the targeted project (--disable-historical=false). Once the command is executed, the application would exit upon completion.',
-        builder: (yargs) =>
-          yargs.options('targetHeight', {
+        return options.initForceClean();
+      },
+    })
+    .command({
+      command: 'reindex',
+      describe:
+        'Reindex to specified block height. Historical must be enabled for the targeted project (--disable-historical=false). Once the command is executed, the application would exit upon completion.',
+      builder: (yargs) =>
+        yargs.options('targetHeight', {
+          type: 'number',
+          description: 'set targetHeight',
+          require: true,
+        }),
+      handler: (argv) => {
+        initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
+        return options.initReindex(argv.targetHeight);
+      },
+    });
+
+  const initMigrate = options.initMigrate;
+  if (initMigrate) {
+    builder.command({
+      command: 'migrate',
+      describe:
+        'Compare the project schema with the database schema. Migrations are applied when the project is indexed, once the command is executed, the application would exit upon completion.',
+      builder: (yargs) =>
+        yargs.options('plan', {
+          type: 'boolean',
+          description: 'Print the ordered migration statements and their risk without executing them',
+          default: false,
+        }),
+      handler: (argv) => {
+        initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
+        return initMigrate(argv.plan);
+      },
+    });
+  }
+
+  const initExportBlocks = options.initExportBlocks;
+  if (initExportBlocks) {
+    builder.command({
+      command: 'export-blocks',
+      describe:
+        'Fetch a range of blocks and write them to an archive file, the archive can be used with --block-source to index without a network connection. Once the command is executed, the application would exit upon completion.',
+      builder: (yargs) =>
+        yargs.options({
+          start: {
             type: 'number',
-            description: 'set targetHeight',
+            description: 'The first block to export',
             require: true,
-          }),
-        handler: (argv) => {
-          initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
-          return options.initReindex(argv.targetHeight);
-        },
-      })
+          },
+          end: {
+            type: 'number',
+            description: 'The last block to export',
+            require: true,
+          },
+          out: {
+            type: 'string',
+            description: 'The archive file to write',
+            require: true,
+          },
+        }),
+      handler: (argv) => {
+        initLogger(argv.debug as string, argv.outputFmt as 'json' | 'colored', argv.logLevel as string | undefined);
+        return initExportBlocks(argv.start, argv.end, argv.out);
+      },
+    });
+  }
+
+  return (
+    builder
       // Note we must have default command $0 at last to avoid override
       .command({
         command: '$0', //default command
@@ -80,11 +140,23 @@ export function yargsBuilder<
           yargs
             .options({
               ...options.runOptions,
+              'allow-destructive-migrations': {
+                demandOption: false,
+                describe:
+                  'Apply schema migrations that can lose data or fail with existing data, such as removing columns or enum values',
+                type: 'boolean',
+              },
               'batch-size': {
                 demandOption: false,
                 describe: 'Batch size of blocks to fetch in one round',
                 type: 'number',
               },
+              'change-sink': {
+                demandOption: false,
+                describe:
+                  'Emit entity changes as they are flushed to the database. Use a file:// uri to write newline delimited JSON or a http(s):// uri to post to a webhook',
+                type: 'string',
+              },
               'dictionary-resolver': {
                 demandOption: false,
                 describe: 'Use SubQuery Network dictionary resolver',
@@ -103,8 +175,7 @@ export function yargsBuilder<
               },
               'dictionary-registry': {
                 demandOption: false,
-                describe:
-                  'Url to a dictionary registry used to resolve dictionary if one is not provided',
+                describe: 'Url to a dictionary registry used to resolve dictionary if one is not provided',
                 type: 'string',
               },
               'disable-historical': {
@@ -113,6 +184,39 @@ export function yargsBuilder<
                 type: 'boolean',
                 // NOTE: don't set a default for this. It will break apply args from manifest. The default should be set in NodeConfig
               },
+              'dry-run': {
+                demandOption: false,
+                describe:
+                  'Index without writing anything to the database. A summary of the changes that would have been made is printed on exit',
+                type: 'boolean',
+              },
+              'dry-run-output': {
+                demandOption: false,
+                describe: 'Write the dry run summary to a JSON file at this path',
+                type: 'string',
+              },
+              'endpoint-max-concurrency': {
+                demandOption: false,
+                describe: 'The maximum number of concurrent requests to each network endpoint',
+                type: 'number',
+              },
+              'endpoint-max-rps': {
+                demandOption: false,
+                describe: 'The maximum number of requests per second to each network endpoint',
+                type: 'number',
+              },
+              'hedge-requests': {
+                demandOption: false,
+                describe:
+                  'Send a duplicate request to another network endpoint when a request takes much longer than the usual latency of its endpoint',
+                type: 'boolean',
+              },
+              'history-retention': {
+                demandOption: false,
+                describe:
+                  'Remove historical versions of entities that are older than this number of blocks, entities can override this with @entity(historyRetention). History after the last finalized block is always kept with --unfinalized-blocks',
+                type: 'number',
+              },
               'log-level': {
                 demandOption: false,
                 describe: 'Specify log level to print. Ignored when --debug is used',
@@ -156,7 +260,8 @@ export function yargsBuilder<
               'scale-batch-size': {
                 type: 'boolean',
                 demandOption: false,
-                describe: 'scale batch size based on memory usage',
+                describe:
+                  'Adapt the batch size and queue depth to fetch latency, processing time, store cache flushes and memory usage',
                 default: false,
               },
               'store-cache-threshold': {
@@ -207,6 +312,12 @@ export function yargsBuilder<
                 type: 'boolean',
                 // NOTE: don't set a default for this. It will break apply args from manifest. The default should be set in NodeConfig
               },
+              'target-throughput': {
+                demandOption: false,
+                describe:
+                  'The number of blocks per second to index, with --scale-batch-size the batch size is only increased to reach this',
+                type: 'number',
+              },
               timeout: {
                 demandOption: false,
                 describe: 'Timeout for indexer sandbox to execute the mapping functions',
@@ -250,11 +361,23 @@ export function yargsBuilder<
           describe: 'Specify configuration file',
           type: 'string',
         },
+        'db-file': {
+          demandOption: false,
+          describe: 'Path to the SQLite database file, defaults to <db-schema>.sqlite. Only used with --db-type=sqlite',
+          type: 'string',
+        },
         'db-schema': {
           demandOption: false,
           describe: 'Db schema name of the project',
           type: 'string',
         },
+        'db-type': {
+          demandOption: false,
+          describe:
+            'The database to store indexed data in. SQLite stores data in a single file and is intended for local development, it does not support historical state and requires the sqlite3 package to be installed',
+          type: 'string',
+          choices: ['postgres', 'sqlite'],
+        },
         debug: {
           demandOption: false,
           describe: `Enable debug logging for specific scopes, this will override log-level. "*" will enable debug everywhere, or comma separated strings for specific scopes. e.g. "SQL,dictionary". To disable specific scopes you can prefix them with '-'. e.g. "*,-SQL"`,
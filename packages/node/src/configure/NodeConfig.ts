@@ -5,8 +5,14 @@ import { IConfig, NodeConfig } from '@subql/node-core';
 
 export interface ISubstrateConfig extends IConfig {
   skipTransactions: boolean;
+  blockCache?: string;
+  blockCacheSize?: number;
+  blockSource?: string;
 }
 
+// 1GB
+const DEFAULT_BLOCK_CACHE_SIZE = 1024;
+
 export class SubstrateNodeConfig extends NodeConfig<ISubstrateConfig> {
   /**
    * This is a wrapper around the core NodeConfig to get additional properties that are provided through args or node runner options
@@ -27,4 +33,19 @@ export class SubstrateNodeConfig extends NodeConfig<ISubstrateConfig> {
   get skipTransactions(): boolean {
     return !!this._config.skipTransactions;
   }
+
+  // The directory to cache fetched blocks in
+  get blockCache(): string | undefined {
+    return this._config.blockCache;
+  }
+
+  // The maximum size of the block cache in MB
+  get blockCacheSize(): number {
+    return this._config.blockCacheSize ?? DEFAULT_BLOCK_CACHE_SIZE;
+  }
+
+  // A file:// url of a block archive to read blocks from instead of the network endpoints
+  get blockSource(): string | undefined {
+    return this._config.blockSource;
+  }
 }
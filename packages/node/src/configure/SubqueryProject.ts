@@ -16,6 +16,7 @@ import {
 import {
   insertBlockFiltersCronSchedules,
   loadProjectTemplates,
+  normalizeNetworkEndpoints,
   SubqlProjectDs,
   updateDataSourcesV1_0_0,
   ISubqueryProject,
@@ -137,10 +138,6 @@ async function loadProjectFromManifestBase(
   root: string,
   networkOverrides?: Partial<SubstrateNetworkConfig>,
 ): Promise<SubqueryProject> {
-  if (typeof projectManifest.network.endpoint === 'string') {
-    projectManifest.network.endpoint = [projectManifest.network.endpoint];
-  }
-
   const network = processChainId({
     ...projectManifest.network,
     ...networkOverrides,
@@ -152,6 +149,7 @@ async function loadProjectFromManifestBase(
       `Network endpoint must be provided for network. chainId="${network.chainId}"`,
     ),
   );
+  network.endpoint = normalizeNetworkEndpoints(network.endpoint);
 
   let schemaString: string;
   try {
@@ -1,16 +1,19 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import path from 'path';
 import { Inject, Injectable, OnApplicationShutdown } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ApiPromise } from '@polkadot/api';
 import { RpcMethodResult } from '@polkadot/api/types';
 import { RuntimeVersion, Header } from '@polkadot/types/interfaces';
 import { AnyFunction, DefinitionRpcExt } from '@polkadot/types/types';
+import { hexToU8a } from '@polkadot/util';
 import {
   IndexerEvent,
   getLogger,
   NodeConfig,
+  normalizeNetworkEndpoints,
   profilerWrap,
   ConnectionPoolService,
   ApiService as BaseApiService,
@@ -24,7 +27,9 @@ import {
   FetchFunc,
   GetFetchFunc,
 } from './apiPromise.connection';
+import { BlockCache, CachedBlock } from './blockCache';
 import { ApiAt, BlockContent, LightBlockContent } from './types';
+import { RpcRecorder } from './x-provider/archive';
 
 const NOT_SUPPORT = (name: string) => () => {
   throw new Error(`${name}() is not supported`);
@@ -49,6 +54,9 @@ export class ApiService
   private fetchBlocksBatches: GetFetchFunc = () => this.fetchBlocksFunction;
   private currentBlockHash: string;
   private currentBlockNumber: number;
+  private skipTransactions = false;
+  private blockCache?: BlockCache;
+  private finalizedHeight = 0;
 
   private nodeConfig: SubstrateNodeConfig;
 
@@ -68,14 +76,24 @@ export class ApiService
     await this.connectionPoolService.onApplicationShutdown();
   }
 
-  async init(): Promise<ApiService> {
+  /**
+   * @param rpcRecorder records the RPC requests made by the api, used to export blocks
+   * */
+  async init(rpcRecorder?: RpcRecorder): Promise<ApiService> {
     let chainTypes, network;
     try {
       chainTypes = this.project.chainTypes;
       network = this.project.network;
 
-      if (this.nodeConfig.primaryNetworkEndpoint) {
-        network.endpoint.push(this.nodeConfig.primaryNetworkEndpoint);
+      // Blocks are read from an archive instead of the network endpoints
+      if (this.nodeConfig.blockSource) {
+        network.endpoint = { [this.nodeConfig.blockSource]: {} };
+      } else if (this.nodeConfig.primaryNetworkEndpoint) {
+        // Keep the options if the primary endpoint is also a network endpoint
+        network.endpoint = {
+          [this.nodeConfig.primaryNetworkEndpoint]: {},
+          ...normalizeNetworkEndpoints(network.endpoint),
+        };
       }
     } catch (e) {
       logger.error(e);
@@ -89,9 +107,11 @@ export class ApiService
     await this.createConnections(
       network,
       //createConnection
-      (endpoint) =>
+      (endpoint, config) =>
         ApiPromiseConnection.create(endpoint, this.fetchBlocksBatches, {
           chainTypes,
+          rpcRecorder,
+          headers: config.headers,
         }),
       //getChainId
       //eslint-disable-next-line @typescript-eslint/require-await
@@ -119,6 +139,19 @@ export class ApiService
       },
     );
 
+    if (this.nodeConfig.blockCache) {
+      if (this.skipTransactions) {
+        logger.warn(
+          'Block cache is disabled, only full blocks are cached and skipTransactions is enabled.',
+        );
+      } else {
+        this.blockCache = await BlockCache.create(
+          path.join(this.nodeConfig.blockCache, this.api.genesisHash.toHex()),
+          this.nodeConfig.blockCacheSize * 1024 * 1024,
+        );
+      }
+    }
+
     return this;
   }
 
@@ -147,6 +180,7 @@ export class ApiService
       }
     }
 
+    this.skipTransactions = skipTransactions;
     const fetchFunc = skipTransactions
       ? SubstrateUtil.fetchBlocksBatchesLight
       : SubstrateUtil.fetchBlocksBatches;
@@ -267,6 +301,100 @@ export class ApiService
     heights: number[],
     overallSpecVer?: number,
     numAttempts = MAX_RECONNECT_ATTEMPTS,
+  ): Promise<LightBlockContent[]> {
+    if (!this.blockCache) {
+      return this.fetchBlocksFromNetwork(heights, overallSpecVer, numAttempts);
+    }
+
+    const blocks = await this.getCachedBlocks(heights);
+    const missing = heights.filter((height) => !blocks[height]);
+    if (missing.length) {
+      const fetched = (await this.fetchBlocksFromNetwork(
+        missing,
+        overallSpecVer,
+        numAttempts,
+      )) as BlockContent[];
+      await this.cacheBlocks(fetched);
+      fetched.forEach((block, i) => (blocks[missing[i]] = block));
+    }
+    return heights.map((height) => blocks[height]);
+  }
+
+  private async getCachedBlocks(
+    heights: number[],
+  ): Promise<Record<number, BlockContent>> {
+    const blocks: Record<number, BlockContent> = {};
+    for (const height of heights) {
+      const cached = await this.blockCache.get(height);
+      if (!cached) continue;
+      try {
+        blocks[height] = await this.decodeCachedBlock(cached);
+      } catch (e) {
+        logger.warn(
+          `Failed to decode cached block ${height}, it will be fetched again: ${e}`,
+        );
+        await this.blockCache.delete(height);
+      }
+    }
+    return blocks;
+  }
+
+  // Cached blocks are decoded with the registry of their runtime, this only requires RPC requests for new runtimes
+  private async decodeCachedBlock(cached: CachedBlock): Promise<BlockContent> {
+    const { registry } = await this.api.getBlockRegistry(
+      hexToU8a(cached.hash),
+      this.api.registry.createType('RuntimeVersion', {
+        specName: this.api.runtimeVersion.specName,
+        specVersion: cached.specVersion,
+      }),
+    );
+    const block = registry.createType('SignedBlock', cached.block);
+    if (block.block.header.hash.toHex() !== cached.hash) {
+      throw new Error(`Block hash doesn't match ${cached.hash}`);
+    }
+    const events = registry.createType('Vec<EventRecord>', cached.events);
+    return SubstrateUtil.wrapBlockContent(block, events, cached.specVersion);
+  }
+
+  // Only finalized blocks are cached because cached blocks are looked up by height
+  private async cacheBlocks(blocks: BlockContent[]): Promise<void> {
+    try {
+      const finalizedHeight = await this.getFinalizedHeight(
+        Math.max(
+          ...blocks.map(({ block }) => block.block.header.number.toNumber()),
+        ),
+      );
+      for (const { block } of blocks) {
+        const height = block.block.header.number.toNumber();
+        if (height > finalizedHeight) continue;
+        await this.blockCache.set(height, {
+          hash: block.block.header.hash.toHex(),
+          specVersion: block.specVersion,
+          block: block.toHex(),
+          events: block.registry
+            .createType('Vec<EventRecord>', block.events)
+            .toHex(),
+        });
+      }
+    } catch (e) {
+      logger.warn(`Failed to cache blocks: ${e}`);
+    }
+  }
+
+  // The finalized height is only updated when there are blocks above the last known finalized height
+  private async getFinalizedHeight(height: number): Promise<number> {
+    if (height > this.finalizedHeight) {
+      const hash = await this.api.rpc.chain.getFinalizedHead();
+      const header = await this.api.rpc.chain.getHeader(hash);
+      this.finalizedHeight = header.number.toNumber();
+    }
+    return this.finalizedHeight;
+  }
+
+  private async fetchBlocksFromNetwork(
+    heights: number[],
+    overallSpecVer?: number,
+    numAttempts = MAX_RECONNECT_ATTEMPTS,
   ): Promise<LightBlockContent[]> {
     let reconnectAttempts = 0;
     while (reconnectAttempts < numAttempts) {
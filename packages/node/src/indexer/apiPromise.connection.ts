@@ -1,6 +1,7 @@
 // Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
 // SPDX-License-Identifier: GPL-3.0
 
+import { fileURLToPath } from 'url';
 import { ApiPromise, WsProvider } from '@polkadot/api';
 import { ApiOptions } from '@polkadot/api/types';
 import { ProviderInterface } from '@polkadot/rpc-provider/types';
@@ -17,6 +18,7 @@ import {
 } from '@subql/node-core';
 import * as SubstrateUtil from '../utils/substrate';
 import { ApiAt, BlockContent, LightBlockContent } from './types';
+import { ArchiveProvider, RpcRecorder } from './x-provider/archive';
 import { createCachedProvider } from './x-provider/cachedProvider';
 import { HttpProvider } from './x-provider/http';
 
@@ -58,23 +60,34 @@ export class ApiPromiseConnection
   static async create(
     endpoint: string,
     fetchBlocksBatches: GetFetchFunc,
-    args: { chainTypes: RegisteredTypes },
+    args: {
+      chainTypes: RegisteredTypes;
+      rpcRecorder?: RpcRecorder;
+      headers?: Record<string, string>;
+    },
   ): Promise<ApiPromiseConnection> {
     let provider: ProviderInterface;
     let throwOnConnect = false;
 
     const headers = {
       'User-Agent': `SubQuery-Node ${packageVersion}`,
+      ...args.headers,
     };
 
     if (endpoint.startsWith('ws')) {
-      provider = createCachedProvider(
-        new WsProvider(endpoint, RETRY_DELAY, headers),
-      );
+      provider = new WsProvider(endpoint, RETRY_DELAY, headers);
     } else if (endpoint.startsWith('http')) {
-      provider = createCachedProvider(new HttpProvider(endpoint, headers));
+      provider = new HttpProvider(endpoint, headers);
+      throwOnConnect = true;
+    } else if (endpoint.startsWith('file://')) {
+      provider = await ArchiveProvider.create(fileURLToPath(endpoint));
       throwOnConnect = true;
     }
+    if (provider) {
+      provider = createCachedProvider(
+        args.rpcRecorder ? args.rpcRecorder.record(provider) : provider,
+      );
+    }
 
     const apiOption = {
       provider,
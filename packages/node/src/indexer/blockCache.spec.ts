@@ -0,0 +1,124 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlockCache, CachedBlock } from './blockCache';
+
+function cachedBlock(hash: string): CachedBlock {
+  return { hash, specVersion: 1, block: '0x00', events: '0x00' };
+}
+
+// Each cached block file is the same size
+const BLOCK_SIZE = Buffer.byteLength(JSON.stringify(cachedBlock('0x01')));
+
+describe('BlockCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'block-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores blocks by height and hash', async () => {
+    const cache = await BlockCache.create(dir, BLOCK_SIZE * 10);
+    await cache.set(1, cachedBlock('0x01'));
+
+    await expect(cache.get(1)).resolves.toEqual(cachedBlock('0x01'));
+    await expect(cache.get(2)).resolves.toBeUndefined();
+    expect(await fs.promises.readdir(dir)).toEqual(['1-0x01.json']);
+
+    // Replacing a block removes the previous file
+    await cache.set(1, cachedBlock('0x02'));
+    expect(await fs.promises.readdir(dir)).toEqual(['1-0x02.json']);
+  });
+
+  it('removes the least recently used blocks when the size is exceeded', async () => {
+    const cache = await BlockCache.create(dir, BLOCK_SIZE * 2);
+    await cache.set(1, cachedBlock('0x01'));
+    await cache.set(2, cachedBlock('0x02'));
+    await cache.get(1);
+    await cache.set(3, cachedBlock('0x03'));
+
+    await expect(cache.get(2)).resolves.toBeUndefined();
+    expect((await fs.promises.readdir(dir)).sort()).toEqual([
+      '1-0x01.json',
+      '3-0x03.json',
+    ]);
+  });
+
+  it('loads existing blocks and applies the size limit', async () => {
+    const cache = await BlockCache.create(dir, BLOCK_SIZE * 3);
+    for (const height of [1, 2, 3]) {
+      await cache.set(height, cachedBlock(`0x0${height}`));
+      // Modified times are used to restore the order
+      const time = new Date(height * 1000);
+      await fs.promises.utimes(
+        path.join(dir, `${height}-0x0${height}.json`),
+        time,
+        time,
+      );
+    }
+
+    const reloaded = await BlockCache.create(dir, BLOCK_SIZE * 2);
+    await expect(reloaded.get(1)).resolves.toBeUndefined();
+    await expect(reloaded.get(3)).resolves.toEqual(cachedBlock('0x03'));
+  });
+
+  it('applies the size limit to all caches sharing a directory', async () => {
+    // Scan the directory on every change so the limit is exact
+    const cacheA = await BlockCache.create(dir, BLOCK_SIZE * 3, 0);
+    const cacheB = await BlockCache.create(dir, BLOCK_SIZE * 3, 0);
+
+    for (const height of [1, 2, 3, 4, 5, 6]) {
+      const cache = height % 2 ? cacheA : cacheB;
+      await cache.set(height, cachedBlock(`0x0${height}`));
+      expect((await fs.promises.readdir(dir)).length).toBeLessThanOrEqual(3);
+      // Blocks used within the same ms have no order between caches
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect((await fs.promises.readdir(dir)).sort()).toEqual([
+      '4-0x04.json',
+      '5-0x05.json',
+      '6-0x06.json',
+    ]);
+    // Blocks removed by the other cache are no longer found and blocks it added are
+    await expect(cacheA.get(1)).resolves.toBeUndefined();
+    await expect(cacheB.get(2)).resolves.toBeUndefined();
+    await expect(cacheA.get(4)).resolves.toEqual(cachedBlock('0x04'));
+    await expect(cacheB.get(5)).resolves.toEqual(cachedBlock('0x05'));
+  });
+
+  it('finds blocks added by other caches when they are not known', async () => {
+    const cacheA = await BlockCache.create(dir, BLOCK_SIZE * 3, 0);
+    const cacheB = await BlockCache.create(dir, BLOCK_SIZE * 3, 0);
+
+    await cacheB.set(1, cachedBlock('0x01'));
+    await expect(cacheA.get(1)).resolves.toEqual(cachedBlock('0x01'));
+  });
+
+  it('only scans the directory once per sync interval', async () => {
+    const cache = await BlockCache.create(dir, BLOCK_SIZE * 2);
+    const readdir = jest.spyOn(fs.promises, 'readdir');
+
+    try {
+      for (const height of [1, 2, 3, 4, 5, 6]) {
+        await cache.set(height, cachedBlock(`0x0${height}`));
+        await cache.get(height + 10);
+      }
+      expect(readdir).not.toHaveBeenCalled();
+      // The size limit still applies to blocks added by this cache
+      expect((await fs.promises.readdir(dir)).sort()).toEqual([
+        '5-0x05.json',
+        '6-0x06.json',
+      ]);
+    } finally {
+      readdir.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,213 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import path from 'path';
+import { getLogger } from '@subql/node-core';
+
+const logger = getLogger('block-cache');
+
+const CACHE_FILE_REGEX = /^(\d+)-(0x[0-9a-f]+)\.json$/;
+
+// The minimum time in ms between scanning the directory for blocks added or removed by other processes
+const SYNC_INTERVAL = 10_000;
+
+// The raw data for a block, encoded so that it can be decoded with the registry of the block
+export interface CachedBlock {
+  hash: string;
+  // The spec version of the parent block, this is the runtime the block was produced with
+  specVersion: number;
+  // Hex encoded SignedBlock
+  block: string;
+  // Hex encoded Vec<EventRecord>
+  events: string;
+}
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  // The time in ms the block was last used, for blocks added by other processes this is the modified time of the file
+  lastUsed: number;
+}
+
+/**
+ * An on disk cache of blocks, each block is stored in its own file named after the block height and hash.
+ * Only finalized blocks should be cached as blocks are looked up by height.
+ * When the cache exceeds its maximum size the least recently used blocks are removed.
+ * The directory can be shared by multiple processes or workers, it is scanned periodically so the size limit applies to all of them.
+ * Blocks added by other processes can exceed the limit until the next scan.
+ * */
+export class BlockCache {
+  // Entries are kept in the order they were last used by this process
+  private entries = new Map<number, CacheEntry>();
+  private size = 0;
+  private lastSync = 0;
+
+  private constructor(
+    private readonly dir: string,
+    private readonly maxSize: number,
+    private readonly syncInterval: number,
+  ) {}
+
+  /**
+   * @param dir the directory to store blocks in, created if it doesn't exist
+   * @param maxSize the maximum size of the cache in bytes
+   * @param syncInterval the minimum time in ms between scanning the directory for changes by other processes
+   * */
+  static async create(
+    dir: string,
+    maxSize: number,
+    syncInterval = SYNC_INTERVAL,
+  ): Promise<BlockCache> {
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const cache = new BlockCache(dir, maxSize, syncInterval);
+    await cache.evict();
+
+    logger.info(
+      `Block cache has ${cache.entries.size} blocks (${Math.round(
+        cache.size / 1024 / 1024,
+      )}MB) in ${dir}`,
+    );
+    return cache;
+  }
+
+  async get(height: number): Promise<CachedBlock | undefined> {
+    let entry = this.entries.get(height);
+    // The block could have been added by another process since the last scan
+    if (!entry && (await this.syncIfDue())) {
+      entry = this.entries.get(height);
+    }
+    if (!entry) return;
+
+    const filePath = path.join(this.dir, entry.file);
+    try {
+      const block = JSON.parse(
+        await fs.promises.readFile(filePath, 'utf8'),
+      ) as CachedBlock;
+
+      // Mark as most recently used, the modified time keeps the order between restarts
+      this.entries.delete(height);
+      this.entries.set(height, entry);
+      const now = new Date();
+      entry.lastUsed = now.getTime();
+      await fs.promises.utimes(filePath, now, now);
+
+      return block;
+    } catch (e) {
+      // The file could have been removed by another process sharing the cache
+      logger.warn(`Failed to read cached block ${height}: ${e}`);
+      this.remove(height);
+      return;
+    }
+  }
+
+  async set(height: number, block: CachedBlock): Promise<void> {
+    const file = `${height}-${block.hash}.json`;
+    const data = JSON.stringify(block);
+
+    if (this.entries.get(height)?.file !== file) {
+      await this.delete(height);
+    }
+
+    // Write to a temp file first so that other processes never read a partial block
+    const tempPath = path.join(this.dir, `${file}.tmp`);
+    await fs.promises.writeFile(tempPath, data);
+    // Other processes sharing the cache use the modified time as the last used time
+    const now = new Date();
+    await fs.promises.utimes(tempPath, now, now);
+    await fs.promises.rename(tempPath, path.join(this.dir, file));
+
+    this.remove(height);
+    this.entries.set(height, {
+      file,
+      size: Buffer.byteLength(data),
+      lastUsed: now.getTime(),
+    });
+    this.size += Buffer.byteLength(data);
+
+    await this.evict();
+  }
+
+  async delete(height: number): Promise<void> {
+    const entry = this.entries.get(height);
+    if (!entry) return;
+
+    this.remove(height);
+    await fs.promises.rm(path.join(this.dir, entry.file), { force: true });
+  }
+
+  private remove(height: number): void {
+    const entry = this.entries.get(height);
+    if (!entry) return;
+
+    this.entries.delete(height);
+    this.size -= entry.size;
+  }
+
+  // Scans the directory at most once per sync interval, returns whether it was scanned
+  private async syncIfDue(): Promise<boolean> {
+    if (Date.now() - this.lastSync < this.syncInterval) return false;
+    await this.sync();
+    return true;
+  }
+
+  // Finds blocks that other processes sharing the directory have added or removed, only new files are read
+  private async sync(): Promise<void> {
+    this.lastSync = Date.now();
+    const files = new Set(
+      (await fs.promises.readdir(this.dir)).filter((file) =>
+        CACHE_FILE_REGEX.test(file),
+      ),
+    );
+
+    for (const [height, entry] of this.entries) {
+      if (!files.has(entry.file)) {
+        this.remove(height);
+      }
+    }
+
+    const added = await Promise.all(
+      [...files]
+        .map((file) => ({
+          file,
+          height: Number(CACHE_FILE_REGEX.exec(file)[1]),
+        }))
+        // Only finalized blocks are cached so there is one block for each height
+        .filter(({ height }) => !this.entries.has(height))
+        .map(async ({ file, height }) => {
+          try {
+            const stat = await fs.promises.stat(path.join(this.dir, file));
+            return { file, height, stat };
+          } catch (e) {
+            // The file could have been removed by another process
+            return;
+          }
+        }),
+    );
+    for (const { file, height, stat } of added
+      .filter((a) => a !== undefined)
+      .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs)) {
+      this.entries.set(height, {
+        file,
+        size: stat.size,
+        lastUsed: stat.mtimeMs,
+      });
+      this.size += stat.size;
+    }
+  }
+
+  private async evict(): Promise<void> {
+    await this.syncIfDue();
+    if (this.size <= this.maxSize) return;
+
+    // The sort is stable so blocks used at the same time keep the order they were used by this process
+    const leastRecentlyUsed = [...this.entries].sort(
+      ([, a], [, b]) => a.lastUsed - b.lastUsed,
+    );
+    for (const [height] of leastRecentlyUsed) {
+      if (this.size <= this.maxSize) break;
+      await this.delete(height);
+    }
+  }
+}
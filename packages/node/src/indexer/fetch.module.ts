@@ -16,6 +16,7 @@ import {
   IProjectUpgradeService,
   PoiSyncService,
   InMemoryCacheService,
+  AdaptiveBatchController,
 } from '@subql/node-core';
 import { SubqueryProject } from '../configure/SubqueryProject';
 import { ApiService } from './api.service';
@@ -44,10 +45,20 @@ import { UnfinalizedBlocksService } from './unfinalizedBlocks.service';
     ConnectionPoolStateManager,
     {
       provide: SmartBatchService,
-      useFactory: (nodeConfig: NodeConfig) => {
-        return new SmartBatchService(nodeConfig.batchSize);
+      useFactory: (nodeConfig: NodeConfig, eventEmitter: EventEmitter2) => {
+        return new SmartBatchService(
+          nodeConfig.batchSize,
+          undefined,
+          nodeConfig.scaleBatchSize
+            ? new AdaptiveBatchController(
+                nodeConfig.batchSize,
+                nodeConfig.targetThroughput,
+                eventEmitter,
+              )
+            : undefined,
+        );
       },
-      inject: [NodeConfig],
+      inject: [NodeConfig, EventEmitter2],
     },
     {
       provide: 'IBlockDispatcher',
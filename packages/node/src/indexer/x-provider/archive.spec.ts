@@ -0,0 +1,85 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProviderInterface } from '@polkadot/rpc-provider/types';
+import { ArchiveProvider, RpcRecorder } from './archive';
+
+const responses: Record<string, unknown> = {
+  'chain_getBlockHash:[1]': '0x01',
+  'state_getRuntimeVersion:["0x00"]': { specName: 'test', specVersion: 1 },
+  'state_getRuntimeVersion:["0x01"]': { specName: 'test', specVersion: 1 },
+  'state_getMetadata:["0x00"]': '0x6d657461',
+};
+
+const networkProvider = {
+  send: (method: string, params: unknown[]) =>
+    Promise.resolve(responses[`${method}:${JSON.stringify(params)}`]),
+} as unknown as ProviderInterface;
+
+describe('Block archives', () => {
+  let filePath: string;
+
+  beforeEach(async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    filePath = path.join(dir, 'blocks.gz');
+
+    const recorder = new RpcRecorder();
+    const provider = recorder.record(networkProvider);
+    for (const key of Object.keys(responses)) {
+      const [method, params] = key.split(/:(.*)/);
+      await provider.send(method, JSON.parse(params));
+    }
+    recorder.set('chain_getFinalizedHead', [], '0x01');
+    await recorder.write(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(path.dirname(filePath), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it('replays recorded requests', async () => {
+    const provider = await ArchiveProvider.create(filePath);
+
+    await expect(provider.send('chain_getBlockHash', [1])).resolves.toBe(
+      '0x01',
+    );
+    await expect(provider.send('chain_getFinalizedHead', [])).resolves.toBe(
+      '0x01',
+    );
+    await expect(provider.send('chain_getBlockHash', [2])).rejects.toThrow(
+      `Archive ${filePath} doesn't include chain_getBlockHash(2)`,
+    );
+  });
+
+  it('uses the metadata of blocks with the same runtime', async () => {
+    const provider = await ArchiveProvider.create(filePath);
+
+    await expect(provider.send('state_getMetadata', ['0x01'])).resolves.toBe(
+      '0x6d657461',
+    );
+    await expect(provider.send('state_getMetadata', ['0x02'])).rejects.toThrow(
+      /doesn't include state_getMetadata/,
+    );
+  });
+
+  it('throws for archives that are missing or not gzipped', async () => {
+    const invalidPath = path.join(path.dirname(filePath), 'invalid.gz');
+    await fs.promises.writeFile(
+      invalidPath,
+      '{"method":"chain_getBlockHash"}\n',
+    );
+
+    await expect(ArchiveProvider.create(invalidPath)).rejects.toThrow(
+      'incorrect header check',
+    );
+    await expect(
+      ArchiveProvider.create(path.join(path.dirname(filePath), 'missing.gz')),
+    ).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,220 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import fs from 'fs';
+import readline from 'readline';
+import stream from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import type {
+  ProviderInterface,
+  ProviderInterfaceCallback,
+  ProviderInterfaceEmitCb,
+  ProviderInterfaceEmitted,
+  ProviderStats,
+} from '@polkadot/rpc-provider/types';
+
+// An RPC request and its result, archives are gzipped newline delimited JSON of these
+export interface ArchivedCall {
+  method: string;
+  params: unknown[];
+  result: unknown;
+}
+
+const ERROR_SUBSCRIBE = 'Archive Provider does not have subscriptions';
+
+function callKey(method: string, params: unknown[]): string {
+  return `${method}:${JSON.stringify(params)}`;
+}
+
+function* toLines(calls: Iterable<ArchivedCall>): Generator<string> {
+  for (const call of calls) {
+    yield `${JSON.stringify(call)}\n`;
+  }
+}
+
+/**
+ * Records the results of RPC requests so that they can be written to an archive and replayed with the ArchiveProvider.
+ * Subscriptions are not recorded.
+ * */
+export class RpcRecorder {
+  private calls = new Map<string, ArchivedCall>();
+
+  record(provider: ProviderInterface): ProviderInterface {
+    return new Proxy(provider, {
+      get: (target, prop, receiver) => {
+        if (prop === 'send') {
+          return async (method: string, params: unknown[], ...args) => {
+            const result = await target.send(method, params, ...args);
+            this.set(method, params, result);
+            return result;
+          };
+        }
+        return Reflect.get(target, prop, receiver);
+      },
+    });
+  }
+
+  get(method: string, params: unknown[]): unknown {
+    return this.calls.get(callKey(method, params))?.result;
+  }
+
+  // Can be used to override a recorded result, e.g. to set the latest block
+  set(method: string, params: unknown[], result: unknown): void {
+    this.calls.set(callKey(method, params), { method, params, result });
+  }
+
+  async write(filePath: string): Promise<void> {
+    // Calls are streamed so that large archives don't need to be held in memory as a single string
+    await pipeline(
+      stream.Readable.from(toLines(this.calls.values())),
+      zlib.createGzip(),
+      fs.createWriteStream(filePath),
+    );
+  }
+}
+
+/**
+ * A provider that replays RPC requests from an archive created with the `export-blocks` command.
+ * Requests that aren't in the archive fail, so only the exported blocks can be indexed.
+ * */
+export class ArchiveProvider implements ProviderInterface {
+  readonly #stats: ProviderStats = {
+    active: { requests: 0, subscriptions: 0 },
+    total: {
+      bytesRecv: 0,
+      bytesSent: 0,
+      cached: 0,
+      errors: 0,
+      requests: 0,
+      subscriptions: 0,
+      timeout: 0,
+    },
+  };
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly calls: Map<string, ArchivedCall>,
+  ) {}
+
+  static async create(filePath: string): Promise<ArchiveProvider> {
+    const lines = readline.createInterface({
+      // Errors reading or decompressing the file are thrown when iterating the lines
+      input: stream.pipeline(
+        fs.createReadStream(filePath),
+        zlib.createGunzip(),
+        () => {
+          /* noop */
+        },
+      ),
+      crlfDelay: Infinity,
+    });
+    const calls = new Map<string, ArchivedCall>();
+    for await (const line of lines) {
+      if (!line) continue;
+      const call = JSON.parse(line) as ArchivedCall;
+      calls.set(callKey(call.method, call.params), call);
+    }
+    return new ArchiveProvider(filePath, calls);
+  }
+
+  get hasSubscriptions(): boolean {
+    return false;
+  }
+
+  get isClonable(): boolean {
+    return true;
+  }
+
+  get isConnected(): boolean {
+    return true;
+  }
+
+  get stats(): ProviderStats {
+    return this.#stats;
+  }
+
+  clone(): ArchiveProvider {
+    return new ArchiveProvider(this.filePath, this.calls);
+  }
+
+  async connect(): Promise<void> {
+    // noop
+  }
+
+  async disconnect(): Promise<void> {
+    // noop
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  on(type: ProviderInterfaceEmitted, sub: ProviderInterfaceEmitCb): () => void {
+    return (): void => {
+      // noop
+    };
+  }
+
+  async send<T>(method: string, params: unknown[]): Promise<T> {
+    this.#stats.total.requests++;
+
+    const call =
+      this.calls.get(callKey(method, params)) ??
+      this.getMetadataViaVersion(method, params);
+    if (!call) {
+      this.#stats.total.errors++;
+      throw new Error(
+        `Archive ${this.filePath} doesn't include ${method}(${params
+          .map((p) => JSON.stringify(p))
+          .join(', ')})`,
+      );
+    }
+    return Promise.resolve(call.result as T);
+  }
+
+  /**
+   * Metadata is only requested for the first block of each runtime, this can be a different block when indexing from the archive.
+   * Any block with the same runtime version has the same metadata.
+   * */
+  private getMetadataViaVersion(
+    method: string,
+    params: unknown[],
+  ): ArchivedCall | undefined {
+    if (method !== 'state_getMetadata' || !params.length) return;
+
+    const specVersion = (hash: unknown) =>
+      (
+        this.calls.get(callKey('state_getRuntimeVersion', [hash]))?.result as
+          | { specVersion: number }
+          | undefined
+      )?.specVersion;
+
+    const target = specVersion(params[0]);
+    if (target === undefined) return;
+
+    for (const call of this.calls.values()) {
+      if (
+        call.method === 'state_getMetadata' &&
+        call.params.length &&
+        specVersion(call.params[0]) === target
+      ) {
+        return call;
+      }
+    }
+  }
+
+  async subscribe(
+    type: string,
+    method: string,
+    params: unknown[],
+    cb: ProviderInterfaceCallback,
+  ): Promise<number> {
+    return Promise.reject(new Error(ERROR_SUBSCRIBE));
+  }
+
+  async unsubscribe(
+    type: string,
+    method: string,
+    id: number,
+  ): Promise<boolean> {
+    return Promise.reject(new Error(ERROR_SUBSCRIBE));
+  }
+}
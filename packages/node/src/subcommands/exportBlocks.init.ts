@@ -0,0 +1,26 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import { NestFactory } from '@nestjs/core';
+import { getLogger } from '@subql/node-core';
+import { ExportBlocksModule } from './exportBlocks.module';
+import { ExportBlocksService } from './exportBlocks.service';
+
+const logger = getLogger('CLI-ExportBlocks');
+export async function exportBlocksInit(
+  start: number,
+  end: number,
+  out: string,
+): Promise<void> {
+  try {
+    const app = await NestFactory.create(ExportBlocksModule);
+    await app.init();
+    const exportBlocksService = app.get(ExportBlocksService);
+
+    await exportBlocksService.export(start, end, out);
+  } catch (e) {
+    logger.error(e, 'Export blocks failed to execute');
+    process.exit(1);
+  }
+  process.exit(0);
+}
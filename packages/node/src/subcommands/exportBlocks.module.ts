@@ -0,0 +1,66 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import { Module } from '@nestjs/common';
+import { EventEmitter2, EventEmitterModule } from '@nestjs/event-emitter';
+import {
+  ConnectionPoolService,
+  ConnectionPoolStateManager,
+  NodeConfig,
+} from '@subql/node-core';
+import { ConfigureModule } from '../configure/configure.module';
+import { SubqueryProject } from '../configure/SubqueryProject';
+import { ApiService } from '../indexer/api.service';
+import { ApiPromiseConnection } from '../indexer/apiPromise.connection';
+import { RpcRecorder } from '../indexer/x-provider/archive';
+import { ExportBlocksService } from './exportBlocks.service';
+
+@Module({
+  providers: [
+    ConnectionPoolStateManager,
+    ConnectionPoolService,
+    {
+      provide: RpcRecorder,
+      useValue: new RpcRecorder(),
+    },
+    {
+      provide: ApiService,
+      useFactory: async (
+        project: SubqueryProject,
+        connectionPoolService: ConnectionPoolService<ApiPromiseConnection>,
+        eventEmitter: EventEmitter2,
+        nodeConfig: NodeConfig,
+        rpcRecorder: RpcRecorder,
+      ) => {
+        const apiService = new ApiService(
+          project,
+          connectionPoolService,
+          eventEmitter,
+          nodeConfig,
+        );
+        await apiService.init(rpcRecorder);
+        return apiService;
+      },
+      inject: [
+        'ISubqueryProject',
+        ConnectionPoolService,
+        EventEmitter2,
+        NodeConfig,
+        RpcRecorder,
+      ],
+    },
+    ExportBlocksService,
+  ],
+  controllers: [],
+})
+export class ExportBlocksFeatureModule {}
+
+@Module({
+  imports: [
+    ConfigureModule.register(),
+    ExportBlocksFeatureModule,
+    EventEmitterModule.forRoot(),
+  ],
+  controllers: [],
+})
+export class ExportBlocksModule {}
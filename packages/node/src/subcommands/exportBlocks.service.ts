@@ -0,0 +1,58 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import { Injectable } from '@nestjs/common';
+import { getLogger, NodeConfig } from '@subql/node-core';
+import { last, range } from 'lodash';
+import { ApiService } from '../indexer/api.service';
+import { RpcRecorder } from '../indexer/x-provider/archive';
+
+const logger = getLogger('export-blocks');
+
+/**
+ * Exports blocks by recording the RPC requests made to fetch them.
+ * Indexing with the archive replays the requests, so it fetches blocks the same way as indexing from the network.
+ * */
+@Injectable()
+export class ExportBlocksService {
+  constructor(
+    private apiService: ApiService,
+    private rpcRecorder: RpcRecorder,
+    private nodeConfig: NodeConfig,
+  ) {}
+
+  async export(start: number, end: number, out: string): Promise<void> {
+    if (start > end) {
+      throw new Error(`Start block ${start} is after end block ${end}`);
+    }
+
+    for (
+      let height = start;
+      height <= end;
+      height += this.nodeConfig.batchSize
+    ) {
+      const heights = range(
+        height,
+        Math.min(height + this.nodeConfig.batchSize, end + 1),
+      );
+      await this.apiService.fetchBlocks(heights);
+      logger.info(`Exported blocks ${heights[0]}...${last(heights)}`);
+    }
+
+    // The end block is the latest block in the archive so indexing stops there
+    const api = this.apiService.api;
+    const endHash = (await api.rpc.chain.getBlockHash(end)).toHex();
+    await api.rpc.chain.getHeader(endHash);
+    await api.rpc.state.getRuntimeVersion(endHash);
+    this.rpcRecorder.set('chain_getBlockHash', [], endHash);
+    this.rpcRecorder.set('chain_getFinalizedHead', [], endHash);
+    this.rpcRecorder.set(
+      'chain_getHeader',
+      [],
+      this.rpcRecorder.get('chain_getHeader', [endHash]),
+    );
+
+    await this.rpcRecorder.write(out);
+    logger.info(`Blocks ${start}...${end} written to ${out}`);
+  }
+}
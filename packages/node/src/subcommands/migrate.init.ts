@@ -0,0 +1,29 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import { NestFactory } from '@nestjs/core';
+import { getLogger, MigrateService } from '@subql/node-core';
+import { MigrateModule } from './migrate.module';
+
+const logger = getLogger('CLI-Migrate');
+export async function migrateInit(plan: boolean): Promise<void> {
+  if (!plan) {
+    logger.error(
+      'Migrations are applied when the project is indexed, use --plan to preview them',
+    );
+    process.exit(1);
+  }
+
+  try {
+    const app = await NestFactory.create(MigrateModule);
+    await app.init();
+    const migrateService = app.get(MigrateService);
+
+    const migration = await migrateService.plan();
+    process.stdout.write(`${migration.describe()}\n`);
+  } catch (e) {
+    logger.error(e, 'Migrate failed to execute');
+    process.exit(1);
+  }
+  process.exit(0);
+}
@@ -0,0 +1,29 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import { Module } from '@nestjs/common';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import {
+  DbModule,
+  MigrateService,
+  StoreCacheService,
+  StoreService,
+} from '@subql/node-core';
+import { ConfigureModule } from '../configure/configure.module';
+
+@Module({
+  providers: [StoreCacheService, StoreService, MigrateService],
+  controllers: [],
+})
+export class MigrateFeatureModule {}
+
+@Module({
+  imports: [
+    DbModule.forRoot(),
+    ConfigureModule.register(),
+    MigrateFeatureModule,
+    EventEmitterModule.forRoot(),
+  ],
+  controllers: [],
+})
+export class MigrateModule {}
@@ -378,24 +378,30 @@ export async function fetchBlocksBatches(
       : fetchRuntimeVersionRange(api, parentBlockHashs),
   ]);
   return blocks.map((block, idx) => {
-    const events = blockEvents[idx];
     const parentSpecVersion =
       overallSpecVer !== undefined
         ? overallSpecVer
         : runtimeVersions[idx].specVersion.toNumber();
-    const wrappedBlock = wrapBlock(block, events.toArray(), parentSpecVersion);
-    const wrappedExtrinsics = wrapExtrinsics(wrappedBlock, events);
-    const wrappedEvents = wrapEvents(wrappedExtrinsics, events, wrappedBlock);
-
-    wrappedBlock.block.header;
-    return {
-      block: wrappedBlock,
-      extrinsics: wrappedExtrinsics,
-      events: wrappedEvents,
-    };
+    return wrapBlockContent(block, blockEvents[idx], parentSpecVersion);
   });
 }
 
+export function wrapBlockContent(
+  block: SignedBlock,
+  events: Vec<EventRecord>,
+  parentSpecVersion: number,
+): BlockContent {
+  const wrappedBlock = wrapBlock(block, events.toArray(), parentSpecVersion);
+  const wrappedExtrinsics = wrapExtrinsics(wrappedBlock, events);
+  const wrappedEvents = wrapEvents(wrappedExtrinsics, events, wrappedBlock);
+
+  return {
+    block: wrappedBlock,
+    extrinsics: wrappedExtrinsics,
+    events: wrappedEvents,
+  };
+}
+
 // TODO why is fetchBlocksBatches a breadth first funciton rather than depth?
 export async function fetchLightBlock(
   api: ApiPromise,
@@ -22,4 +22,38 @@ export const yargsOptions = yargsBuilder({
     const { reindexInit } = require('./subcommands/reindex.init');
     return reindexInit(targetHeight);
   },
+  initMigrate: (plan: boolean) => {
+    // lazy import to make sure logger is instantiated before all other services
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { migrateInit } = require('./subcommands/migrate.init');
+    return migrateInit(plan);
+  },
+  initExportBlocks: (start: number, end: number, out: string) => {
+    // lazy import to make sure logger is instantiated before all other services
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { exportBlocksInit } = require('./subcommands/exportBlocks.init');
+    return exportBlocksInit(start, end, out);
+  },
+  rootOptions: {
+    'block-source': {
+      demandOption: false,
+      describe:
+        'Read blocks from an archive created with export-blocks instead of the network endpoints, e.g. file:///path/to/blocks.gz',
+      type: 'string',
+    },
+  },
+  runOptions: {
+    'block-cache': {
+      demandOption: false,
+      describe:
+        'Directory to cache fetched blocks in. Re-indexing blocks that are already cached does not need to fetch them again. Only finalized blocks are cached',
+      type: 'string',
+    },
+    'block-cache-size': {
+      demandOption: false,
+      describe:
+        'The maximum size of the block cache in MB, this includes blocks cached by all workers. The least recently used blocks are removed when it is exceeded. Defaults to 1024',
+      type: 'number',
+    },
+  },
 });
@@ -176,4 +176,49 @@ describe('GraphqlModule', () => {
 
     expect(fetchedMeta).toMatchObject(mock);
   });
+
+  it('can query interface views by their primary key', async () => {
+    await pool.query(`CREATE TABLE subquery_1.cats (id text PRIMARY KEY, name text NOT NULL)`);
+    await pool.query(`CREATE TABLE subquery_1.dogs (id text PRIMARY KEY, name text NOT NULL)`);
+    try {
+      await pool.query(`INSERT INTO subquery_1.cats VALUES ('cat-1', 'Tom')`);
+      await pool.query(`INSERT INTO subquery_1.dogs VALUES ('dog-1', 'Rex')`);
+      // The same view that the node creates for `interface Pet` implemented by Cat and Dog
+      await pool.query(`CREATE VIEW subquery_1.pets AS
+        SELECT 'Cat' AS "_entity_name", "id", "name" FROM subquery_1.cats
+        UNION ALL SELECT 'Dog' AS "_entity_name", "id", "name" FROM subquery_1.dogs`);
+      await pool.query(`COMMENT ON VIEW subquery_1.pets IS E'@interface Cat,Dog\\n@primaryKey id'`);
+
+      const server = await createApolloServer();
+
+      const GET_PETS = gql`
+        query {
+          pets(orderBy: PRIMARY_KEY_DESC) {
+            nodes {
+              id
+              name
+              _entityName
+            }
+          }
+          pet(id: "cat-1") {
+            name
+          }
+        }
+      `;
+
+      const results = await server.executeOperation({query: GET_PETS});
+      expect(results.errors).toBeUndefined();
+      expect(results.data).toEqual({
+        pets: {
+          nodes: [
+            {id: 'dog-1', name: 'Rex', _entityName: 'Dog'},
+            {id: 'cat-1', name: 'Tom', _entityName: 'Cat'},
+          ],
+        },
+        pet: {name: 'Tom'},
+      });
+    } finally {
+      await pool.query(`DROP TABLE subquery_1.cats, subquery_1.dogs CASCADE`);
+    }
+  });
 });
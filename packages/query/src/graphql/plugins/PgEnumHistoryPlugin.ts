@@ -0,0 +1,63 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {EnumHistory, METADATA_REGEX, MULTI_METADATA_REGEX} from '@subql/utils';
+import {PgType} from '@subql/x-graphile-build-pg';
+import {Plugin} from 'graphile-build';
+import {Pool} from 'pg';
+
+// Reads the enum history recorded by the indexer, with multiple chains each metadata table has the same history
+async function getEnumHistory(pgPool: Pool, schema: string): Promise<EnumHistory> {
+  const {rows: tables} = await pgPool.query<{table_name: string}>(
+    `SELECT table_name FROM information_schema.tables WHERE table_schema = $1`,
+    [schema]
+  );
+
+  const history: EnumHistory = {};
+  for (const {table_name} of tables) {
+    if (!METADATA_REGEX.test(table_name) && !MULTI_METADATA_REGEX.test(table_name)) continue;
+    const {rows} = await pgPool.query<{value: string}>(
+      `SELECT value FROM "${schema}"."${table_name}" WHERE key = 'enumHistory'`
+    );
+    if (rows[0]) {
+      Object.assign(history, JSON.parse(rows[0].value));
+    }
+  }
+  return history;
+}
+
+// Adds values that have been renamed to enums as deprecated aliases of the new value
+export const PgEnumHistoryPlugin: Plugin = async (builder, options) => {
+  const [schema] = options.pgSchemas as string[];
+  const history = await getEnumHistory(options.pgConfig as Pool, schema);
+
+  builder.hook('GraphQLEnumType:values', (values, build, context) => {
+    const {extend, inflection} = build;
+    const {
+      scope: {isPgEnumType, pgIntrospection},
+    } = context;
+
+    if (!isPgEnumType) {
+      return values;
+    }
+
+    const deprecatedValues = (history[inflection.enumType(pgIntrospection as PgType)] ?? []).filter(
+      ({renamedTo, value}) => renamedTo !== undefined && !values[inflection.enumName(value)]
+    );
+    if (!deprecatedValues.length) {
+      return values;
+    }
+
+    // Deprecated values come first so that results are serialized with the current value name
+    return extend(
+      deprecatedValues.reduce((memo, {renamedTo, value}) => {
+        memo[inflection.enumName(value)] = {
+          value: renamedTo,
+          deprecationReason: `Renamed to ${renamedTo}`,
+        };
+        return memo;
+      }, {}),
+      values
+    );
+  });
+};
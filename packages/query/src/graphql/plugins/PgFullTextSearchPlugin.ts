@@ -0,0 +1,128 @@
+// Copyright 2020-2023 SubQuery Pte Ltd authors & contributors
+// SPDX-License-Identifier: GPL-3.0
+
+import {PgAttribute, PgClass, QueryBuilder} from '@subql/x-graphile-build-pg';
+import {Plugin} from 'graphile-build';
+import {GraphQLInt, GraphQLString} from 'graphql';
+
+// Generated column created by the indexer for entities with the @fullText directive
+const FULL_TEXT_COLUMN = '_search';
+
+const DEFAULT_SEARCH_LIMIT = 100;
+
+const getFullTextAttribute = (table: PgClass): PgAttribute | undefined =>
+  table.attributes.find(({name, tags}) => name === FULL_TEXT_COLUMN && typeof tags.fullText === 'string');
+
+// Adds search<Entity>(query: String!) root fields for entities that have a full text search column
+export const PgFullTextSearchPlugin: Plugin = (builder) => {
+  builder.hook('GraphQLObjectType:fields', (fields, build, context) => {
+    const {
+      extend,
+      graphql: {GraphQLList, GraphQLNonNull},
+      parseResolveInfo,
+      pgGetGqlTypeByTypeIdAndModifier,
+      pgIntrospectionResultsByKind: introspectionResultsByKind,
+      pgOmit: omit,
+      pgPrepareAndRun,
+      pgQueryFromResolveData: queryFromResolveData,
+      pgSql: sql,
+    } = build;
+    const {
+      fieldWithHooks,
+      scope: {isRootQuery},
+    } = context;
+
+    if (!isRootQuery) {
+      return fields;
+    }
+
+    return extend(
+      fields,
+      introspectionResultsByKind.class.reduce((memo, table) => {
+        if (!table.namespace) return memo;
+        if (omit(table, 'read')) return memo;
+
+        const searchAttribute = getFullTextAttribute(table);
+        const TableType = pgGetGqlTypeByTypeIdAndModifier(table.type.id, null);
+        if (!searchAttribute || !TableType) return memo;
+
+        const language = searchAttribute.tags.fullText as string;
+        const sqlFullTableName = sql.identifier(table.namespace.name, table.name);
+        const isHistorical = table.attributes.some(({name}) => name === '_block_range');
+        const fieldName = `search${TableType.name}`;
+
+        memo[fieldName] = fieldWithHooks(
+          fieldName,
+          ({getDataFromParsedResolveInfoFragment}) => ({
+            description: `Full text search of ${TableType.name}, results are ordered by relevance`,
+            type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(TableType))),
+            args: {
+              query: {
+                description: 'Search terms, supports quoted phrases, "or" and "-" to exclude terms',
+                type: new GraphQLNonNull(GraphQLString),
+              },
+              first: {
+                description: `Only read the first \`n\` results, defaults to ${DEFAULT_SEARCH_LIMIT}`,
+                type: GraphQLInt,
+              },
+              offset: {
+                description: 'Skip the first `n` results',
+                type: GraphQLInt,
+              },
+              ...(isHistorical
+                ? {
+                    blockHeight: {
+                      description: 'Block height',
+                      defaultValue: '9223372036854775807',
+                      type: GraphQLString, // String because of int overflow
+                    },
+                  }
+                : {}),
+            },
+            async resolve(parent, args, resolveContext, resolveInfo) {
+              const {pgClient} = resolveContext;
+              const parsedResolveInfoFragment = parseResolveInfo(resolveInfo);
+              parsedResolveInfoFragment.args = args;
+              const resolveData = getDataFromParsedResolveInfoFragment(parsedResolveInfoFragment, TableType);
+              const query = queryFromResolveData(
+                sqlFullTableName,
+                undefined,
+                resolveData,
+                {useAsterisk: false},
+                (queryBuilder: QueryBuilder) => {
+                  const alias = queryBuilder.getTableAlias();
+                  const tsQuery = sql.fragment`websearch_to_tsquery(${sql.value(language)}::regconfig, ${sql.value(
+                    args.query
+                  )})`;
+                  const searchColumn = sql.fragment`${alias}.${sql.identifier(FULL_TEXT_COLUMN)}`;
+
+                  if (isHistorical) {
+                    // Save blockHeight to context, so it gets passed down to relations
+                    queryBuilder.context.args = {blockHeight: sql.fragment`${sql.value(args.blockHeight)}::bigint`};
+                    queryBuilder.where(sql.fragment`${alias}._block_range @> ${queryBuilder.context.args.blockHeight}`);
+                  }
+                  queryBuilder.where(sql.fragment`${searchColumn} @@ ${tsQuery}`);
+                  queryBuilder.orderBy(sql.fragment`ts_rank(${searchColumn}, ${tsQuery})`, false);
+                  queryBuilder.orderBy(sql.fragment`${alias}.${sql.identifier('id')}`, true);
+                  queryBuilder.limit(args.first ?? DEFAULT_SEARCH_LIMIT);
+                  if (args.offset) {
+                    queryBuilder.offset(args.offset);
+                  }
+                },
+                resolveContext,
+                resolveInfo.rootValue
+              );
+              const {text, values} = sql.compile(query);
+              const {rows} = await pgPrepareAndRun(pgClient, text, values);
+              return rows;
+            },
+          }),
+          {
+            isPgFullTextSearchField: true,
+          }
+        );
+        return memo;
+      }, {})
+    );
+  });
+};
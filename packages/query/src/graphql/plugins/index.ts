@@ -52,6 +52,8 @@ import PgAggregationPlugin from './PgAggregationPlugin';
 import {PgBlockHeightPlugin} from './PgBlockHeightPlugin';
 import {PgRowByVirtualIdPlugin} from './PgRowByVirtualIdPlugin';
 import {PgDistinctPlugin} from './PgDistinctPlugin';
+import {PgFullTextSearchPlugin} from './PgFullTextSearchPlugin';
+import {PgEnumHistoryPlugin} from './PgEnumHistoryPlugin';
 import {makeAddPgTableOrderByPlugin, orderByAscDesc} from 'postgraphile';
 import PgConnectionArgOrderBy from './PgOrderByUnique';
 
@@ -112,6 +114,8 @@ const plugins = [
   PgBlockHeightPlugin,
   PgRowByVirtualIdPlugin,
   PgDistinctPlugin,
+  PgFullTextSearchPlugin,
+  PgEnumHistoryPlugin,
   makeAddInflectorsPlugin((inflectors) => {
     const {constantCase: oldConstantCase} = inflectors;
     const enumValues = new Set();
@@ -30,4 +30,12 @@ export const smartTagsPlugin = makePgSmartTagsPlugin([
       omit: true,
     },
   },
+  // Omit _search column, it is queried with the search root fields
+  {
+    kind: PgEntityKind.ATTRIBUTE,
+    match: ({name}) => /^_search$/.test(name),
+    tags: {
+      omit: true,
+    },
+  },
 ]);
@@ -128,22 +128,64 @@ export interface IProjectManifest<D> {
   validate(): void;
 }
 
+/**
+ * Represents the options for a single network endpoint.
+ * @interface
+ */
+export interface IEndpointConfig {
+  /**
+   * Headers to include with requests to the endpoint, e.g. for API keys (optional).
+   * @type {Record<string, string>}
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * The maximum number of requests per second to the endpoint (optional).
+   * @type {number}
+   */
+  rateLimit?: number;
+
+  /**
+   * The maximum number of concurrent requests to the endpoint (optional). Defaults to the --endpoint-max-concurrency option.
+   * @type {number}
+   */
+  maxConcurrency?: number;
+
+  /**
+   * How likely the endpoint is to be chosen relative to other endpoints (optional). Defaults to 1.
+   * @type {number}
+   */
+  weight?: number;
+
+  /**
+   * Whether the endpoint is an archive node with the entire chain state or a light/pruned node (optional). Defaults to archive.
+   * Light endpoints are only used when no archive endpoints are available.
+   * @type {'archive' | 'light'}
+   */
+  role?: 'archive' | 'light';
+}
+
 /**
  * Represents the network configuration for a project.
  * @interface
  */
 export interface ProjectNetworkConfig {
   /**
-   * The endpoint(s) for the network connection, which can be a single string or an array of strings.
+   * The endpoint(s) for the network connection, which can be a single string, an array of strings or a map of endpoints to their options.
    *
    * Endpoints ideally should non-pruned archive nodes (so you have access for the entire chain state)
    * We recommend providing more than one endpoint for improved reliability, performance, and uptime.
    * Public nodes may be rate limited, which can affect indexing speed
    * When developing your project we suggest adding a private API key
    *
-   * @type {string | string[]}
+   * @type {string | string[] | Record<string, IEndpointConfig>}
+   * @example
+   * endpoint: {
+   *   'wss://polkadot.api.onfinality.io/ws': {headers: {apikey: '<API_KEY>'}, rateLimit: 50},
+   *   'wss://rpc.polkadot.io': {role: 'light'},
+   * }
    */
-  endpoint: string | string[];
+  endpoint: string | string[] | Record<string, IEndpointConfig>;
 
   /**
    * The SubQuery network dictionary endpoint (optional).
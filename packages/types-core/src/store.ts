@@ -6,13 +6,48 @@ export type FunctionPropertyNames<T> = {
 }[keyof T];
 
 type SingleOperators = '=' | '!=';
+type ComparisonOperators = '>' | '>=' | '<' | '<=';
 type ArrayOperators = 'in' | '!in';
-export type FieldOperators = SingleOperators | ArrayOperators;
+type RangeOperators = 'between';
+type PatternOperators = 'like' | 'ilike';
+type NullOperators = 'isNull';
+export type FieldOperators =
+  | SingleOperators
+  | ComparisonOperators
+  | ArrayOperators
+  | RangeOperators
+  | PatternOperators
+  | NullOperators;
 
 export type FieldsExpression<T> =
-  | [field: keyof T, operator: SingleOperators, value: T[keyof T]]
-  | [field: keyof T, operator: ArrayOperators, value: Array<T[keyof T]>];
+  | [field: keyof T, operator: SingleOperators | ComparisonOperators, value: T[keyof T]]
+  | [field: keyof T, operator: ArrayOperators, value: Array<T[keyof T]>]
+  // Inclusive of both bounds, the same as SQL BETWEEN
+  | [field: keyof T, operator: RangeOperators, value: [T[keyof T], T[keyof T]]]
+  // Uses SQL LIKE syntax, `%` matches any sequence of characters and `_` matches a single character
+  | [field: keyof T, operator: PatternOperators, value: string]
+  // `true` matches null values, `false` matches non-null values
+  | [field: keyof T, operator: NullOperators, value: boolean];
 
+export type GetOptions<T> = {
+  offset?: number;
+  limit?: number;
+  // Results are ordered by this field then by id, to ensure a consistent order
+  orderBy?: keyof T;
+  orderDirection?: 'ASC' | 'DESC';
+};
+
+export type HistoricalGetOptions = {
+  offset?: number;
+  limit?: number;
+};
+
+export type IterateOptions = {
+  // The number of records loaded at a time, this is capped by the node query limit
+  batchSize?: number;
+};
+
+export type AggregateFunction = 'sum' | 'min' | 'max' | 'avg';
 
 export interface Entity {
   id: string;
@@ -22,17 +57,46 @@ export interface Entity {
 
 export interface Store {
   get(entity: string, id: string): Promise<Entity | undefined>;
-  getByFields<T extends Entity>(
-    entity: string,
-    filter: FieldsExpression<T>[],
-    options?: {offset?: number; limit?: number}
-  ): Promise<T[]>;
-  getByField(entity: string, field: string, value: any, options?: {offset?: number; limit?: number}): Promise<Entity[]>;
+  getByFields<T extends Entity>(entity: string, filter: FieldsExpression<T>[], options?: GetOptions<T>): Promise<T[]>;
+  getByField(entity: string, field: string, value: any, options?: GetOptions<any>): Promise<Entity[]>;
   getOneByField(entity: string, field: string, value: any): Promise<Entity | undefined>;
+  // Get an entity as it was at a block height, this requires historical indexing to be enabled
+  getAt(entity: string, id: string, blockHeight: number): Promise<Entity | undefined>;
+  getByFieldAt(
+    entity: string,
+    field: string,
+    value: unknown,
+    blockHeight: number,
+    options?: HistoricalGetOptions
+  ): Promise<Entity[]>;
+  // Iterates over all matching entities ordered by id, this is not limited by the query limit
+  iterate<T extends Entity>(
+    entity: string,
+    filter?: FieldsExpression<T>[],
+    options?: IterateOptions
+  ): AsyncGenerator<T>;
+  count<T extends Entity>(entity: string, filter?: FieldsExpression<T>[]): Promise<number>;
+  // Aggregates a numeric field, null is returned if there are no matching non-null values. BigInt fields will return a bigint for sum, min and max
+  aggregate<T extends Entity>(
+    entity: string,
+    field: string,
+    fn: AggregateFunction,
+    filter?: FieldsExpression<T>[]
+  ): Promise<number | bigint | null>;
   set(entity: string, id: string, data: Entity): Promise<void>;
   bulkCreate(entity: string, data: Entity[]): Promise<void>;
   //if fields in provided, only specify fields will be updated
   bulkUpdate(entity: string, data: Entity[], fields?: string[]): Promise<void>;
   remove(entity: string, id: string): Promise<void>;
   bulkRemove(entity: string, ids: string[]): Promise<void>;
+  // Adds delta to a numeric field of an existing entity and returns the new value, null values are treated as 0
+  increment(entity: string, id: string, field: string, delta: number | bigint): Promise<number | bigint>;
+  // Creates the entity from defaults if it doesn't exist, otherwise the updater is applied to the existing entity.
+  // The updater can be a function or fields to merge into the existing entity. Functions are not supported in workers
+  upsert<T extends Entity>(
+    entity: string,
+    id: string,
+    defaults: Omit<T, 'id'>,
+    updater?: ((entity: T) => T) | Partial<Omit<T, 'id'>>
+  ): Promise<T>;
 }
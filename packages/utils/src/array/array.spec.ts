@@ -17,4 +17,13 @@ describe('Array util', () => {
       ['apple', 'banana', 'orange'],
     ]);
   });
+
+  it('findDuplicateStringArray does not sort the given arrays', () => {
+    const arrays = [
+      ['owner', 'balance'],
+      ['balance', 'owner'],
+    ];
+    expect(findDuplicateStringArray(arrays)).toStrictEqual([['balance', 'owner']]);
+    expect(arrays[0]).toEqual(['owner', 'balance']);
+  });
 });
@@ -6,11 +6,13 @@ import {uniqWith, isEqual} from 'lodash';
 // Find duplicate string array in arrays
 // Only sorted unique string array will be return
 export function findDuplicateStringArray(arrays: string[][]): string[][] {
-  const sortedArrays = arrays.map((arr) => arr.sort().join(''));
+  // Sort copies so that the order of the original arrays is kept
+  const sortedArrays = arrays.map((arr) => [...arr].sort());
+  const joinedArrays = sortedArrays.map((arr) => arr.join(''));
   const duplicateArray = [];
-  for (let i = 0; i < sortedArrays.length; i++) {
-    if (sortedArrays.indexOf(sortedArrays[i]) !== sortedArrays.lastIndexOf(sortedArrays[i])) {
-      duplicateArray.push(arrays[i]);
+  for (let i = 0; i < joinedArrays.length; i++) {
+    if (joinedArrays.indexOf(joinedArrays[i]) !== joinedArrays.lastIndexOf(joinedArrays[i])) {
+      duplicateArray.push(sortedArrays[i]);
     }
   }
   return uniqWith(duplicateArray, isEqual);
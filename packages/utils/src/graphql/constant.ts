@@ -5,4 +5,5 @@ export enum DirectiveName {
   DerivedFrom = 'derivedFrom',
   Entity = 'entity',
   JsonField = 'jsonField',
+  ManyToMany = 'manyToMany',
 }
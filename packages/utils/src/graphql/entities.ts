@@ -8,6 +8,7 @@ import {
   getNullableType,
   GraphQLEnumType,
   GraphQLField,
+  GraphQLInterfaceType,
   GraphQLNamedType,
   GraphQLObjectType,
   GraphQLOutputType,
@@ -21,6 +22,7 @@ import {
   ValueNode,
   BooleanValueNode,
 } from 'graphql';
+import {lowerFirst} from 'lodash';
 import {findDuplicateStringArray} from '../array';
 import {Logger} from '../logger';
 import {getTypeByScalarName} from '../types';
@@ -29,6 +31,9 @@ import {buildSchemaFromFile} from './schema';
 import {
   FieldScalar,
   GraphQLEntityField,
+  GraphQLEntityIndex,
+  GraphQLFullTextType,
+  GraphQLInterfacesType,
   GraphQLJsonFieldType,
   GraphQLJsonObjectType,
   GraphQLModelsRelationsEnums,
@@ -64,13 +69,27 @@ export function getAllEntitiesRelations(_schema: GraphQLSchema | string): GraphQ
   const enums = new Map(
     getEnumsFromSchema(schema).map((node) => [
       node.name,
-      {name: node.name, description: node.description, values: node.getValues().map((v) => v.value)},
+      {
+        name: node.name,
+        description: node.description,
+        values: node.getValues().map((v) => v.value),
+        renamedFrom: getEnumRenames(schema, node),
+      },
     ])
   );
 
-  const modelRelations = {models: [], relations: [], enums: [...enums.values()]} as GraphQLModelsRelationsEnums;
+  const modelRelations = {
+    models: [],
+    relations: [],
+    enums: [...enums.values()],
+    interfaces: [],
+  } as GraphQLModelsRelationsEnums;
+  const entityDirective = schema.getDirective('entity');
   const derivedFrom = schema.getDirective('derivedFrom');
+  const manyToManyDirective = schema.getDirective('manyToMany');
   const indexDirective = schema.getDirective('index');
+  const dbTypeDirective = schema.getDirective('dbType');
+  const computedDirective = schema.getDirective('computed');
   for (const entity of entities) {
     const newModel: GraphQLModelsType = {
       name: entity.name,
@@ -84,11 +103,17 @@ export function getAllEntitiesRelations(_schema: GraphQLSchema | string): GraphQ
     for (const field of entityFields) {
       const typeString = extractType(field.type);
       const derivedFromDirectValues = getDirectiveValues(derivedFrom, field.astNode);
+      const manyToManyDirectiveVal = getDirectiveValues(manyToManyDirective, field.astNode);
       const indexDirectiveVal = getDirectiveValues(indexDirective, field.astNode);
+      const dbTypeDirectiveVal = getDirectiveValues(dbTypeDirective, field.astNode) as {type: string};
+      const computedDirectiveVal = getDirectiveValues(computedDirective, field.astNode) as {sql: string};
 
       //If is a basic scalar type
       const typeClass = getTypeByScalarName(typeString);
-      if (typeClass?.fieldScalar) {
+      // If is a many to many relation, the join entity is added after all entities
+      if (manyToManyDirectiveVal) {
+        modelRelations.relations.push(packManyToManyRelation(entity, field, typeString, entityNameSet));
+      } else if (typeClass?.fieldScalar) {
         newModel.fields.push(packEntityField(typeString, field, false));
       }
       // If is an enum
@@ -147,21 +172,56 @@ export function getAllEntitiesRelations(_schema: GraphQLSchema | string): GraphQ
       } else {
         throw new Error(`${typeString} is not an valid type`);
       }
+      // handle column type overrides
+      if (dbTypeDirectiveVal) {
+        const entityField = newModel.fields.find((f) => f.name === field.name);
+        if (!entityField || entityField.isEnum || entityField.isArray) {
+          throw new Error(`dbType can not be added on field ${field.name}`);
+        }
+        if (!getTypeByScalarName(entityField.type)?.supportsDbType(dbTypeDirectiveVal.type)) {
+          throw new Error(
+            `dbType ${dbTypeDirectiveVal.type} is not supported for ${entityField.type} field ${field.name}`
+          );
+        }
+        entityField.dbType = dbTypeDirectiveVal.type;
+      }
+      // handle generated columns
+      if (computedDirectiveVal) {
+        const entityField = newModel.fields.find((f) => f.name === field.name);
+        if (!entityField || !typeClass?.fieldScalar || typeString === 'ID' || entityField.isArray) {
+          throw new Error(`computed can not be added on field ${field.name}`);
+        }
+        if (indexDirectiveVal) {
+          throw new Error(`index can not be added on computed field ${field.name}`);
+        }
+        const {sql} = computedDirectiveVal;
+        if (!sql.trim() || sql.includes(';')) {
+          throw new Error(`Computed field ${entity.name}.${field.name} expression is not valid`);
+        }
+        entityField.computed = sql;
+      }
       // handle indexes
       if (indexDirectiveVal) {
         if (typeString !== 'ID' && typeClass) {
-          newModel.indexes.push({
-            unique: indexDirectiveVal.unique,
-            fields: [field.name],
-          });
+          const entityField = newModel.fields.find((f) => f.name === field.name);
+          newModel.indexes.push(
+            packIndex(entity, [field.name], indexDirectiveVal as IndexDirectiveValues, entityField?.isArray)
+          );
         } else if (typeString !== 'ID' && entityNameSet.includes(typeString)) {
-          if (indexDirectiveVal.unique) {
-            const fkIndex = newModel.indexes.find(
-              (idx) => idx.fields.length === 1 && idx.fields[0] === `${field.name}Id`
+          const fkIndex = newModel.indexes.find(
+            (idx) => idx.fields.length === 1 && idx.fields[0] === `${field.name}Id`
+          );
+          if (fkIndex) {
+            const {unique, using, where} = indexDirectiveVal as IndexDirectiveValues;
+            // Unique indexes can't be hash indexes, the default for foreign keys
+            Object.assign(
+              fkIndex,
+              packIndex(entity, fkIndex.fields, {
+                unique: !!unique,
+                using: using ?? (unique ? IndexType.BTREE : IndexType.HASH),
+                where,
+              })
             );
-            if (fkIndex) {
-              fkIndex.unique = true;
-            }
           }
         } else {
           throw new Error(`index can not be added on field ${field.name}`);
@@ -171,7 +231,10 @@ export function getAllEntitiesRelations(_schema: GraphQLSchema | string): GraphQ
 
     // Composite Indexes
     const compositeIndexDirective = schema.getDirective('compositeIndexes');
-    const compositeIndexDirectiveVal = getDirectiveValues(compositeIndexDirective, entity.astNode) as {
+    const compositeIndexDirectiveVal = getDirectiveValues(
+      compositeIndexDirective,
+      entity.astNode
+    ) as IndexDirectiveValues & {
       fields?: string[][];
     };
     if (compositeIndexDirectiveVal?.fields.length) {
@@ -183,17 +246,192 @@ export function getAllEntitiesRelations(_schema: GraphQLSchema | string): GraphQ
       }
       compositeIndexDirectiveVal.fields.forEach((indexFields) => {
         const joinFields = getJoinIndexFields(entity, entityFields, fkNameSet, indexFields);
-        newModel.indexes.push({
-          fields: joinFields,
-        });
+        // Computed columns are added after the indexes are created
+        if (joinFields.some((name) => newModel.fields.find((f) => f.name === name)?.computed !== undefined)) {
+          throw new Error(`Composite index [${indexFields}] on entity ${entity} can't include computed fields`);
+        }
+        const {using, where} = compositeIndexDirectiveVal;
+        newModel.indexes.push(packIndex(entity, joinFields, {using, where}));
       });
     }
+
+    // Historical data retention
+    const entityDirectiveVal = getDirectiveValues(entityDirective, entity.astNode) as {historyRetention?: number};
+    if (entityDirectiveVal?.historyRetention !== undefined) {
+      if (entityDirectiveVal.historyRetention <= 0) {
+        throw new Error(`History retention on entity ${entity.name} must be greater than 0`);
+      }
+      newModel.historyRetention = entityDirectiveVal.historyRetention;
+    }
+
+    // Full text search
+    const fullTextDirective = schema.getDirective('fullText');
+    const fullTextDirectiveVal = getDirectiveValues(fullTextDirective, entity.astNode) as GraphQLFullTextType;
+    if (fullTextDirectiveVal) {
+      validateFullText(entity, newModel, fullTextDirectiveVal);
+      newModel.fullText = fullTextDirectiveVal;
+    }
     modelRelations.models.push(newModel);
   }
+  for (const relation of modelRelations.relations.filter((r) => r.type === 'manyToMany')) {
+    if (entityNameSet.includes(relation.through)) {
+      throw new Error(
+        `Many to many relation ${relation.from}.${relation.fieldName} join entity ${relation.through} already exists`
+      );
+    }
+    const {models, relations} = getJoinEntity(relation);
+    modelRelations.models.push(...models);
+    modelRelations.relations.push(...relations);
+  }
+  modelRelations.interfaces = getEntityInterfaces(schema, entities, modelRelations.models);
   validateRelations(modelRelations);
   return modelRelations;
 }
 
+// Interfaces implemented by entities, the fields of an interface must be scalar or enum fields of the entities
+function getEntityInterfaces(
+  schema: GraphQLSchema,
+  entities: GraphQLObjectType[],
+  models: GraphQLModelsType[]
+): GraphQLInterfacesType[] {
+  return Object.values(schema.getTypeMap())
+    .filter((node): node is GraphQLInterfaceType => isInterfaceType(node) && node.astNode !== undefined)
+    .map((node) => ({
+      node,
+      implementations: entities.filter((entity) => entity.getInterfaces().includes(node)).map((entity) => entity.name),
+    }))
+    .filter(({implementations}) => implementations.length)
+    .map(({implementations, node}) => ({
+      name: node.name,
+      description: node.description,
+      implementations,
+      fields: Object.values(node.getFields()).map((field) => {
+        const entityFields = implementations.map((name) =>
+          models.find((model) => model.name === name)?.fields.find((f) => f.name === field.name)
+        );
+        const [entityField] = entityFields;
+        // Foreign keys, derived fields and json fields aren't columns that can be shared
+        if (!entityField || entityField.jsonInterface) {
+          throw new Error(`Interface ${node.name} field ${field.name} must be a scalar or enum field`);
+        }
+        if (entityFields.some((f) => f?.dbType !== entityField.dbType)) {
+          throw new Error(
+            `Interface ${node.name} field ${field.name} must have the same dbType on all implementations`
+          );
+        }
+        return {...entityField, description: field.description, nullable: !isNonNullType(field.type)};
+      }),
+    }));
+}
+
+/**
+ * Many to many relations are stored in a join entity named after both entities, e.g. `PostTag` for `Post.tags: [Tag] @manyToMany`.
+ * An entity can only have one many to many relation with each other entity.
+ * */
+function packManyToManyRelation(
+  entity: GraphQLObjectType,
+  field: GraphQLField<unknown, unknown>,
+  typeString: string,
+  entityNameSet: string[]
+): GraphQLRelationsType {
+  const nullableType = isNonNullType(field.type) ? getNullableType(field.type) : field.type;
+  if (!entityNameSet.includes(typeString) || !isListType(nullableType)) {
+    throw new Error(`Many to many relation ${entity.name}.${field.name} must be a list of entities`);
+  }
+  if (typeString === entity.name) {
+    throw new Error(`Many to many relation ${entity.name}.${field.name} can't reference its own entity`);
+  }
+  const duplicate = Object.values(entity.getFields()).find(
+    (f) =>
+      f !== field &&
+      f.astNode?.directives?.some(({name: {value}}) => value === DirectiveName.ManyToMany) &&
+      extractType(f.type) === typeString
+  );
+  if (duplicate) {
+    throw new Error(`Entity ${entity.name} has more than one many to many relation with ${typeString}`);
+  }
+  return {
+    from: entity.name,
+    type: 'manyToMany',
+    to: typeString,
+    foreignKey: `${lowerFirst(entity.name)}Id`,
+    fieldName: field.name,
+    through: `${entity.name}${typeString}`,
+    otherKey: `${lowerFirst(typeString)}Id`,
+  };
+}
+
+// The join entity has a foreign key to each entity of a many to many relation
+function getJoinEntity({foreignKey, from, otherKey, through, to}: GraphQLRelationsType): {
+  models: GraphQLModelsType[];
+  relations: GraphQLRelationsType[];
+} {
+  const keys: [string, string][] = [
+    [foreignKey, from],
+    [otherKey, to],
+  ];
+  return {
+    models: [
+      {
+        name: through,
+        description: `Join entity for the many to many relation between ${from} and ${to}`,
+        fields: [
+          {name: 'id', type: FieldScalar.ID, isArray: false, nullable: false, isEnum: false},
+          ...keys.map(([key]) => ({
+            name: key,
+            type: FieldScalar.String,
+            isArray: false,
+            nullable: false,
+            isEnum: false,
+          })),
+        ],
+        indexes: keys.map(([key]) => ({unique: false, fields: [key], using: IndexType.HASH})),
+      },
+    ],
+    relations: keys.map(([key, entity]) => ({from: through, type: 'belongsTo', to: entity, foreignKey: key})),
+  };
+}
+
+interface IndexDirectiveValues {
+  unique?: boolean;
+  using?: string;
+  where?: string;
+}
+
+function packIndex(
+  entity: GraphQLObjectType<any, any>,
+  fields: string[],
+  {unique, using, where}: IndexDirectiveValues,
+  isArray?: boolean
+): GraphQLEntityIndex {
+  const indexName = `${entity}.${fields}`;
+  if (using !== undefined && !Object.values<string>(IndexType).includes(using)) {
+    throw new Error(`Index type ${using} on ${indexName} is not supported`);
+  }
+  if (unique && using !== undefined && using !== IndexType.BTREE) {
+    throw new Error(`Unique index on ${indexName} must use btree, ${using} indexes can't be unique`);
+  }
+  if (using === IndexType.HASH && fields.length > 1) {
+    throw new Error(`Hash index on ${indexName} can only have 1 field`);
+  }
+  // Arrays are stored as json, other types need an extension for gin indexes
+  if (using === IndexType.GIN && !isArray) {
+    throw new Error(`Gin index on ${indexName} is only supported on array and json fields`);
+  }
+  if (where !== undefined && (!where.trim() || where.includes(';'))) {
+    throw new Error(`Index predicate on ${indexName} is not valid`);
+  }
+
+  const index: GraphQLEntityIndex = {unique, fields};
+  if (using !== undefined) {
+    index.using = using as IndexType;
+  }
+  if (where !== undefined) {
+    index.where = where;
+  }
+  return index;
+}
+
 function getJoinIndexFields(
   entity: GraphQLObjectType<any, any>,
   entityFields: GraphQLField<any, any, {[p: string]: any}>[],
@@ -227,6 +465,37 @@ function getJoinIndexFields(
   });
 }
 
+function validateFullText(
+  entity: GraphQLObjectType<any, any>,
+  model: GraphQLModelsType,
+  {fields, language}: GraphQLFullTextType
+): void {
+  if (!fields.length) {
+    throw new Error(`Full text search on entity ${entity} expected at least 1 field`);
+  }
+  const duplicateFields = fields.filter((name, index, arr) => arr.indexOf(name) !== index);
+  if (duplicateFields.length) {
+    throw new Error(`Full text search on entity ${entity} got duplicated fields: ${duplicateFields}`);
+  }
+  for (const name of fields) {
+    const field = model.fields.find((f) => f.name === name);
+    if (!field) {
+      throw new Error(`Full text search field ${name} not found within entity ${entity}`);
+    }
+    if (field.type !== FieldScalar.String || field.isArray) {
+      throw new Error(`Full text search field ${name} on entity ${entity} must be a String`);
+    }
+    // Generated columns can't use other generated columns
+    if (field.computed !== undefined) {
+      throw new Error(`Full text search field ${name} on entity ${entity} can't be computed`);
+    }
+  }
+  // The language is used as a text search configuration name in the db
+  if (!/^[a-z_]+$/.test(language)) {
+    throw new Error(`Full text search language ${language} on entity ${entity} is not valid`);
+  }
+}
+
 function packEntityField(
   typeString: FieldScalar | string,
   field: GraphQLField<unknown, unknown>,
@@ -296,6 +565,30 @@ function getEnumsFromSchema(schema: GraphQLSchema): GraphQLEnumType[] {
     .filter(isEnumType);
 }
 
+/**
+ * Enum values renamed with the @renamedFrom directive, these are renamed in place rather than removing the previous value.
+ * The previous value can't also be a current value and can't be renamed to more than one value.
+ * */
+function getEnumRenames(schema: GraphQLSchema, node: GraphQLEnumType): Record<string, string> | undefined {
+  const renamedFromDirective = schema.getDirective('renamedFrom');
+  const values = node.getValues().map((v) => v.value);
+
+  const renames: Record<string, string> = {};
+  for (const value of node.getValues()) {
+    if (!value.astNode) continue;
+    const previous = getDirectiveValues(renamedFromDirective, value.astNode)?.value;
+    if (previous === undefined) continue;
+    if (values.includes(previous)) {
+      throw new Error(`Enum ${node.name} value ${value.name} can't be renamed from ${previous}, it is still a value`);
+    }
+    if (Object.values(renames).includes(previous)) {
+      throw new Error(`Enum ${node.name} value ${previous} is renamed to more than one value`);
+    }
+    renames[value.value] = previous;
+  }
+  return Object.keys(renames).length ? renames : undefined;
+}
+
 //Get the type, ready to be convert to string
 function extractType(type: GraphQLOutputType): string {
   if (isUnionType(type)) {
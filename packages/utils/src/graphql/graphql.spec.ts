@@ -306,6 +306,19 @@ describe('utils that handle schema.graphql', () => {
     expect(entities.models?.[0].indexes[0].fields).toEqual(['field1', 'field2']);
   });
 
+  it('keeps the declared field order of composite indexes', () => {
+    const graphqlSchema = gql`
+      type StarterEntity @entity @compositeIndexes(fields: [["field2", "field1"]]) {
+        id: ID!
+        field1: Int!
+        field2: String
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models?.[0].indexes[0].fields).toEqual(['field2', 'field1']);
+  });
+
   it('can create composite index for fk field', () => {
     const graphqlSchema = gql`
       type StarterEntity @entity @compositeIndexes(fields: [["field1", "field2"], ["field2", "relate"]]) {
@@ -364,4 +377,357 @@ describe('utils that handle schema.graphql', () => {
       /Composite index on entity StarterEntity expected not more than 3 fields,/
     );
   });
+
+  it('can read full text search', () => {
+    const graphqlSchema = gql`
+      type Token @entity @fullText(fields: ["name", "symbol"]) {
+        id: ID!
+        name: String!
+        symbol: String
+      }
+      type Transfer @entity @fullText(fields: ["memo"], language: "simple") {
+        id: ID!
+        memo: String
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models?.[0].fullText).toEqual({fields: ['name', 'symbol'], language: 'english'});
+    expect(entities.models?.[1].fullText).toEqual({fields: ['memo'], language: 'simple'});
+  });
+
+  it('will throw if full text search fields are not strings', () => {
+    const graphqlSchema = gql`
+      type Token @entity @fullText(fields: ["name", "decimals"]) {
+        id: ID!
+        name: String!
+        decimals: Int!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    expect(() => getAllEntitiesRelations(schema)).toThrow(
+      /Full text search field decimals on entity Token must be a String/
+    );
+  });
+
+  it('will throw if full text search field not found within entity', () => {
+    const graphqlSchema = gql`
+      type Token @entity @fullText(fields: ["name"]) {
+        id: ID!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    expect(() => getAllEntitiesRelations(schema)).toThrow(/Full text search field name not found within entity Token/);
+  });
+
+  it('can read column type overrides', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity {
+        id: ID! @dbType(type: "varchar(66)")
+        amount: BigInt! @dbType(type: "numeric(78)")
+        price: String @dbType(type: "numeric(38, 18)")
+        hash: Bytes @dbType(type: "bytea")
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models?.[0].fields.map((f) => f.dbType)).toEqual([
+      'varchar(66)',
+      'numeric(78)',
+      'numeric(38, 18)',
+      'bytea',
+    ]);
+  });
+
+  it('will throw if the column type is not supported by the field type', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity {
+        id: ID!
+        amount: BigInt! @dbType(type: "numeric(38,18)")
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    expect(() => getAllEntitiesRelations(schema)).toThrow(
+      /dbType numeric\(38,18\) is not supported for BigInt field amount/
+    );
+  });
+
+  it('will throw if the column type is added on a relation', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity {
+        id: ID!
+        account: Account! @dbType(type: "text")
+      }
+      type Account @entity {
+        id: ID!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    expect(() => getAllEntitiesRelations(schema)).toThrow(/dbType can not be added on field account/);
+  });
+
+  it('can read index types and partial indexes', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity @compositeIndexes(fields: [["from", "to"]], using: "brin", where: "amount > 0") {
+        id: ID!
+        from: String!
+        to: String!
+        amount: BigInt! @index(using: "btree", where: "amount > 1000")
+        tags: [String] @index(using: "gin")
+        account: Account! @index(unique: true, where: "account_id IS NOT NULL")
+      }
+      type Account @entity {
+        id: ID!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models?.[0].indexes).toEqual([
+      {fields: ['amount'], using: 'btree', where: 'amount > 1000'},
+      {fields: ['tags'], using: 'gin'},
+      {fields: ['accountId'], unique: true, using: 'btree', where: 'account_id IS NOT NULL'},
+      {fields: ['from', 'to'], using: 'brin', where: 'amount > 0'},
+    ]);
+  });
+
+  it('will throw for invalid index combinations', () => {
+    const buildEntities = (directive: string) =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          type Transfer @entity {
+            id: ID!
+            from: String! ${directive}
+          }
+        `)
+      );
+
+    expect(() => buildEntities('@index(unique: true, using: "hash")')).toThrow(
+      /Unique index on Transfer.from must use btree/
+    );
+    expect(() => buildEntities('@index(using: "fulltext")')).toThrow(/Index type fulltext on Transfer.from/);
+    expect(() => buildEntities('@index(using: "gin")')).toThrow(/only supported on array and json fields/);
+    expect(() => buildEntities('@index(where: "1 = 1; DROP TABLE transfers")')).toThrow(/predicate/);
+  });
+
+  it('can read interfaces implemented by entities', () => {
+    const graphqlSchema = gql`
+      enum Status {
+        Pending
+        Done
+      }
+      interface Event {
+        id: ID!
+        blockHeight: Int
+        status: Status!
+      }
+      type Account @entity {
+        id: ID!
+      }
+      type Transfer implements Event @entity {
+        id: ID!
+        blockHeight: Int!
+        status: Status!
+        from: Account!
+      }
+      type Reward implements Event @entity {
+        id: ID!
+        blockHeight: Int!
+        status: Status!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const {interfaces} = getAllEntitiesRelations(schema);
+    expect(interfaces.length).toBe(1);
+    expect(interfaces[0].name).toBe('Event');
+    expect(interfaces[0].implementations).toEqual(['Transfer', 'Reward']);
+    expect(interfaces[0].fields.map(({isEnum, name, nullable, type}) => ({name, type, nullable, isEnum}))).toEqual([
+      {name: 'id', type: 'ID', nullable: false, isEnum: false},
+      {name: 'blockHeight', type: 'Int', nullable: true, isEnum: false},
+      {name: 'status', type: 'Status', nullable: false, isEnum: true},
+    ]);
+  });
+
+  it('will throw if an interface field is not a column of the entities', () => {
+    const graphqlSchema = gql`
+      interface Event {
+        id: ID!
+        account: Account!
+      }
+      type Account @entity {
+        id: ID!
+      }
+      type Transfer implements Event @entity {
+        id: ID!
+        account: Account!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    expect(() => getAllEntitiesRelations(schema)).toThrow(
+      /Interface Event field account must be a scalar or enum field/
+    );
+  });
+
+  it('can read many to many relations', () => {
+    const graphqlSchema = gql`
+      type Post @entity {
+        id: ID!
+        tags: [Tag!]! @manyToMany
+      }
+      type Tag @entity {
+        id: ID!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const {models, relations} = getAllEntitiesRelations(schema);
+    expect(models.map((model) => model.name)).toEqual(['Post', 'Tag', 'PostTag']);
+    expect(models[0].fields.map((field) => field.name)).toEqual(['id']);
+    expect(models[2].fields.map((field) => field.name)).toEqual(['id', 'postId', 'tagId']);
+    expect(models[2].indexes).toEqual([
+      {unique: false, fields: ['postId'], using: 'hash'},
+      {unique: false, fields: ['tagId'], using: 'hash'},
+    ]);
+    expect(relations).toEqual([
+      {
+        from: 'Post',
+        type: 'manyToMany',
+        to: 'Tag',
+        foreignKey: 'postId',
+        fieldName: 'tags',
+        through: 'PostTag',
+        otherKey: 'tagId',
+      },
+      {from: 'PostTag', type: 'belongsTo', to: 'Post', foreignKey: 'postId'},
+      {from: 'PostTag', type: 'belongsTo', to: 'Tag', foreignKey: 'tagId'},
+    ]);
+  });
+
+  it('will throw for invalid many to many relations', () => {
+    const buildEntities = (field: string) =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          type Post @entity {
+            id: ID!
+            ${field}
+          }
+          type Tag @entity {
+            id: ID!
+          }
+        `)
+      );
+
+    expect(() => buildEntities('tag: Tag @manyToMany')).toThrow(/must be a list of entities/);
+    expect(() => buildEntities('names: [String] @manyToMany')).toThrow(/must be a list of entities/);
+    expect(() => buildEntities('posts: [Post] @manyToMany')).toThrow(/can't reference its own entity/);
+    expect(() => buildEntities('tags: [Tag] @manyToMany\n labels: [Tag] @manyToMany')).toThrow(
+      /more than one many to many relation with Tag/
+    );
+  });
+
+  it('can read computed fields', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity {
+        id: ID!
+        amount: BigInt!
+        decimals: Int!
+        value: Float @computed(sql: "amount / 10 ^ decimals")
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models[0].fields[3].computed).toBe('amount / 10 ^ decimals');
+    expect(entities.models[0].fields[1].computed).toBeUndefined();
+  });
+
+  it('will throw for invalid computed fields', () => {
+    const buildEntities = (field: string, directive = '') =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          type Transfer @entity ${directive} {
+            id: ID!
+            amount: BigInt!
+            ${field}
+          }
+        `)
+      );
+
+    expect(() => buildEntities('values: [Float] @computed(sql: "amount")')).toThrow(
+      /computed can not be added on field values/
+    );
+    expect(() => buildEntities('value: Float @computed(sql: "amount; DROP TABLE transfers")')).toThrow(
+      /expression is not valid/
+    );
+    expect(() => buildEntities('value: Float @computed(sql: "amount") @index')).toThrow(
+      /index can not be added on computed field value/
+    );
+    expect(() =>
+      buildEntities('value: Float @computed(sql: "amount")', '@compositeIndexes(fields: [["amount", "value"]])')
+    ).toThrow(/can't include computed fields/);
+  });
+
+  it('can read the history retention of entities', () => {
+    const graphqlSchema = gql`
+      type Transfer @entity(historyRetention: 1000) {
+        id: ID!
+      }
+      type Account @entity {
+        id: ID!
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const entities = getAllEntitiesRelations(schema);
+    expect(entities.models[0].historyRetention).toBe(1000);
+    expect(entities.models[1].historyRetention).toBeUndefined();
+
+    expect(() =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          type Transfer @entity(historyRetention: 0) {
+            id: ID!
+          }
+        `)
+      )
+    ).toThrow(/History retention on entity Transfer must be greater than 0/);
+  });
+
+  it('can read renamed enum values', () => {
+    const graphqlSchema = gql`
+      enum Status {
+        Active
+        Closed @renamedFrom(value: "Inactive")
+      }
+      enum Kind {
+        A
+      }
+      type Account @entity {
+        id: ID!
+        status: Status!
+        kind: Kind
+      }
+    `;
+    const schema = buildSchemaFromDocumentNode(graphqlSchema);
+    const {enums} = getAllEntitiesRelations(schema);
+    expect(enums.find((e) => e.name === 'Status')?.renamedFrom).toEqual({Closed: 'Inactive'});
+    expect(enums.find((e) => e.name === 'Kind')?.renamedFrom).toBeUndefined();
+
+    expect(() =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          enum Status {
+            Active
+            Closed @renamedFrom(value: "Active")
+          }
+        `)
+      )
+    ).toThrow(/Enum Status value Closed can't be renamed from Active, it is still a value/);
+    expect(() =>
+      getAllEntitiesRelations(
+        buildSchemaFromDocumentNode(gql`
+          enum Status {
+            Active @renamedFrom(value: "Inactive")
+            Closed @renamedFrom(value: "Inactive")
+          }
+        `)
+      )
+    ).toThrow(/Enum Status value Inactive is renamed to more than one value/);
+  });
 });
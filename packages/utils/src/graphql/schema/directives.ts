@@ -5,8 +5,13 @@ import gql from 'graphql-tag';
 
 export const directives = gql`
   directive @derivedFrom(field: String!) on FIELD_DEFINITION
-  directive @entity on OBJECT
+  directive @entity(historyRetention: Int) on OBJECT
+  directive @manyToMany on FIELD_DEFINITION
   directive @jsonField(indexed: Boolean) on OBJECT
-  directive @index(unique: Boolean) on FIELD_DEFINITION
-  directive @compositeIndexes(fields: [[String]]!) on OBJECT
+  directive @index(unique: Boolean, using: String, where: String) on FIELD_DEFINITION
+  directive @dbType(type: String!) on FIELD_DEFINITION
+  directive @computed(sql: String!) on FIELD_DEFINITION
+  directive @compositeIndexes(fields: [[String]]!, using: String, where: String) on OBJECT
+  directive @fullText(fields: [String!]!, language: String = "english") on OBJECT
+  directive @renamedFrom(value: String!) on ENUM_VALUE
 `;
@@ -20,6 +20,8 @@ export interface GraphQLModelsRelationsEnums {
   relations: GraphQLRelationsType[];
 
   enums: GraphQLEnumsType[];
+
+  interfaces: GraphQLInterfacesType[];
 }
 
 export interface GraphQLEnumsType {
@@ -27,6 +29,9 @@ export interface GraphQLEnumsType {
 
   values: string[];
 
+  // Values renamed with the @renamedFrom directive, new value to previous value
+  renamedFrom?: Record<string, string>;
+
   description?: string;
 }
 
@@ -37,6 +42,22 @@ export interface GraphQLModelsType {
 
   indexes: GraphQLEntityIndex[];
 
+  fullText?: GraphQLFullTextType;
+
+  // The number of blocks that historical versions are kept for
+  historyRetention?: number;
+
+  description?: string;
+}
+
+// An interface implemented by entities, the fields are the columns shared by the implementing entities
+export interface GraphQLInterfacesType {
+  name: string;
+
+  fields: GraphQLEntityField[];
+
+  implementations: string[];
+
   description?: string;
 }
 
@@ -53,6 +74,12 @@ export interface GraphQLEntityField {
 
   isEnum: boolean;
 
+  // Overrides the column type of the scalar type
+  dbType?: string;
+
+  // SQL expression of a generated column, it uses column names rather than field names
+  computed?: string;
+
   description?: string;
 }
 
@@ -71,18 +98,32 @@ export interface GraphQLEntityIndex {
   unique?: boolean;
 
   using?: IndexType;
+
+  // SQL predicate for partial indexes, it uses column names rather than field names
+  where?: string;
+}
+
+export interface GraphQLFullTextType {
+  fields: string[];
+
+  language: string;
 }
 
 export interface GraphQLRelationsType {
   from: string;
 
-  type: 'hasOne' | 'hasMany' | 'belongsTo';
+  type: 'hasOne' | 'hasMany' | 'belongsTo' | 'manyToMany';
 
   to: string;
 
   foreignKey: string;
 
   fieldName?: string;
+
+  // The join entity of many to many relations, it references `from` with `foreignKey` and `to` with `otherKey`
+  through?: string;
+
+  otherKey?: string;
 }
 
 export enum FieldScalar {
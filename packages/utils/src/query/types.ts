@@ -20,3 +20,12 @@ export type MetaData = {
   rowCountEstimate: TableEstimate[];
   deployments: Record<number, string>;
 };
+
+// An enum value that has been removed, renamed values are kept as an alias of the value they were renamed to
+export type DeprecatedEnumValue = {
+  value: string;
+  renamedTo?: string;
+};
+
+// Enum name to its deprecated values, stored in the metadata as `enumHistory`
+export type EnumHistory = Record<string, DeprecatedEnumValue[]>;
@@ -12,7 +12,9 @@ export class TypeClass {
     private _hashCode: (data: unknown) => Uint8Array,
     private _tsType?: string,
     private _fieldScalar?: string,
-    private _sequelizeType?: SequelizeTypes
+    private _sequelizeType?: SequelizeTypes,
+    // Column types that can be used instead of the sequelize type with the @dbType directive
+    private _dbTypes?: RegExp[]
   ) {}
   get tsType(): string | undefined {
     return this._tsType;
@@ -24,6 +26,10 @@ export class TypeClass {
     assert(this._sequelizeType !== undefined, `Type ${this.name} associated sequelize type is not supported`);
     return this._sequelizeType;
   }
+  supportsDbType(dbType: string): boolean {
+    const normalized = dbType.trim().toLowerCase().replace(/\s+/g, ' ');
+    return !!this._dbTypes?.some((pattern) => pattern.test(normalized));
+  }
   hashCode(data: any): Uint8Array {
     if (this._hashCode === undefined) {
       return Buffer.from(JSON.stringify(data));
@@ -17,4 +17,11 @@ describe('general types', () => {
   it('get unsupported type', () => {
     expect(getTypeByScalarName('Unsupported')).toBe(undefined);
   });
+
+  it('checks supported db types', () => {
+    expect(getTypeByScalarName('BigInt').supportsDbType('NUMERIC(78, 0)')).toBeTruthy();
+    expect(getTypeByScalarName('BigInt').supportsDbType('numeric(38,18)')).toBeFalsy();
+    expect(getTypeByScalarName('Date').supportsDbType('timestamp  with time zone')).toBeTruthy();
+    expect(getTypeByScalarName('Int').supportsDbType('text')).toBeFalsy();
+  });
 });
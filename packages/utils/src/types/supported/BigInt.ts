@@ -11,5 +11,6 @@ export const BigInt = new TypeClass(
   },
   'bigint',
   'BigInt',
-  'numeric'
+  'numeric',
+  [/^(bigint|int8)$/, /^(numeric|decimal)(\(\d+(,\s*0)?\))?$/]
 );
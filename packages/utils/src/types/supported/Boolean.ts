@@ -11,5 +11,6 @@ export const Boolean = new TypeClass(
   },
   'boolean',
   'Boolean',
-  'boolean'
+  'boolean',
+  [/^boolean$/]
 );
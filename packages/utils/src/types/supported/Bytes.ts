@@ -16,5 +16,6 @@ export const Bytes = new TypeClass(
   },
   'string',
   'Bytes',
-  DataTypes.BLOB
+  DataTypes.BLOB,
+  [/^bytea$/]
 );
@@ -13,5 +13,6 @@ export const DateObj = new TypeClass(
   },
   'Date',
   'Date',
-  'timestamp'
+  'timestamp',
+  [/^(timestamp|timestamptz|timestamp (with|without) time zone)$/]
 );
@@ -12,5 +12,6 @@ export const Float = new TypeClass(
   },
   'number',
   'Float',
-  DataTypes.FLOAT
+  DataTypes.FLOAT,
+  [/^(real|float4|float8|double precision)$/]
 );
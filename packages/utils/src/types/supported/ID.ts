@@ -10,5 +10,6 @@ export const ID = new TypeClass(
   },
   'string',
   'ID',
-  'text'
+  'text',
+  [/^text$/, /^(varchar|character varying)\(\d+\)$/]
 );
@@ -11,5 +11,6 @@ export const Int = new TypeClass(
   },
   'number',
   'Int',
-  'integer'
+  'integer',
+  [/^(integer|int|int4|smallint|int2)$/]
 );
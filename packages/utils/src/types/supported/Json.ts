@@ -11,5 +11,6 @@ export const Json = new TypeClass(
   },
   undefined,
   undefined,
-  DataTypes.JSONB
+  DataTypes.JSONB,
+  [/^(json|jsonb)$/]
 );
@@ -10,5 +10,6 @@ export const String = new TypeClass(
   },
   'string',
   'String',
-  'text'
+  'text',
+  [/^text$/, /^(varchar|character varying|char|character)\(\d+\)$/, /^(numeric|decimal)\(\d+(,\s*\d+)?\)$/]
 );